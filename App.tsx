@@ -13,7 +13,10 @@ import {
   RadioTowerIcon,
   FilesIcon,
   HelpCircleIcon,
-  SettingsIcon
+  SettingsIcon,
+  DatabaseIcon,
+  BarChartIcon,
+  LockIcon
 } from './components/Icons.tsx';
 import LiveConversation from './features/LiveConversation.tsx';
 import ChatBot from './features/ChatBot.tsx';
@@ -24,10 +27,29 @@ import AudioTranscription from './features/AudioTranscription.tsx';
 import FileLibrary from './features/FileLibrary.tsx';
 import GroundingSearch from './features/GroundingSearch.tsx';
 import ComplexReasoning from './features/ComplexReasoning.tsx';
+import MemoryManager from './features/MemoryManager.tsx';
+import UsageDashboard from './features/UsageDashboard.tsx';
 import Settings from './features/Settings.tsx';
 import Tooltip from './components/Tooltip.tsx';
 import HelpModal from './components/HelpModal.tsx';
+import RequestQueueBanner from './components/RequestQueueBanner.tsx';
+import UsageBudgetBanner from './components/UsageBudgetBanner.tsx';
+import VaultMigrationOverlay from './components/VaultMigrationOverlay.tsx';
+import LockScreen from './components/LockScreen.tsx';
 import { dbService, StoredFile } from './services/dbService.ts';
+import { providerService } from './services/providerService.ts';
+import { modelSettingsService } from './services/modelSettingsService.ts';
+import { apiKeyService } from './services/apiKeyService.ts';
+import { memoryRetrievalService } from './services/memoryRetrievalService.ts';
+import { contextBudgetService } from './services/contextBudgetService.ts';
+import { worldInfoService } from './services/worldInfoService.ts';
+import { pluginService } from './services/pluginService.ts';
+import { toolPolicyService } from './services/toolPolicyService.ts';
+import { usageService } from './services/usageService.ts';
+import { cryptoService } from './services/cryptoService.ts';
+import { vaultService } from './services/vaultService.ts';
+import { lockService, LOCK_EVENT } from './services/lockService.ts';
+import { NAVIGATE_EVENT } from './utils/errorUtils.ts';
 import Auth from './components/Auth.tsx';
 import Spinner from './components/Spinner.tsx';
 
@@ -42,6 +64,8 @@ const features: Feature[] = [
   { id: 'video-analysis', name: 'Video Analysis', description: 'Upload a short video to get summaries, scene descriptions, and answers to specific questions about its content.', icon: <VideoIcon />, component: VideoAnalysis },
   { id: 'audio-transcription', name: 'Audio Transcription', description: 'Transcribe spoken words from various audio file formats into text with high accuracy.', icon: <MicIcon />, component: AudioTranscription },
   { id: 'file-library', name: 'File Library', description: 'Manage your personal, encrypted local file storage. Uploaded files can be accessed by the AI across different features.', icon: <FilesIcon />, component: FileLibrary },
+  { id: 'memory', name: 'Memory Manager', description: 'Browse, search and edit the long-term memories your chats recall. Remove wrong or outdated memories one at a time or in bulk.', icon: <DatabaseIcon />, component: MemoryManager },
+  { id: 'usage', name: 'Usage', description: 'See how many requests and tokens each feature uses per day, what they are estimated to cost, and set a monthly budget.', icon: <BarChartIcon />, component: UsageDashboard },
   { id: 'settings', name: 'Settings', description: 'Configure AI personas, manage voice settings, and securely backup or restore all your application data.', icon: <SettingsIcon />, component: Settings },
 ];
 
@@ -51,6 +75,7 @@ const App: React.FC = () => {
   const [activeFeature, setActiveFeature] = useState<FeatureId>('live');
   const [documents, setDocuments] = useState<StoredFile[]>([]);
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
   
   useEffect(() => {
     // This effect simply moves past the initial "checking" state.
@@ -59,8 +84,30 @@ const App: React.FC = () => {
     setIsCheckingAuth(false);
   }, []);
 
+  useEffect(() => {
+    const handleNavigate = (e: Event) => setActiveFeature((e as CustomEvent<FeatureId>).detail);
+    window.addEventListener(NAVIGATE_EVENT, handleNavigate);
+    return () => window.removeEventListener(NAVIGATE_EVENT, handleNavigate);
+  }, []);
+
+  useEffect(() => {
+    const handleLockChange = (e: Event) => setIsLocked((e as CustomEvent<boolean>).detail);
+    window.addEventListener(LOCK_EVENT, handleLockChange);
+    return () => window.removeEventListener(LOCK_EVENT, handleLockChange);
+  }, []);
+
   useEffect(() => {
     if (!isAuthenticated) return;
+    return lockService.start();
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    // A key replacement that was cut short finishes re-encrypting first.
+    if (cryptoService.hasPendingKeyReplacement()) {
+      vaultService.resumeKeyReplacement().catch(error => console.error("Failed to finish replacing the keys:", error));
+    }
 
     const loadDocuments = async () => {
       try {
@@ -71,6 +118,16 @@ const App: React.FC = () => {
       }
     };
     loadDocuments();
+    apiKeyService.load().catch(error => console.error("Failed to load API keys:", error));
+    providerService.load().catch(error => console.error("Failed to load model provider settings:", error));
+    modelSettingsService.load().catch(error => console.error("Failed to load model settings:", error));
+    memoryRetrievalService.load().catch(error => console.error("Failed to load memory retrieval settings:", error));
+    contextBudgetService.load().catch(error => console.error("Failed to load context budget settings:", error));
+    worldInfoService.load().catch(error => console.error("Failed to load lorebooks:", error));
+    pluginService.load().catch(error => console.error("Failed to load plugins:", error));
+    toolPolicyService.load().catch(error => console.error("Failed to load tool policies:", error));
+    usageService.load().catch(error => console.error("Failed to load usage:", error));
+    lockService.load().catch(error => console.error("Failed to load auto-lock settings:", error));
   }, [isAuthenticated]);
 
 
@@ -95,48 +152,64 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="flex h-screen bg-slate-900 text-slate-100 font-sans">
-      <nav className="w-16 md:w-64 bg-slate-950 p-2 md:p-4 flex flex-col space-y-2 border-r border-slate-800 transition-all duration-300 overflow-y-auto">
-        <div className="flex items-center space-x-2 mb-6 md:px-2 flex-shrink-0">
-            <svg className="w-8 h-8 text-brand-primary" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12.85 3.12L12.85 3.12C12.44 2.45 11.56 2.45 11.15 3.12L3.19 16.88C2.78 17.55 3.22 18.4 3.96 18.4H20.04C20.78 18.4 21.22 17.55 20.81 16.88L12.85 3.12Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"></path><path d="M7 18.4L12 10.4L17 18.4" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"></path></svg>
-          <h1 className="text-xl font-bold hidden md:block">AI Studio</h1>
-        </div>
-        <div className="flex-grow">
-        {features.map(feature => (
-          <Tooltip key={feature.id} text={feature.description} position="top">
-            <button
-              onClick={() => setActiveFeature(feature.id)}
-              className={`flex items-center space-x-3 p-2 rounded-lg transition-colors w-full text-left mb-1 ${
-                activeFeature === feature.id
-                  ? 'bg-blue-600/30 text-white'
-                  : 'hover:bg-slate-800 text-slate-400'
-              }`}
-            >
-              <div className="w-6 h-6 flex-shrink-0">{feature.icon}</div>
-              <span className="hidden md:inline">{feature.name}</span>
-            </button>
-          </Tooltip>
-        ))}
-        </div>
-        <div className="flex-shrink-0">
-            <Tooltip text="Open a detailed guide on how to use all application features." position="top">
-                 <button
-                    onClick={() => setIsHelpModalOpen(true)}
-                    className="flex items-center space-x-3 p-2 rounded-lg transition-colors w-full text-left hover:bg-slate-800 text-slate-400"
-                >
-                    <div className="w-6 h-6 flex-shrink-0"><HelpCircleIcon /></div>
-                    <span className="hidden md:inline">Help</span>
-                </button>
+    <>
+      {/* Kept mounted while locked so nothing is lost, but out of reach of keyboard and screen readers. */}
+      <div className="flex h-screen bg-slate-900 text-slate-100 font-sans" inert={isLocked}>
+        <nav className="w-16 md:w-64 bg-slate-950 p-2 md:p-4 flex flex-col space-y-2 border-r border-slate-800 transition-all duration-300 overflow-y-auto">
+          <div className="flex items-center space-x-2 mb-6 md:px-2 flex-shrink-0">
+              <svg className="w-8 h-8 text-brand-primary" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12.85 3.12L12.85 3.12C12.44 2.45 11.56 2.45 11.15 3.12L3.19 16.88C2.78 17.55 3.22 18.4 3.96 18.4H20.04C20.78 18.4 21.22 17.55 20.81 16.88L12.85 3.12Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"></path><path d="M7 18.4L12 10.4L17 18.4" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"></path></svg>
+            <h1 className="text-xl font-bold hidden md:block">AI Studio</h1>
+          </div>
+          <div className="flex-grow">
+          {features.map(feature => (
+            <Tooltip key={feature.id} text={feature.description} position="top">
+              <button
+                onClick={() => setActiveFeature(feature.id)}
+                className={`flex items-center space-x-3 p-2 rounded-lg transition-colors w-full text-left mb-1 ${
+                  activeFeature === feature.id
+                    ? 'bg-blue-600/30 text-white'
+                    : 'hover:bg-slate-800 text-slate-400'
+                }`}
+              >
+                <div className="w-6 h-6 flex-shrink-0">{feature.icon}</div>
+                <span className="hidden md:inline">{feature.name}</span>
+              </button>
             </Tooltip>
-        </div>
-      </nav>
+          ))}
+          </div>
+          <div className="flex-shrink-0">
+              <Tooltip text="Lock the app now. Your password is needed to continue." position="top">
+                   <button
+                      onClick={() => lockService.lock()}
+                      className="flex items-center space-x-3 p-2 rounded-lg transition-colors w-full text-left mb-1 hover:bg-slate-800 text-slate-400"
+                  >
+                      <div className="w-6 h-6 flex-shrink-0"><LockIcon /></div>
+                      <span className="hidden md:inline">Lock</span>
+                  </button>
+              </Tooltip>
+              <Tooltip text="Open a detailed guide on how to use all application features." position="top">
+                   <button
+                      onClick={() => setIsHelpModalOpen(true)}
+                      className="flex items-center space-x-3 p-2 rounded-lg transition-colors w-full text-left hover:bg-slate-800 text-slate-400"
+                  >
+                      <div className="w-6 h-6 flex-shrink-0"><HelpCircleIcon /></div>
+                      <span className="hidden md:inline">Help</span>
+                  </button>
+              </Tooltip>
+          </div>
+        </nav>
 
-      <main className="flex-1 flex flex-col overflow-hidden">
-        {ActiveFeatureComponent && React.createElement(ActiveFeatureComponent, activeFeatureProps)}
-      </main>
+        <main className="flex-1 flex flex-col overflow-hidden">
+          <RequestQueueBanner />
+          <UsageBudgetBanner />
+          {ActiveFeatureComponent && React.createElement(ActiveFeatureComponent, activeFeatureProps)}
+        </main>
 
-      <HelpModal isOpen={isHelpModalOpen} onClose={() => setIsHelpModalOpen(false)} />
-    </div>
+        <HelpModal isOpen={isHelpModalOpen} onClose={() => setIsHelpModalOpen(false)} />
+        <VaultMigrationOverlay />
+      </div>
+      {isLocked && <LockScreen />}
+    </>
   );
 };
 
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { cryptoService } from '../services/cryptoService.ts';
+import RecoveryKeyDisplay from './RecoveryKeyDisplay.tsx';
 
 interface AuthProps {
     onLoginSuccess: () => void;
@@ -8,8 +9,13 @@ interface AuthProps {
 
 const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
     const [isSetup, setIsSetup] = useState(false);
+    const [isRecovering, setIsRecovering] = useState(false);
     const [password, setPassword] = useState('');
     const [confirmPassword, setConfirmPassword] = useState('');
+    const [recoveryKeyInput, setRecoveryKeyInput] = useState('');
+    const [withRecoveryKey, setWithRecoveryKey] = useState(true);
+    // Shown once after setup, before entering the app.
+    const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null);
     const [error, setError] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     
@@ -30,26 +36,58 @@ const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
         }
     };
 
-    const handleSetup = async (e: React.FormEvent) => {
-        e.preventDefault();
+    const validateNewPassword = (): boolean => {
         if (password !== confirmPassword) {
             setError('Passwords do not match.');
-            return;
+            return false;
         }
         if (password.length < 8) {
             setError('Password must be at least 8 characters long.');
-            return;
+            return false;
         }
+        return true;
+    };
+
+    const handleSetup = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!validateNewPassword()) return;
         setIsLoading(true);
         setError('');
         try {
-            await cryptoService.setup(password);
-            onLoginSuccess();
+            const recoveryKey = await cryptoService.setup(password, withRecoveryKey);
+            if (recoveryKey) {
+                setNewRecoveryKey(recoveryKey);
+                setIsLoading(false);
+            } else {
+                onLoginSuccess();
+            }
         } catch (err: any) {
             setError(err.message);
             setIsLoading(false);
         }
     };
+
+    const handleRecover = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!validateNewPassword()) return;
+        setIsLoading(true);
+        setError('');
+        const success = await cryptoService.recover(recoveryKeyInput, password);
+        if (success) {
+            onLoginSuccess();
+        } else {
+            setError('Incorrect recovery key. Please check it and try again.');
+            setIsLoading(false);
+        }
+    };
+
+    const showRecovery = (recovering: boolean) => {
+        setIsRecovering(recovering);
+        setPassword('');
+        setConfirmPassword('');
+        setRecoveryKeyInput('');
+        setError('');
+    };
     
     const handleReset = () => {
         if (window.confirm("ARE YOU SURE?\n\nThis will permanently delete all your data (files, chat history, settings) and cannot be undone. You will be asked to create a new password.")) {
@@ -77,20 +115,91 @@ const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
             <button type="submit" disabled={isLoading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors">
                 {isLoading ? 'Unlocking...' : 'Unlock'}
             </button>
-            <div className="text-center">
+            <div className="text-center space-y-2">
+                {cryptoService.hasRecoveryKey() && (
+                    <button type="button" onClick={() => showRecovery(true)} className="block w-full text-sm text-blue-400 hover:text-blue-300">
+                        Forgot Password? Recover with Key
+                    </button>
+                )}
                 <button type="button" onClick={handleReset} className="text-sm text-slate-500 hover:text-red-400">
-                    Forgot Password? Reset Application
+                    {cryptoService.hasRecoveryKey() ? 'Lost the recovery key too? Reset Application' : 'Forgot Password? Reset Application'}
+                </button>
+            </div>
+        </form>
+    );
+
+    const renderRecoveryForm = () => (
+        <form onSubmit={handleRecover} className="space-y-4">
+            <h1 className="text-3xl font-bold text-center text-white">Recover Access</h1>
+            <p className="text-slate-400 text-center">Enter your recovery key and choose a new password. All your data is kept.</p>
+            <div>
+                <label htmlFor="recovery-key" className="sr-only">Recovery key</label>
+                <input
+                    id="recovery-key"
+                    type="text"
+                    value={recoveryKeyInput}
+                    onChange={(e) => setRecoveryKeyInput(e.target.value)}
+                    placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                    required
+                    autoComplete="off"
+                    spellCheck={false}
+                    className="w-full p-3 bg-slate-800 border border-slate-700 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+            </div>
+            <div>
+                <label htmlFor="password-recover" className="sr-only">New password</label>
+                <input
+                    id="password-recover"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="New password (min 8 characters)"
+                    required
+                    autoComplete="new-password"
+                    className="w-full p-3 bg-slate-800 border border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+            </div>
+            <div>
+                <label htmlFor="password-recover-confirm" className="sr-only">Confirm new password</label>
+                <input
+                    id="password-recover-confirm"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Confirm new password"
+                    required
+                    autoComplete="new-password"
+                    className="w-full p-3 bg-slate-800 border border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+            </div>
+            <button type="submit" disabled={isLoading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors">
+                {isLoading ? 'Recovering...' : 'Set New Password & Unlock'}
+            </button>
+            <div className="text-center">
+                <button type="button" onClick={() => showRecovery(false)} className="text-sm text-slate-500 hover:text-slate-300">
+                    Back to Unlock
                 </button>
             </div>
         </form>
     );
+
+    const renderRecoveryKey = (recoveryKey: string) => (
+        <div className="space-y-4">
+            <h1 className="text-3xl font-bold text-center text-white">Save Your Recovery Key</h1>
+            <p className="text-slate-400 text-center">If you forget your password, this key lets you set a new one without losing your data. Keep it somewhere safe, away from this device. It won't be shown again.</p>
+            <RecoveryKeyDisplay recoveryKey={recoveryKey} />
+            <button type="button" onClick={onLoginSuccess} className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition-colors">
+                I've Saved It, Continue
+            </button>
+        </div>
+    );
     
     const renderSetupForm = () => (
         <form onSubmit={handleSetup} className="space-y-4">
              <h1 className="text-3xl font-bold text-center text-white">Create Your Password</h1>
-             <p className="text-slate-400 text-center">This password protects all your local data. It cannot be recovered if lost.</p>
+             <p className="text-slate-400 text-center">This password protects all your local data. We cannot recover it for you.</p>
              <div className="p-4 bg-yellow-900/50 border border-yellow-700 rounded-lg text-yellow-300 text-sm">
-                <strong>Important:</strong> Your password is the only key to your data. We cannot recover it for you. Losing your password means losing access to all your files and chats permanently.
+                <strong>Important:</strong> Without a recovery key, your password is the only key to your data. Losing it means losing access to all your files and chats permanently.
              </div>
              <div>
                 <label htmlFor="password-setup" className="sr-only">Password</label>
@@ -116,6 +225,10 @@ const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
                     className="w-full p-3 bg-slate-800 border border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
                 />
             </div>
+             <label className="flex items-start gap-2 text-sm text-slate-300">
+                <input type="checkbox" checked={withRecoveryKey} onChange={(e) => setWithRecoveryKey(e.target.checked)} className="mt-1 rounded bg-slate-800 border-slate-700" />
+                <span>Create a recovery key (recommended). It lets you set a new password if you forget this one.</span>
+             </label>
              <button type="submit" disabled={isLoading} className="w-full bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors">
                  {isLoading ? 'Securing...' : 'Create Password & Start'}
              </button>
@@ -125,7 +238,7 @@ const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
     return (
         <div className="flex items-center justify-center h-screen bg-slate-900">
             <div className="w-full max-w-md p-8 bg-slate-950 rounded-2xl shadow-lg border border-slate-800">
-                {isSetup ? renderLoginForm() : renderSetupForm()}
+                {newRecoveryKey ? renderRecoveryKey(newRecoveryKey) : !isSetup ? renderSetupForm() : isRecovering ? renderRecoveryForm() : renderLoginForm()}
                 {error && <p className="mt-4 text-center text-red-400">{error}</p>}
             </div>
         </div>
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { ContextSection, ContextUsage } from '../utils/contextBudget.ts';
+
+interface ContextMeterProps {
+  usage: ContextUsage;
+  totalTokens: number;
+}
+
+const SECTIONS: { id: ContextSection; label: string; color: string }[] = [
+  { id: 'system', label: 'System prompt', color: 'bg-slate-400' },
+  { id: 'lore', label: 'Lore', color: 'bg-purple-500' },
+  { id: 'memories', label: 'Memories', color: 'bg-green-500' },
+  { id: 'files', label: 'Files', color: 'bg-amber-500' },
+  { id: 'history', label: 'History', color: 'bg-blue-500' },
+];
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+// How much of the chat's context budget the last request used, by section.
+const ContextMeter: React.FC<ContextMeterProps> = ({ usage, totalTokens }) => {
+  const used = SECTIONS.reduce((sum, section) => sum + usage[section.id], 0);
+  const scale = Math.max(used, totalTokens);
+  const breakdown = SECTIONS.map(section => `${section.label}: ${usage[section.id].toLocaleString()}`).join('\n');
+
+  return (
+    <div className="w-48 flex-shrink-0 text-xs text-slate-400" title={`${breakdown}\nBudget: ${totalTokens.toLocaleString()} tokens`}>
+      <div className="flex justify-between mb-1">
+        <span>Context</span>
+        <span className={used > totalTokens ? 'text-red-400' : ''}>{formatTokens(used)} / {formatTokens(totalTokens)}</span>
+      </div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-slate-800" role="meter" aria-label="Context usage" aria-valuemin={0} aria-valuemax={totalTokens} aria-valuenow={used}>
+        {SECTIONS.map(section => usage[section.id] > 0 && (
+          <div key={section.id} className={section.color} style={{ width: `${(usage[section.id] / scale) * 100}%` }} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ContextMeter;
@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { AlertTriangleIcon, XIcon } from './Icons.tsx';
-import type { FormattedError } from '../utils/errorUtils.ts';
+import { navigateToFeature, type FormattedError } from '../utils/errorUtils.ts';
 
 interface ErrorDisplayProps {
   error: FormattedError;
@@ -25,6 +25,14 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, onDismiss }) => {
             {error.message}
           </div>
           <div className="mt-3 flex space-x-4 text-sm">
+             {error.action && (
+                <button
+                   onClick={() => navigateToFeature(error.action!.featureId)}
+                   className="font-semibold text-white underline hover:text-red-100"
+                >
+                   {error.action.label}
+                </button>
+             )}
              <button
                 onClick={() => setShowDetails(!showDetails)}
                 className="font-semibold text-red-100 hover:text-white"
@@ -25,8 +25,11 @@ const helpContent = [
         <ul class="list-disc list-inside mt-2 space-y-1">
             <li>Use the <strong>Settings icon ⚙️</strong> to configure the AI's persona, including its role, personality, voice, and avatar.</li>
             <li>Use the <strong>Paperclip icon 📎</strong> to grant the AI temporary access to specific files from your library for contextual conversations.</li>
-            <li>The AI can use tools in chat. For example, if you ask it to "draw a picture," it may use the image generation tool automatically.</li>
+            <li>The AI can use tools in chat and reason over their results before answering: generate images, search the web, read a website, list and analyze the files you shared, create documents and characters, and save or recall long-term memories. The tools it used are shown above its reply. Tools that browse the web or change your saved data ask for your approval first; you can change this per tool in Settings.</li>
             <li>You can also use a slash command: type <strong>/imagine a red sports car</strong> to directly generate an image.</li>
+            <li>Press <strong>Stop</strong> while the AI is answering to cut the reply short. What it wrote so far is kept and marked as stopped.</li>
+            <li>Use the <strong>Group icon 👥</strong> to bring several characters into one chat. Choose whether they take turns, answer when mentioned, or let a narrator pick who speaks, and how many replies follow each of your messages. Press <strong>Stop</strong> to interrupt, <strong>/char Name message</strong> to address one character, and <strong>/ai2ai topic</strong> to let them discuss something on their own.</li>
+            <li>Plugins installed in Settings can add their own commands and tools. Type <strong>/plugin</strong> to list them. Plugins run sandboxed and only see your chat if you allowed it.</li>
         </ul>`
     },
     {
@@ -61,7 +64,15 @@ const helpContent = [
     },
     {
       title: '📂 File Library',
-      content: 'This is your personal, encrypted file cabinet. Upload documents, images, audio, or video files here. Once in the library, they become persistently available for the AI to access and analyze in other features like Chat and Live Conversation. You can <strong>archive files</strong> to hide them from the active view without deleting them.'
+      content: 'This is your personal, encrypted file cabinet. Upload documents, images, audio, or video files here. Once in the library, they become persistently available for the AI to access and analyze in other features like Chat and Live Conversation. Text documents are split into searchable chunks, so the Chat Bot can quote the right passage of even a very long file and show which file and chunk it came from. You can <strong>archive files</strong> to hide them from the active view without deleting them.'
+    },
+    {
+      title: '🗄️ Memory Manager',
+      content: 'Everything the Chat Bot remembers long-term (from <code>/memory</code> and automatic summaries) lives here. Search memories, filter them by tag or persona, fix a memory\'s text (it is re-embedded so recall stays accurate), or delete wrong memories one at a time or in bulk.'
+    },
+    {
+      title: '📊 Usage',
+      content: 'Every model call is logged, encrypted, with its feature, model, tokens and latency. See totals per day and per feature with an estimated cost from an editable price table, and set a monthly budget that either warns you or blocks new requests once it is reached.'
     },
     {
         title: '⚙️ Settings & Personas',
@@ -74,7 +85,7 @@ const helpContent = [
     },
     {
         title: '🔐 Security',
-        content: 'Your privacy is paramount. All your data—files, chat history, and personas—is <strong>encrypted using the Web Crypto API</strong> with a password you create. This data is stored exclusively in your browser\'s IndexedDB and is never sent to any server. If you forget your password, your data cannot be recovered.'
+        content: 'Your privacy is paramount. All your data—files, chat history, and personas—is <strong>encrypted using the Web Crypto API</strong> with a password you create. This data is stored exclusively in your browser\'s IndexedDB and is never sent to any server. Your data is encrypted with a random key that your password unlocks, so changing the password in Settings is instant; you can also replace the key there, which re-encrypts all your data. If you create a recovery key (at setup or in Settings), you can use it to set a new password when you forget yours; without one, a forgotten password means your data cannot be recovered. The app locks itself after a period of inactivity (configurable in Settings), or right away with the <strong>Lock</strong> button in the sidebar. If something seems to be missing, run <strong>Check Integrity</strong> in Settings to find records that are damaged or can\'t be decrypted.'
     }
 ];
 
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { lockService } from '../services/lockService.ts';
+import { LockIcon } from './Icons.tsx';
+
+// Covers the whole app while it is locked. The app stays mounted underneath, so unlocking returns to
+// exactly where the user was.
+const LockScreen: React.FC = () => {
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+        const success = await lockService.unlock(password);
+        if (!success) {
+            setError('Incorrect password. Please try again.');
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900" role="dialog" aria-modal="true" aria-labelledby="lock-screen-title">
+            <form onSubmit={handleUnlock} className="w-full max-w-md p-8 bg-slate-950 rounded-2xl shadow-lg border border-slate-800 space-y-6">
+                <div className="w-12 h-12 mx-auto text-slate-400"><LockIcon /></div>
+                <h1 id="lock-screen-title" className="text-3xl font-bold text-center text-white">Locked</h1>
+                <p className="text-slate-400 text-center">Enter your password to continue where you left off.</p>
+                <div>
+                    <label htmlFor="password-unlock" className="sr-only">Password</label>
+                    <input
+                        id="password-unlock"
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Password"
+                        required
+                        autoFocus
+                        autoComplete="current-password"
+                        className="w-full p-3 bg-slate-800 border border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                </div>
+                <button type="submit" disabled={isLoading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors">
+                    {isLoading ? 'Unlocking...' : 'Unlock'}
+                </button>
+                {error && <p className="text-center text-red-400">{error}</p>}
+            </form>
+        </div>
+    );
+};
+
+export default LockScreen;
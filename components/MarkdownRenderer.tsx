@@ -1,45 +1,110 @@
-
-import React from 'react';
+import React, { useState, useMemo } from 'react';
+import { parseMarkdown, type BlockNode, type InlineNode } from '../utils/markdown.ts';
+import { highlightCode, type TokenKind } from '../utils/syntaxHighlight.ts';
+import { CopyIcon } from './Icons.tsx';
 
 interface MarkdownRendererProps {
   content: string;
 }
 
-const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
-  // Process the content string into a safe HTML string
-  let html = content
-    // Escape HTML to prevent XSS, except for our own tags
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;")
-    // Convert markdown bold to <strong> tags
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    // Split into lines to process paragraphs and lists
-    .split('\n')
-    .map(line => {
-      // Convert markdown list items to <li> tags
-      if (line.trim().startsWith('* ')) {
-        // Return just the list item content, we'll wrap with <ul> later
-        return `<li>${line.trim().substring(2)}</li>`;
-      }
-      // Wrap non-list lines in <p> tags if they have content
-      return line.trim() ? `<p>${line}</p>` : '';
-    })
-    .join('');
-
-  // Group consecutive list items into a single <ul>
-  html = html.replace(/(<li>.*?<\/li>)+/g, (match) => `<ul class="list-disc list-inside my-2 space-y-1">${match}</ul>`);
-
-  // Remove empty paragraphs that might result from list processing or blank lines
-  html = html.replace(/<p><\/p>/g, '');
+const tokenClasses: Record<TokenKind, string> = {
+  comment: 'text-slate-500 italic',
+  string: 'text-green-400',
+  number: 'text-amber-300',
+  keyword: 'text-purple-400',
+  literal: 'text-sky-400',
+};
+
+const headingClasses = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm'];
+
+const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, code }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  return (
+    <div className="my-3 rounded-lg overflow-hidden border border-slate-700 bg-slate-950">
+      <div className="flex items-center justify-between px-3 py-1 bg-slate-800 text-xs text-slate-400">
+        <span>{language || 'text'}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 hover:text-white transition-colors" title="Copy code">
+          <CopyIcon /> {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm leading-relaxed"><code>
+        {tokens.map((token, i) => token.kind ? <span key={i} className={tokenClasses[token.kind]}>{token.text}</span> : token.text)}
+      </code></pre>
+    </div>
+  );
+};
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return node.text;
+    case 'strong': return <strong key={i} className="font-semibold text-slate-100">{renderInline(node.children)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'del': return <del key={i}>{renderInline(node.children)}</del>;
+    case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-800 text-pink-300 text-[0.9em] break-words">{node.text}</code>;
+    case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-400 hover:underline break-words">{renderInline(node.children)}</a>;
+    case 'break': return <br key={i} />;
+  }
+});
 
+const alignClasses = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const renderBlocks = (blocks: BlockNode[]): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={i} className="my-2 first:mt-0 last:mb-0">{renderInline(block.children)}</p>;
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+      return <Tag key={i} className={`${headingClasses[block.level - 1]} font-bold text-slate-100 mt-4 mb-2 first:mt-0`}>{renderInline(block.children)}</Tag>;
+    }
+    case 'code':
+      return <CodeBlock key={i} language={block.language} code={block.code} />;
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j} className="pl-1 [&>p]:my-0">{renderBlocks(item)}</li>);
+      return block.ordered
+        ? <ol key={i} start={block.start} className="list-decimal pl-6 my-2 space-y-1">{items}</ol>
+        : <ul key={i} className="list-disc pl-6 my-2 space-y-1">{items}</ul>;
+    }
+    case 'blockquote':
+      return <blockquote key={i} className="border-l-4 border-slate-600 pl-4 my-2 text-slate-400">{renderBlocks(block.children)}</blockquote>;
+    case 'table':
+      return (
+        <div key={i} className="my-3 overflow-x-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead>
+              <tr>{block.header.map((cell, j) => <th key={j} className={`border border-slate-700 bg-slate-800 px-3 py-1 font-semibold ${alignClasses[block.align[j] || 'left']}`}>{renderInline(cell)}</th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>{row.map((cell, j) => <td key={j} className={`border border-slate-700 px-3 py-1 ${alignClasses[block.align[j] || 'left']}`}>{renderInline(cell)}</td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={i} className="my-4 border-slate-700" />;
+  }
+});
+
+// Renders Markdown as React elements (never as raw HTML), so model output can't inject markup or script.
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
   return (
-    <div 
-      className="prose prose-invert max-w-none text-slate-300" 
-      dangerouslySetInnerHTML={{ __html: html }} 
-    />
+    <div className="max-w-none text-slate-300 break-words">
+      {renderBlocks(blocks)}
+    </div>
   );
 };
 
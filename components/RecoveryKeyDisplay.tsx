@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { CopyIcon, DownloadIcon } from './Icons.tsx';
+
+// Shows a freshly created recovery key with ways to keep it. The key is never stored, so this is the
+// only time it can be seen.
+const RecoveryKeyDisplay: React.FC<{ recoveryKey: string }> = ({ recoveryKey }) => {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(recoveryKey);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch (error) {
+            console.error("Failed to copy the recovery key:", error);
+        }
+    };
+
+    const handleDownload = () => {
+        const text = `Gemini AI Studio recovery key\n\n${recoveryKey}\n\nUse it on the unlock screen ("Forgot Password?") to set a new password without losing your data. Anyone with this key and access to this browser can read your data.\n`;
+        const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'gemini-recovery-key.txt';
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-2">
+            <p className="p-4 bg-slate-800 border border-slate-700 rounded-lg font-mono text-lg text-center text-white tracking-wider break-all select-all">{recoveryKey}</p>
+            <div className="flex gap-2 text-sm">
+                <button type="button" onClick={handleCopy} className="flex-1 flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg">
+                    <CopyIcon /> {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button type="button" onClick={handleDownload} className="flex-1 flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg">
+                    <DownloadIcon /> Download
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RecoveryKeyDisplay;
@@ -0,0 +1,38 @@
+import React, { useState, useEffect } from 'react';
+import { requestQueue, REQUEST_QUEUE_EVENT, type RequestQueueStatus } from '../services/requestQueue.ts';
+
+// Shown above every feature while requests wait for a retry or for the API quota to recover.
+const RequestQueueBanner: React.FC = () => {
+  const [status, setStatus] = useState<RequestQueueStatus>(requestQueue.getStatus);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const handleChange = (event: Event) => setStatus((event as CustomEvent<RequestQueueStatus>).detail);
+    window.addEventListener(REQUEST_QUEUE_EVENT, handleChange);
+    return () => window.removeEventListener(REQUEST_QUEUE_EVENT, handleChange);
+  }, []);
+
+  // Ticks the countdown only while something is waiting.
+  useEffect(() => {
+    if (status.waiting === 0) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status.waiting]);
+
+  if (status.waiting === 0) return null;
+
+  const seconds = status.resumeAt ? Math.max(0, Math.ceil((status.resumeAt - now) / 1000)) : 0;
+  const requests = status.waiting === 1 ? '1 request' : `${status.waiting} requests`;
+  const reason = status.code === 'REQ_429'
+    ? 'The API rate limit was reached'
+    : `A request failed${status.code ? ` (${status.code})` : ''}`;
+
+  return (
+    <div className="flex-shrink-0 px-4 py-2 bg-amber-500/10 border-b border-amber-500/40 text-sm text-amber-200" role="status">
+      {reason}. Retrying {requests} in {seconds}s{status.attempt > 0 && ` (attempt ${status.attempt + 1})`}...
+    </div>
+  );
+};
+
+export default RequestQueueBanner;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import type { PendingToolApproval } from '../hooks/useToolApprovals.ts';
+import { TOOL_PERMISSION_LABELS, getToolPermission } from '../services/tools/index.ts';
+
+interface ToolApprovalCardProps {
+  approval: PendingToolApproval;
+  onResolve: (id: string, args: Record<string, unknown> | null) => void;
+}
+
+// Shown inline for a tool set to "Ask first". The arguments can be edited as JSON before approving.
+const ToolApprovalCard: React.FC<ToolApprovalCardProps> = ({ approval, onResolve }) => {
+  const [argsText, setArgsText] = useState(() => JSON.stringify(approval.args, null, 2));
+  const [error, setError] = useState<string | null>(null);
+  const permission = getToolPermission(approval.toolName);
+
+  const handleApprove = () => {
+    let args: unknown;
+    try {
+      args = JSON.parse(argsText);
+    } catch {
+      setError('The arguments are not valid JSON.');
+      return;
+    }
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      setError('The arguments must be a JSON object.');
+      return;
+    }
+    onResolve(approval.id, args as Record<string, unknown>);
+  };
+
+  return (
+    <div className="my-2 p-3 rounded-lg border border-amber-500/50 bg-amber-500/10 text-sm">
+      <p className="font-semibold text-amber-200">🔧 The AI wants to use {approval.toolName}</p>
+      {permission && <p className="text-xs text-slate-400 mb-2">{TOOL_PERMISSION_LABELS[permission]}</p>}
+      <textarea
+        value={argsText}
+        onChange={e => { setArgsText(e.target.value); setError(null); }}
+        rows={Math.min(10, argsText.split('\n').length)}
+        className="w-full p-2 bg-slate-900 border border-slate-700 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        aria-label="Tool arguments"
+      />
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      <div className="flex justify-end gap-2 mt-2">
+        <button onClick={() => onResolve(approval.id, null)} className="bg-slate-700 hover:bg-slate-600 text-white py-1 px-3 rounded-lg">Deny</button>
+        <button onClick={handleApprove} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-3 rounded-lg">Approve</button>
+      </div>
+    </div>
+  );
+};
+
+export default ToolApprovalCard;
@@ -0,0 +1,29 @@
+import React, { useState, useEffect } from 'react';
+import { usageService, USAGE_EVENT, type BudgetStatus } from '../services/usageService.ts';
+import { navigateToFeature } from '../utils/errorUtils.ts';
+
+// Shown above every feature once this month's estimated cost reaches the budget.
+const UsageBudgetBanner: React.FC = () => {
+  const [status, setStatus] = useState<BudgetStatus | null>(() => usageService.getBudgetStatus());
+
+  useEffect(() => {
+    const handleChange = () => setStatus(usageService.getBudgetStatus());
+    window.addEventListener(USAGE_EVENT, handleChange);
+    return () => window.removeEventListener(USAGE_EVENT, handleChange);
+  }, []);
+
+  if (!status?.exceeded) return null;
+
+  const blocked = status.action === 'block';
+  return (
+    <div className={`flex-shrink-0 px-4 py-2 border-b text-sm flex items-center justify-between gap-4 ${blocked ? 'bg-red-500/10 border-red-500/40 text-red-200' : 'bg-amber-500/10 border-amber-500/40 text-amber-200'}`} role="status">
+      <span>
+        This month's estimated cost is ${status.spent.toFixed(2)}, over the ${status.limit.toFixed(2)} budget.
+        {blocked ? ' New requests are blocked.' : ''}
+      </span>
+      <button onClick={() => navigateToFeature('usage')} className="underline hover:no-underline flex-shrink-0">View Usage</button>
+    </div>
+  );
+};
+
+export default UsageBudgetBanner;
@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { vaultService, VAULT_MIGRATION_EVENT, type VaultMigrationStatus } from '../services/vaultService.ts';
+import { cryptoService } from '../services/cryptoService.ts';
+
+// Covers the app while a key replacement re-encrypts the vault, and stays up if it stopped short so
+// the user can retry.
+const VaultMigrationOverlay: React.FC = () => {
+  const [status, setStatus] = useState<VaultMigrationStatus>(vaultService.getMigrationStatus);
+
+  useEffect(() => {
+    const handleChange = (event: Event) => setStatus((event as CustomEvent<VaultMigrationStatus>).detail);
+    window.addEventListener(VAULT_MIGRATION_EVENT, handleChange);
+    return () => window.removeEventListener(VAULT_MIGRATION_EVENT, handleChange);
+  }, []);
+
+  const stopped = !status.running && status.error && cryptoService.hasPendingKeyReplacement();
+  if (!status.running && !stopped) return null;
+
+  const percent = status.total > 0 ? Math.round((status.done / status.total) * 100) : 0;
+
+  const handleRetry = () => {
+    vaultService.resumeKeyReplacement().catch(error => console.error("Re-encryption failed again:", error));
+  };
+
+  const handleAbandon = () => {
+    if (window.confirm(`Finish replacing the keys without the ${status.failed} records that could not be re-encrypted? They will no longer be readable.`)) {
+      vaultService.abandonUnreadableRecords();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="vault-migration-title">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-xl w-full max-w-md p-6 space-y-4">
+        <h2 id="vault-migration-title" className="text-xl font-bold text-white">{stopped ? 'Key replacement interrupted' : 'Replacing encryption keys'}</h2>
+        {stopped ? (
+          <>
+            <p className="text-sm text-slate-400">{status.error} Records not yet re-encrypted stay readable until you finish.</p>
+            <div className="flex gap-2">
+              <button onClick={handleRetry} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">Retry</button>
+              {status.failed > 0 && (
+                <button onClick={handleAbandon} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">Finish Anyway</button>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-slate-400">Re-encrypting your data with new keys. If you close the app, this continues the next time you unlock it.</p>
+            <div className="h-2 rounded-full overflow-hidden bg-slate-800" role="progressbar" aria-valuemin={0} aria-valuemax={status.total} aria-valuenow={status.done}>
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-xs text-slate-500">{status.done.toLocaleString()} of {status.total.toLocaleString()} records</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultMigrationOverlay;
@@ -8,7 +8,8 @@ import Spinner from '../components/Spinner.tsx';
 import { dbService, StoredFile } from '../services/dbService.ts';
 import { SaveIcon } from '../components/Icons.tsx';
 import ErrorDisplay from '../components/ErrorDisplay.tsx';
-import { parseError, FormattedError } from '../utils/errorUtils.ts';
+import { parseError, isAbortError, FormattedError } from '../utils/errorUtils.ts';
+import useAbortableRequest from '../hooks/useAbortableRequest.ts';
 
 interface AudioTranscriptionProps {
     documents: StoredFile[];
@@ -19,6 +20,7 @@ const AudioTranscription: React.FC<AudioTranscriptionProps> = ({ documents, setD
     const [file, setFile] = useState<File | null>(null);
     const [result, setResult] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const { start: startRequest, stop: stopRequest } = useAbortableRequest();
     const [error, setError] = useState<FormattedError | null>(null);
     const audioRef = React.useRef<HTMLAudioElement>(null);
 
@@ -44,9 +46,10 @@ const AudioTranscription: React.FC<AudioTranscriptionProps> = ({ documents, setD
         setResult('');
         try {
             const audioBase64 = await fileToBase64(file);
-            const response = await GeminiService.transcribeAudio(audioBase64, file.type);
-            setResult(response.text);
+            const transcript = await GeminiService.transcribeAudio(audioBase64, file.type, startRequest());
+            setResult(transcript);
         } catch (err: any) {
+            if (isAbortError(err)) return; // Stopped by the user
             console.error(err);
             setError(parseError(err));
         } finally {
@@ -115,11 +118,11 @@ const AudioTranscription: React.FC<AudioTranscriptionProps> = ({ documents, setD
                     )}
                     
                     <button
-                        onClick={handleTranscribe}
-                        disabled={!file || isLoading}
-                        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                        onClick={isLoading ? stopRequest : handleTranscribe}
+                        disabled={!isLoading && (!file)}
+                        className={`w-full ${isLoading ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors`}
                     >
-                        {isLoading ? 'Transcribing...' : 'Transcribe Audio'}
+                        {isLoading ? 'Stop' : 'Transcribe Audio'}
                     </button>
                 </div>
                 <div className="bg-slate-800/50 rounded-lg p-4 h-[60vh] overflow-y-auto flex flex-col">
@@ -1,24 +1,49 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { Chat, FunctionCall, Part, Content } from '@google/genai';
-import { GeminiService, cosineSimilarity } from '../services/geminiService.ts';
-import type { ChatMessage, Persona, Memory } from '../types.ts';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import type { FunctionCall, Part, Content } from '@google/genai';
+import { GeminiService } from '../services/geminiService.ts';
+import { memoryRetrievalService } from '../services/memoryRetrievalService.ts';
+import { documentRetrievalService } from '../services/documentRetrievalService.ts';
+import { worldInfoService } from '../services/worldInfoService.ts';
+import { pluginService } from '../services/pluginService.ts';
+import { CHAT_TOOLS, getToolDeclarations, runToolCall, toFunctionResponse, toToolCallRecord, type ToolResult } from '../services/tools/index.ts';
+import type { PluginHost } from '../services/pluginSandbox.ts';
+import { scanWorldInfo } from '../utils/worldInfo.ts';
+import type { ChatSession } from '../services/providers/types.ts';
+import type { ChatMessage, Persona, Conversation, ConversationMeta, DocumentCitation, GroupChatSettings, ToolCallRecord } from '../types.ts';
 import FeatureLayout from './common/FeatureLayout.tsx';
 import MarkdownRenderer from '../components/MarkdownRenderer.tsx';
-import { SendIcon, TrashIcon, SettingsIcon, PaperclipIcon, MicIcon, Volume2Icon, VolumeOffIcon, SparklesIcon, SaveIcon, UploadIcon, EditIcon } from '../components/Icons.tsx';
+import { SendIcon, TrashIcon, SettingsIcon, PaperclipIcon, MicIcon, Volume2Icon, VolumeOffIcon, SparklesIcon, SaveIcon, UploadIcon, EditIcon, UsersIcon, StopIcon, MessageSquareIcon } from '../components/Icons.tsx';
 import Spinner from '../components/Spinner.tsx';
 import Tooltip from '../components/Tooltip.tsx';
-import { dbService, StoredFile } from '../services/dbService.ts';
+import { dbService, StoredFile, toConversationMeta } from '../services/dbService.ts';
 import PersonaConfigModal from './common/PersonaConfigModal.tsx';
 import FileAccessModal from './common/FileAccessModal.tsx';
+import ConversationSidebar from './chat/ConversationSidebar.tsx';
+import GroupChatModal from './chat/GroupChatModal.tsx';
 import HelpModal from '../components/HelpModal.tsx';
+import ToolApprovalCard from '../components/ToolApprovalCard.tsx';
+import useToolApprovals from '../hooks/useToolApprovals.ts';
 // FIX: Rename `encode` to `base64Encode` on import to avoid name collisions.
 import { encode as base64Encode, fileToBase64, base64ToBlob } from '../utils/helpers.ts';
-import { parseError } from '../utils/errorUtils.ts';
+import { parseError, isAbortError } from '../utils/errorUtils.ts';
+import { estimateTokens, fitToBudget, sectionBudget, historyBudget, IMAGE_TOKENS, EMPTY_CONTEXT_USAGE, type ContextUsage } from '../utils/contextBudget.ts';
+import { contextBudgetService } from '../services/contextBudgetService.ts';
+import ContextMeter from '../components/ContextMeter.tsx';
+import { toGroupTurn, groupSystemNote, formatTranscript, pickNextSpeaker } from '../utils/groupChat.ts';
+import { MessageTree, createEmptyTree, buildTree, getActivePath, splitTree, getPathTo, getSiblings, addChild, appendMessages, updateMessage, selectBranch, rebaseTree } from '../utils/messageTree.ts';
 
 
-const HISTORY_SUMMARY_THRESHOLD = 15;
 const MESSAGES_TO_KEEP_AFTER_SUMMARY = 5;
+// A summary replaces everything but the kept messages with two, so fewer than this leaves nothing to gain.
+const MIN_MESSAGES_TO_SUMMARIZE = MESSAGES_TO_KEEP_AFTER_SUMMARY + 3;
+const DEFAULT_CONVERSATION_TITLE = 'New Chat';
+const AUTO_TITLE_LENGTH = 40;
+const MAX_TOOL_STEPS = 5; // Tool rounds per reply before the model must answer
+const MAX_DECLINED_STEPS = 2; // Rounds of declined calls after that before the reply is given up on
+
+// Read whenever a session is created, so plugin tools installed or enabled since then apply to the next session.
+const getChatTools = () => getToolDeclarations(CHAT_TOOLS, true);
 
 const createDefaultPersona = (): Persona => ({
   id: crypto.randomUUID(),
@@ -40,14 +65,49 @@ interface ChatBotProps {
 }
 
 interface SessionData {
+    title?: string;
     messages: ChatMessage[];
+    branches?: ChatMessage[];
     persona: Persona;
     accessibleFiles: string[];
+    summary?: string;
+    group?: GroupChatSettings;
+}
+
+interface NewConversationOptions {
+    personas?: Persona[];
+    persona?: Persona;
+    title?: string;
+    messages?: ChatMessage[];
+    branches?: ChatMessage[];
+    accessibleFiles?: string[];
+    summary?: string;
+    group?: GroupChatSettings;
 }
 
+// Maps chat messages to the provider's Content format, leaving out system notices injected for the UI.
+const toChatHistory = (messages: ChatMessage[]): Content[] => messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({
+        role: m.role,
+        parts: m.parts.map(p => ({ text: p.text }))
+    }));
+
+// Names an untitled conversation after the first thing the user said in it.
+const deriveTitle = (title: string, messages: ChatMessage[]): string => {
+    if (title !== DEFAULT_CONVERSATION_TITLE) return title;
+    const firstUserText = messages.find(m => m.role === 'user')?.parts[0]?.text.trim();
+    if (!firstUserText) return title;
+    return firstUserText.length > AUTO_TITLE_LENGTH ? `${firstUserText.substring(0, AUTO_TITLE_LENGTH)}...` : firstUserText;
+};
+
 const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
-    const [chat, setChat] = useState<Chat | null>(null);
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [chat, setChat] = useState<ChatSession | null>(null);
+    const [conversations, setConversations] = useState<ConversationMeta[]>([]);
+    const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Conversation drawer on small screens
+    const [tree, setTree] = useState<MessageTree>(createEmptyTree());
+    const messages = useMemo(() => getActivePath(tree), [tree]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isSummarizing, setIsSummarizing] = useState(false);
@@ -59,42 +119,39 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
     const [isTtsEnabled, setIsTtsEnabled] = useState(false);
     const [isListening, setIsListening] = useState(false);
     const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
-    const [ai2aiLoop, setAi2aiLoop] = useState<boolean>(false);
-    const [ai2aiTopic, setAi2aiTopic] = useState<string>('');
+    const [isGroupModalOpen, setIsGroupModalOpen] = useState(false);
+    const [isGroupRunning, setIsGroupRunning] = useState(false);
+    const [speakingPersona, setSpeakingPersona] = useState<Persona | null>(null);
     const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
     const [editInput, setEditInput] = useState('');
+    const [contextUsage, setContextUsage] = useState<ContextUsage>(EMPTY_CONTEXT_USAGE);
 
     const recognitionRef = useRef<any>(null); // SpeechRecognition
     const messagesEndRef = useRef<HTMLDivElement | null>(null);
-    const loopTimeoutRef = useRef<any>(null);
+    const { pending: pendingApprovals, requestApproval, resolveApproval, declineAll: declinePendingApprovals } = useToolApprovals();
+    const stopGroupRef = useRef(false); // Set by Stop / conversation switches; checked between group turns
+    const abortRef = useRef<AbortController | null>(null); // Cancels the request currently running
+
+    const activeGroup = activeConversation?.group;
+    // Members whose personas still exist, in speaking order
+    const groupMembers = useMemo(
+        () => (activeGroup?.memberIds || []).map(id => personas.find(p => p.id === id)).filter((p): p is Persona => !!p),
+        [activeGroup, personas]
+    );
+    const isGroupChat = groupMembers.length > 0;
+    const isHydratingRef = useRef(false); // Skips the save triggered by loading a conversation into state
 
     // --- System Prompt & Context ---
 
-    const retrieveMemories = useCallback(async (query: string): Promise<string> => {
+    // One line per memory, best first.
+    const retrieveMemories = useCallback(async (query: string, personaId: string): Promise<string[]> => {
         try {
-            const allMemories = await dbService.getMemories();
-            if (allMemories.length === 0) return '';
-
-            const queryEmbedding = await GeminiService.getEmbedding(query);
-            
-            // Client-side cosine similarity search
-            const scoredMemories = allMemories.map(m => ({
-                memory: m,
-                score: cosineSimilarity(queryEmbedding, m.embedding)
-            }));
-
-            // Filter by relevance (e.g. > 0.6) and take top 5
-            const relevant = scoredMemories
-                .filter(item => item.score > 0.5)
-                .sort((a, b) => b.score - a.score)
-                .slice(0, 5)
+            // Scoped to the speaking persona (plus global memories), weighted by recency and importance
+            return (await memoryRetrievalService.retrieve(query, personaId))
                 .map(item => `- ${item.memory.content} (Score: ${item.score.toFixed(2)})`);
-            
-            return relevant.length > 0 ? `\n\n[RECALLED LONG-TERM MEMORIES]:\n${relevant.join('\n')}` : '';
-
         } catch (e) {
             console.error("RAG retrieval failed:", e);
-            return '';
+            return [];
         }
     }, []);
     
@@ -108,7 +165,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
         if (p.scenario) prompt += `\nThe current scenario is: ${p.scenario}.`;
         
         if (files.length > 0) {
-            prompt += `\n\n[SYSTEM NOTICE]: You have been granted access to the following files from the user's library. You can analyze them when asked:\n- ${files.join('\n- ')}`;
+            prompt += `\n\n[SYSTEM NOTICE]: You have been granted access to the following files from the user's library. Relevant passages are attached to each message with their source; cite the file and chunk when you use them:\n- ${files.join('\n- ')}`;
         }
 
         if (memories) {
@@ -118,70 +175,145 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
         return prompt.trim();
     }, []);
     
-    const initializeChatState = useCallback(async () => {
-        try {
-            const [history, savedPersonas, savedFileAccess] = await Promise.all([
-                dbService.getChatHistory(),
-                dbService.getPersonas(),
-                dbService.getSetting<string[]>('accessibleFiles')
-            ]);
-            
-            setPersonas(savedPersonas);
+    const loadPersonas = useCallback(async (): Promise<Persona[]> => {
+        let savedPersonas = await dbService.getPersonas();
+        // Ensure there is at least one persona saved
+        if (savedPersonas.length === 0) {
+            savedPersonas = [createDefaultPersona()];
+            await dbService.savePersonas(savedPersonas);
+        }
+        setPersonas(savedPersonas);
+        return savedPersonas;
+    }, []);
 
-            let currentPersona = savedPersonas.find(p => p.isActive);
-            if (!currentPersona) {
-                currentPersona = savedPersonas.length > 0 ? { ...savedPersonas[0], isActive: true } : createDefaultPersona();
-                // Ensure there is at least one persona saved
-                if (savedPersonas.length === 0) await dbService.savePersonas([currentPersona]);
-            }
+    const stopGenerating = () => {
+        stopGroupRef.current = true;
+        abortRef.current?.abort();
+        declinePendingApprovals();
+    };
 
-            setActivePersona(currentPersona);
-            setMessages(history);
-            setAccessibleFiles(savedFileAccess || []);
-            
-        } catch (error) {
-            console.error("Failed to load chat history or persona:", error);
-            setActivePersona(createDefaultPersona());
+    // Replaces the controller Stop aborts; each request the user waits on starts with this.
+    const startRequest = (): AbortSignal => {
+        abortRef.current = new AbortController();
+        return abortRef.current.signal;
+    };
+
+    const openConversation = useCallback(async (id: string, availablePersonas: Persona[]) => {
+        const conversation = await dbService.getConversation(id);
+        if (!conversation) return;
+        stopGenerating();
+        isHydratingRef.current = true;
+        setActiveConversation(conversation);
+        setTree(buildTree(conversation.messages, conversation.branches));
+        setAccessibleFiles(conversation.accessibleFiles || []);
+        setActivePersona(
+            availablePersonas.find(p => p.id === conversation.personaId)
+            || availablePersonas.find(p => p.isActive)
+            || availablePersonas[0]
+            || createDefaultPersona()
+        );
+    }, []);
+
+    const createConversation = useCallback(async (options: NewConversationOptions = {}) => {
+        const availablePersonas = options.personas || personas;
+        const persona = options.persona || availablePersonas.find(p => p.isActive) || availablePersonas[0] || createDefaultPersona();
+        const newTree = buildTree(options.messages || [], options.branches);
+        const { messages, branches } = splitTree(newTree);
+        const now = Date.now();
+        const conversation: Conversation = {
+            id: crypto.randomUUID(),
+            title: options.title || DEFAULT_CONVERSATION_TITLE,
+            personaId: persona.id,
+            isArchived: false,
+            createdAt: now,
+            updatedAt: now,
+            messageCount: messages.length,
+            messages,
+            branches,
+            accessibleFiles: options.accessibleFiles || [],
+            summary: options.summary,
+            group: options.group,
+        };
+        await dbService.saveConversation(conversation);
+        setConversations(prev => [toConversationMeta(conversation), ...prev]);
+        stopGenerating();
+        isHydratingRef.current = true;
+        setActiveConversation(conversation);
+        setTree(newTree);
+        setAccessibleFiles(conversation.accessibleFiles);
+        setActivePersona(persona);
+    }, [personas]);
+
+    // Opens the most recently used conversation, or starts a fresh one if none are left.
+    const openLatestConversation = useCallback(async (index: ConversationMeta[], availablePersonas: Persona[]) => {
+        const latest = index.filter(c => !c.isArchived).sort((a, b) => b.updatedAt - a.updatedAt)[0];
+        if (latest) {
+            await openConversation(latest.id, availablePersonas);
+        } else {
+            await createConversation({ personas: availablePersonas });
         }
+    }, [openConversation, createConversation]);
+
+    useEffect(() => {
+        const initializeChatState = async () => {
+            try {
+                const [savedPersonas, index] = await Promise.all([loadPersonas(), dbService.getConversations()]);
+                setConversations(index);
+                await openLatestConversation(index, savedPersonas);
+            } catch (error) {
+                console.error("Failed to load conversations or personas:", error);
+                setActivePersona(createDefaultPersona());
+            }
+        };
+        initializeChatState(); // Initial load; switching conversations afterwards is driven by the sidebar.
     }, []);
 
     useEffect(() => {
-        initializeChatState(); // Initial load
-        window.addEventListener('personasUpdated', initializeChatState);
-        return () => { window.removeEventListener('personasUpdated', initializeChatState); };
-    }, [initializeChatState]);
+        const refreshPersonas = async () => {
+            const savedPersonas = await loadPersonas();
+            setActivePersona(prev => savedPersonas.find(p => p.id === prev.id) || savedPersonas.find(p => p.isActive) || savedPersonas[0]);
+        };
+        window.addEventListener('personasUpdated', refreshPersonas);
+        return () => { window.removeEventListener('personasUpdated', refreshPersonas); };
+    }, [loadPersonas]);
+
+    const activeLeafId = messages[messages.length - 1]?.id;
 
     // Re-initialize Chat object when dependencies change
     useEffect(() => {
-        if (activePersona) {
+        if (activePersona && !isLoading) {
             // We do NOT include memories in the *static* system prompt here, 
             // because memories are dynamic per turn. We will inject them via 'system' messages or modified prompts.
             // However, the `createChat` config needs a base system prompt.
             const baseSystemPrompt = constructSystemPrompt(activePersona, accessibleFiles);
             
-            // Map our chat messages to GoogleGenAI Content format
-            // Filter out system messages that we inject for UI purposes, unless we want the model to see them
-            const chatHistory: Content[] = messages
-                .filter(m => m.role !== 'system') 
-                .map(m => ({ 
-                    role: m.role, 
-                    parts: m.parts.map(p => ({ text: p.text })) 
-                }));
-            
-            const newChat = GeminiService.createChatWithHistory(chatHistory, baseSystemPrompt);
+            const newChat = GeminiService.createChatWithHistory(toChatHistory(messages), baseSystemPrompt, getChatTools());
             setChat(newChat);
         }
-    }, [activePersona, accessibleFiles, messages.length, constructSystemPrompt]); // Only re-create if message count changes to avoid thrashing on typing
+        // Rebuilt from the active path whenever it ends somewhere new (send, swipe, fork), once a streamed
+        // reply has finished, and after an in-place edit. Not on every keystroke or chunk.
+    }, [activePersona, accessibleFiles, activeLeafId, isLoading, editingMessageId, constructSystemPrompt, activeConversation?.id]);
     
+    // Persist the active conversation whenever its content changes.
     useEffect(() => {
-        if (messages.length > 0) {
-            dbService.saveChatHistory(messages).catch(console.error);
+        if (!activeConversation) return;
+        if (isHydratingRef.current) {
+            isHydratingRef.current = false;
+            return;
         }
-    }, [messages]);
-
-    useEffect(() => {
-        dbService.saveSetting('accessibleFiles', accessibleFiles).catch(console.error);
-    }, [accessibleFiles]);
+        const updated: Conversation = {
+            ...activeConversation,
+            ...splitTree(tree),
+            title: deriveTitle(activeConversation.title, messages),
+            personaId: activePersona.id,
+            accessibleFiles,
+            messageCount: messages.length,
+            updatedAt: Date.now(),
+        };
+        if (updated.title !== activeConversation.title) setActiveConversation(updated);
+        setConversations(prev => [toConversationMeta(updated), ...prev.filter(c => c.id !== updated.id)]);
+        dbService.saveConversation(updated).catch(console.error);
+    }, [tree, accessibleFiles, activePersona.id]);
 
     // TTS Logic
     useEffect(() => {
@@ -189,13 +321,14 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
         if (isTtsEnabled && lastMessage?.role === 'model' && lastMessage.parts[0].text && !isLoading) {
             window.speechSynthesis.cancel();
             const utterance = new SpeechSynthesisUtterance(lastMessage.parts[0].text);
-            if (activePersona.voice) {
-                const voice = window.speechSynthesis.getVoices().find(v => v.name === activePersona.voice);
+            const speakerVoice = personas.find(p => p.id === lastMessage.speakerId)?.voice || activePersona.voice;
+            if (speakerVoice) {
+                const voice = window.speechSynthesis.getVoices().find(v => v.name === speakerVoice);
                 if (voice) { utterance.voice = voice; }
             }
             window.speechSynthesis.speak(utterance);
         }
-    }, [messages, isTtsEnabled, activePersona.voice, isLoading]);
+    }, [messages, isTtsEnabled, activePersona.voice, personas, isLoading]);
     
     const handleSavePersona = async (newPersona: Persona) => {
         const allPersonas = await dbService.getPersonas();
@@ -212,23 +345,57 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
 
     // --- Core Interaction Logic ---
 
-    const handleFunctionCalls = async (functionCalls: FunctionCall[]) => {
-        for (const call of functionCalls) {
-            if (call.name === 'generateImage' && call.args) {
-                setIsLoading(true);
-                try {
-                    const fullPrompt = call.args.style ? `${call.args.prompt}, in the style of ${call.args.style}` : call.args.prompt;
-                    const images = await GeminiService.generateImage(fullPrompt, "1:1");
-                    if (images.length > 0) {
-                        const imageUrl = `data:image/jpeg;base64,${images[0]}`;
-                        setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'model', parts: [{ text: '' }], imageUrl, timestamp: Date.now() }]);
-                    }
-                } catch (error) {
-                    console.error("Image generation tool failed:", error);
-                    setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'model', parts: [{ text: "Sorry, I couldn't generate the image right now." }], timestamp: Date.now() }]);
-                } finally { setIsLoading(false); }
+    const appendNotice = (text: string) => {
+        setTree(prev => appendMessages(prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text }], timestamp: Date.now() }));
+    };
+
+    // A plugin's window onto the open conversation. The sandbox checks the plugin's permissions before
+    // forwarding a request here.
+    const createPluginHost = (pluginName: string): PluginHost => ({
+        getConversation: () => messages.map(m => ({
+            role: m.role,
+            name: m.role === 'model' ? (personas.find(p => p.id === m.speakerId) || activePersona).role : m.role === 'user' ? 'User' : 'System',
+            text: m.parts[0].text,
+        })),
+        addMessage: (text: string) => appendNotice(`${pluginName}: ${text}`),
+    });
+
+    const runPlugin = async (pluginName: string, run: (host: PluginHost) => Promise<unknown>) => {
+        setIsLoading(true);
+        try {
+            const result = await run(createPluginHost(pluginName));
+            if (result !== null && result !== '') {
+                appendNotice(`${pluginName}: ${typeof result === 'string' ? result : '```json\n' + JSON.stringify(result, null, 2) + '\n```'}`);
             }
+        } catch (error) {
+            console.error("Plugin call failed:", error);
+            appendNotice(`Plugin Error: ${parseError(error).message}`);
+        } finally { setIsLoading(false); }
+    };
+
+    // Runs one tool call from the model through the tool registry. Images and web sources it produces are
+    // shown on the reply; only files shared with this chat are visible to it.
+    const executeToolCall = async (call: FunctionCall, replyId: string, persona: Persona, signal: AbortSignal): Promise<ToolResult> => {
+        const result = await runToolCall(call, CHAT_TOOLS, {
+            feature: 'chat',
+            requestApproval,
+            signal,
+            files: documents.filter(doc => !doc.isArchived && accessibleFiles.includes(doc.name)),
+            personaId: persona.id,
+            onDocumentSaved: newFile => {
+                setDocuments(prev => [...prev.filter(d => d.name !== newFile.name), newFile]);
+                setAccessibleFiles(prev => prev.includes(newFile.name) ? prev : [...prev, newFile.name]);
+            },
+            pluginHost: createPluginHost,
+        });
+        if (result.imageUrl || result.sources?.length) {
+            setTree(prev => updateMessage(prev, replyId, m => ({
+                ...m,
+                ...(result.imageUrl && { imageUrl: result.imageUrl }),
+                ...(result.sources?.length && { sources: [...(m.sources || []), ...result.sources.filter(s => s.type === 'web')] }),
+            })));
         }
+        return result;
     };
 
     const processCommand = async (cmdInput: string): Promise<boolean> => {
@@ -259,14 +426,14 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
                     tags: ['user-command'],
                     associatedPersonaId: activePersona.id
                 });
-                setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Saved to memory: "${args}"` }], timestamp: Date.now() }]);
+                setTree(prev => appendMessages(prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Saved to memory: "${args}"` }], timestamp: Date.now() }));
                 return true;
 
             case '/lore':
                 if (!args) { alert("Usage: /lore <text to add>"); return true; }
                 const updatedPersona = { ...activePersona, lore: (activePersona.lore || '') + '\n' + args };
                 await handleSavePersona(updatedPersona);
-                setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Added to ${activePersona.role}'s lore.` }], timestamp: Date.now() }]);
+                setTree(prev => appendMessages(prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Added to ${activePersona.role}'s lore.` }], timestamp: Date.now() }));
                 return true;
 
             case '/summarize':
@@ -305,89 +472,84 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
                     if (targetChar) {
                         setActivePersona(targetChar);
                         await dbService.savePersonas(personas.map(p => ({...p, isActive: p.id === targetChar.id})));
-                        setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Active character switched to ${targetChar.role}` }], timestamp: Date.now() }]);
+                        setTree(prev => appendMessages(prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Active character switched to ${targetChar.role}` }], timestamp: Date.now() }));
                     } else {
                         alert(`Character "${args}" not found.`);
                     }
                     return true;
                 }
-                const charName = args.substring(0, charNameEnd);
-                const charMsg = args.substring(charNameEnd + 1);
-                // We want to send a message TO a specific character, implies switching active context?
-                // Or "User says to Bob: ..."
-                // Let's treat it as: User says to <CharName>: <Msg>.
-                // This doesn't necessarily switch the *responding* bot unless we force it.
-                // For now, let's just handle it as text modification.
+                // "/char Bob Hello" is sent by handleSend, which makes Bob the one who answers.
                 return false; 
 
             case '/ai2ai':
                 if (!args) { alert("Usage: /ai2ai <topic>"); return true; }
-                setAi2aiTopic(args);
-                setAi2aiLoop(true);
-                // Trigger the loop start
-                setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Starting AI-to-AI loop on topic: "${args}"` }], timestamp: Date.now() }]);
-                setTimeout(() => handleSend(args, true), 500);
-                return true;
+                if (groupMembers.length < 2) { alert("Start a group chat with at least two characters first (the group button next to the input)."); return true; }
+                // The topic is posted as a user message, then the characters discuss it among themselves.
+                return false;
 
             case '/end':
-                setAi2aiLoop(false);
-                clearTimeout(loopTimeoutRef.current);
-                setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `AI-to-AI loop ended.` }], timestamp: Date.now() }]);
+                setActiveGroup(undefined);
+                setTree(prev => appendMessages(prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Group chat ended.` }], timestamp: Date.now() }));
                 return true;
 
             case '/plugin':
-                // Sandbox execution
-                try {
-                    // Restricted scope
-                    const safeEval = new Function('input', 'messages', 'activePersona', '"use strict"; ' + args);
-                    const result = safeEval(input, messages, activePersona);
-                    setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Plugin Output: ${result}` }], timestamp: Date.now() }]);
-                } catch (e: any) {
-                    setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'system', parts: [{ text: `Plugin Error: ${e.message}` }], timestamp: Date.now() }]);
-                }
+            case '/plugins':
+                const pluginCommands = pluginService.getPlugins()
+                    .filter(p => p.isEnabled)
+                    .flatMap(p => p.manifest.commands.map(c => `/${c.name} — ${c.description || 'No description'} (${p.manifest.name})`));
+                appendNotice(pluginCommands.length > 0 ? `Plugin commands:\n${pluginCommands.join('\n')}` : "No plugin commands are available. Install and enable plugins in Settings.");
                 return true;
 
             default:
-                return false;
+                // Commands registered by enabled plugins run in the plugin's sandbox.
+                const pluginCommand = pluginService.findCommand(command.substring(1));
+                if (!pluginCommand) return false;
+                await runPlugin(pluginCommand.plugin.manifest.name, host => pluginService.runCommand(pluginCommand.plugin, pluginCommand.command.name, args, host));
+                return true;
         }
     };
 
-    const handleSend = async (overrideInput?: string, isAutoLoop?: boolean) => {
+    const handleSend = async (overrideInput?: string) => {
         const textToSend = overrideInput || input;
         if (!textToSend.trim() || !chat || isLoading || isSummarizing) return;
 
         // Command processing
-        if (!isAutoLoop && await processCommand(textToSend)) {
+        if (await processCommand(textToSend)) {
             setInput('');
             return;
         }
 
         let finalPrompt = textToSend;
         let roleOverride: 'user' | 'model' = 'user';
+        let addressee: Persona | undefined; // Set by /char: that character answers instead of the usual one
 
         // Handle specific command-like inputs that pass through
         if (textToSend.toLowerCase().startsWith('/narrate')) {
              finalPrompt = `[Narrator Instruction]: ${textToSend.replace(/^\/narrate\s*/i, '') || "Continue the story."}`;
         }
-        else if (textToSend.toLowerCase().startsWith('/character')) {
+        else if (/^\/char(acter)?\s/i.test(textToSend)) {
              // /char Bob msg
              const parts = textToSend.split(' ');
              if (parts.length >= 3) {
                  finalPrompt = `[User to ${parts[1]}]: ${parts.slice(2).join(' ')}`;
+                 addressee = (isGroupChat ? groupMembers : personas).find(p => p.role.toLowerCase().startsWith(parts[1].toLowerCase()));
              }
         }
+        else if (textToSend.toLowerCase().startsWith('/ai2ai')) {
+             finalPrompt = `[Discussion topic]: ${textToSend.replace(/^\/ai2ai\s*/i, '')}. Discuss it among yourselves.`;
+        }
         else if (textToSend.toLowerCase().startsWith('/image') || textToSend.toLowerCase().startsWith('/imagine')) {
              const prompt = textToSend.replace(/^\/image\s*|^\/imagine\s*/i, '').trim();
              // Just trigger image generation tool manually or let model do it? 
              // Let's manually trigger to be sure.
              setIsLoading(true);
              try {
-                const images = await GeminiService.generateImage(prompt, "1:1");
+                const images = await GeminiService.generateImage(prompt, "1:1", undefined, startRequest());
                 if (images.length > 0) {
-                     setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'user', parts: [{text: textToSend}], timestamp: Date.now() }, { id: crypto.randomUUID(), role: 'model', parts: [{ text: '' }], imageUrl: `data:image/jpeg;base64,${images[0]}`, timestamp: Date.now() }]);
+                     setTree(prev => appendMessages(prev, { id: crypto.randomUUID(), role: 'user', parts: [{text: textToSend}], timestamp: Date.now() }, { id: crypto.randomUUID(), role: 'model', parts: [{ text: '' }], imageUrl: `data:image/jpeg;base64,${images[0]}`, timestamp: Date.now() }));
                 }
              } catch (e) {
-                 console.error(e);
+                 if (!isAbortError(e)) console.error(e);
              } finally {
                  setIsLoading(false);
                  setInput('');
@@ -397,103 +559,296 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
 
         // Add User Message
         const userMsg: ChatMessage = { id: crypto.randomUUID(), role: roleOverride, parts: [{ text: finalPrompt }], timestamp: Date.now() };
-        setMessages(prev => [...prev, userMsg]);
+        setTree(prev => appendMessages(prev, userMsg));
         setInput('');
+
+        if (isGroupChat) {
+            await runGroupTurns([...messages, userMsg], addressee);
+            return;
+        }
+
+        // Outside group chats, /char switches the active character and lets it answer.
+        let session = chat;
+        let responder = activePersona;
+        if (addressee && addressee.id !== activePersona.id) {
+            responder = addressee;
+            setActivePersona(addressee);
+            session = GeminiService.createChatWithHistory(toChatHistory(messages), constructSystemPrompt(addressee, accessibleFiles), getChatTools());
+        }
+
         setIsLoading(true);
+        try {
+            await streamReply(session, await buildMessageParts(finalPrompt, messages, responder), userMsg.id!);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Wraps the user's text with triggered World Info, recalled memories, matching passages from
+    // granted text files, and any granted image the user mentions by name. `history` is the
+    // conversation above the prompt, scanned for lorebook keys; `persona` is the one answering.
+    // Lore, memories and passages are fitted into their share of the context budget, in that order.
+    const buildMessageParts = async (prompt: string, history: ChatMessage[], persona: Persona): Promise<{ parts: Part[]; citations: DocumentCitation[] }> => {
+        const budget = contextBudgetService.getSettings();
+        const grantedFiles = documents.filter(doc => accessibleFiles.includes(doc.name));
+        const [memories, passages, systemTokens] = await Promise.all([
+            retrieveMemories(prompt, persona.id),
+            documentRetrievalService.retrieve(prompt, grantedFiles).catch(e => {
+                console.error("Document retrieval failed:", e);
+                return [];
+            }),
+            contextBudgetService.count(constructSystemPrompt(persona, accessibleFiles)),
+        ]);
+        const imagesToAttach = grantedFiles.filter(doc => doc.type.startsWith('image/') && prompt.toLowerCase().includes(doc.name.toLowerCase()));
+        let remaining = budget.totalTokens - systemTokens - estimateTokens(prompt) - imagesToAttach.length * IMAGE_TOKENS;
 
-        // Retrieve RAG Memories
-        const memories = await retrieveMemories(finalPrompt);
+        const books = [...worldInfoService.getLorebooks(), ...(persona.characterBook ? [persona.characterBook] : [])];
+        const worldInfo = scanWorldInfo(books, [...history.filter(m => m.role !== 'system').map(m => m.parts[0].text), prompt]);
+        const lore = fitToBudget([...worldInfo.before, ...worldInfo.after], e => estimateTokens(e.content), sectionBudget(budget, 'lore', remaining));
+        remaining -= lore.used;
+        // Memories and passages arrive best first, so the weakest are the ones left out.
+        const keptMemories = fitToBudget(memories, estimateTokens, sectionBudget(budget, 'memories', remaining)).kept;
+        remaining -= estimateTokens(keptMemories.join('\n'));
+        const keptPassages = fitToBudget(passages, ({ chunk }) => estimateTokens(chunk.content), sectionBudget(budget, 'files', remaining)).kept;
 
-        // Check for file context
         const messageParts: Part[] = [];
+        const addSection = (text: string) => {
+            messageParts.push({ text });
+            return text;
+        };
+        let loreText = '';
+        let memoryText = '';
+        let fileText = '';
+        // "Before character" entries frame everything else; "after character" entries sit right above the prompt
+        const loreBefore = lore.kept.filter(e => e.position === 'before_char');
+        if (loreBefore.length > 0) {
+            loreText += addSection(`[WORLD INFO]:\n${loreBefore.map(e => e.content).join('\n\n')}\n\n`);
+        }
         // Inject memories if found
-        if (memories) {
-            messageParts.push({ text: `[SYSTEM: The following memories are relevant to this message]:\n${memories}\n\n` });
-        }
-        messageParts.push({ text: finalPrompt });
-
-        const filesToAttach = documents.filter(doc => accessibleFiles.includes(doc.name) && finalPrompt.toLowerCase().includes(doc.name.toLowerCase()));
-        for (const file of filesToAttach) {
-            if (file.type.startsWith('image/')) {
-                messageParts.push({ inlineData: { mimeType: file.type, data: file.data } });
-            } else if (file.type.startsWith('text/')) {
-                try {
-                    const textContent = atob(file.data);
-                    messageParts.push({ text: `\n\n[Content of ${file.name}]:\n${textContent}` });
-                } catch (e) { console.error(`Failed to decode text file ${file.name}`, e); }
-            }
+        if (keptMemories.length > 0) {
+            memoryText = addSection(`[SYSTEM: The following memories are relevant to this message]:\n${keptMemories.join('\n')}\n\n`);
+        }
+
+        let citations: DocumentCitation[] = [];
+        if (keptPassages.length > 0) {
+            const excerpts = keptPassages.map(({ chunk }) => `[Source: ${chunk.fileName}, chunk ${chunk.index + 1}/${chunk.total}]\n${chunk.content}`);
+            fileText = addSection(`[SYSTEM: Passages from the user's files that may answer this message. Cite them as (file name, chunk n) when you use them.]:\n${excerpts.join('\n\n')}\n\n`);
+            citations = keptPassages.map(({ chunk, score }) => ({ fileName: chunk.fileName, index: chunk.index, total: chunk.total, score }));
+        }
+        const loreAfter = lore.kept.filter(e => e.position === 'after_char');
+        if (loreAfter.length > 0) {
+            loreText += addSection(`[WORLD INFO]:\n${loreAfter.map(e => e.content).join('\n\n')}\n\n`);
         }
+        messageParts.push({ text: prompt });
+
+        for (const file of imagesToAttach) {
+            messageParts.push({ inlineData: { mimeType: file.type, data: file.data } });
+        }
+
+        // The meter shows exact counts; sending doesn't wait for them.
+        Promise.all([loreText, memoryText, fileText].map(text => contextBudgetService.count(text)))
+            .then(([loreTokens, memoryTokens, fileTokens]) => setContextUsage(prev => ({
+                ...prev,
+                system: systemTokens,
+                lore: loreTokens,
+                memories: memoryTokens,
+                files: fileTokens + imagesToAttach.length * IMAGE_TOKENS,
+            })))
+            .catch(e => console.error("Failed to count context tokens:", e));
+        return { parts: messageParts, citations };
+    };
 
+    // Streams the model's answer into a new child of `parentId`, which becomes the active reply.
+    // Tool calls are executed and their results sent back so the model can continue, for up to
+    // MAX_TOOL_STEPS rounds; later calls are declined, but still answered, since the session's history
+    // must not end on calls without a response. Resolves with the finished reply, or null if the
+    // request failed or the user stopped it; a stopped reply keeps what was streamed so far and is
+    // marked as truncated.
+    const streamReply = async (session: ChatSession, { parts, citations }: { parts: Part[]; citations: DocumentCitation[] }, parentId: string, speakerId?: string): Promise<ChatMessage | null> => {
+        const persona = personas.find(p => p.id === speakerId) || activePersona;
+        const signal = startRequest();
+        let response: ChatMessage | null = null;
+        let text = '';
+        const toolCalls: ToolCallRecord[] = [];
         try {
-            const result = await chat.sendMessageStream({ message: messageParts });
-            let text = '';
-            let accumulatedFunctionCalls: FunctionCall[] = [];
-            
-            const responseId = crypto.randomUUID();
-            setMessages(prev => [...prev, { id: responseId, role: 'model', parts: [{ text: '' }], timestamp: Date.now() }]);
-
-            for await (const chunk of result) {
-                text += chunk.text;
-                if (chunk.functionCalls) accumulatedFunctionCalls.push(...chunk.functionCalls);
-                
-                setMessages(prev => prev.map(m => m.id === responseId ? { ...m, parts: [{ text }] } : m));
-            }
+            let message: Part[] = parts;
+            for (let step = 0; ; step++) {
+                const result = await session.sendMessageStream({ message, signal });
+                if (!response) {
+                    response = { id: crypto.randomUUID(), role: 'model', parts: [{ text: '' }], timestamp: Date.now(), ...(citations.length > 0 && { citations }), ...(speakerId && { speakerId }) };
+                    setTree(prev => addChild(prev, parentId, response!));
+                }
+                const responseId = response.id!;
+                const functionCalls: FunctionCall[] = [];
+                const textBeforeStep = text;
+                for await (const chunk of result) {
+                    // Text written after a tool round starts a new paragraph.
+                    text = textBeforeStep && chunk.text && text === textBeforeStep ? `${text}\n\n${chunk.text}` : text + chunk.text;
+                    if (chunk.functionCalls) functionCalls.push(...chunk.functionCalls);
+                    setTree(prev => updateMessage(prev, responseId, m => ({ ...m, parts: [{ text }] })));
+                }
+                if (functionCalls.length === 0) break;
+                // Giving up leaves these calls unanswered, but the session is then discarded: a new one is
+                // built from the text of the conversation once loading ends.
+                if (step >= MAX_TOOL_STEPS + MAX_DECLINED_STEPS) {
+                    throw new Error("The model kept calling tools after reaching the limit and gave no answer.");
+                }
 
-            if (accumulatedFunctionCalls.length > 0) {
-                handleFunctionCalls(accumulatedFunctionCalls);
-            }
-            
-            // AI2AI Loop Logic
-            if (ai2aiLoop && isAutoLoop) {
-                // Wait a bit then trigger next turn
-                // "User" in the loop is essentially the prompt driver. 
-                // We need to simulate the "other" AI responding.
-                // For now, let's just make the AI continue the topic.
-                loopTimeoutRef.current = setTimeout(() => {
-                   if(ai2aiLoop) handleSend("Continue the conversation.", true);
-                }, 3000);
+                // Past the limit the calls are declined, which asks the model to answer with what it has.
+                const functionResponses: Part[] = [];
+                for (const call of functionCalls) {
+                    const result: ToolResult = step < MAX_TOOL_STEPS
+                        ? await executeToolCall(call, responseId, persona, signal)
+                        : { response: { status: 'error', message: 'Tool call limit reached. Answer the user with the information you already have.' } };
+                    toolCalls.push(toToolCallRecord(call, result));
+                    functionResponses.push(toFunctionResponse(call, result));
+                }
+                setTree(prev => updateMessage(prev, responseId, m => ({ ...m, toolCalls: [...toolCalls] })));
+                message = functionResponses;
             }
-
+            return { ...response!, parts: [{ text }], ...(toolCalls.length > 0 && { toolCalls }) };
         } catch (error) {
+            if (signal.aborted || isAbortError(error)) {
+                if (response) {
+                    const responseId = response.id!;
+                    setTree(prev => updateMessage(prev, responseId, m => ({ ...m, parts: [{ text }], truncated: true })));
+                }
+                return null;
+            }
             console.error(error);
             const formattedError = parseError(error);
-            setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'model', parts: [{ text: `**Error:** ${formattedError.message}` }], timestamp: Date.now() }]);
+            if (response) {
+                // Keep whatever was streamed before a later tool round failed.
+                const responseId = response.id!;
+                setTree(prev => updateMessage(prev, responseId, m => ({ ...m, parts: [{ text: `${text}${text ? '\n\n' : ''}**Error:** ${formattedError.message}` }] })));
+            } else {
+                setTree(prev => addChild(prev, parentId, { id: crypto.randomUUID(), role: 'model', parts: [{ text: `**Error:** ${formattedError.message}` }], timestamp: Date.now(), ...(speakerId && { speakerId }) }));
+            }
+            return null;
+        }
+    };
+
+    // --- Group Chat ---
+
+    const chooseSpeaker = async (history: ChatMessage[], isFirstReply: boolean): Promise<Persona | null> => {
+        if (!activeGroup) return null;
+        if (activeGroup.strategy === 'narrator') {
+            try {
+                const name = await GeminiService.chooseNextSpeaker(groupMembers.map(p => p.role), formatTranscript(history, groupMembers), !isFirstReply);
+                const chosen = groupMembers.find(p => p.role === name);
+                if (chosen || !isFirstReply) return chosen || null;
+            } catch (error) {
+                console.error("Narrator failed to pick a speaker:", error);
+            }
+        }
+        return pickNextSpeaker(activeGroup, groupMembers, history, isFirstReply);
+    };
+
+    // One character answers the shared history with its own system prompt and point of view.
+    const runGroupTurn = async (speaker: Persona, history: ChatMessage[]): Promise<ChatMessage | null> => {
+        const { history: speakerHistory, prompt } = toGroupTurn(history, speaker, groupMembers);
+        const session = GeminiService.createChatWithHistory(speakerHistory, constructSystemPrompt(speaker, accessibleFiles) + groupSystemNote(speaker, groupMembers), getChatTools());
+        return streamReply(session, await buildMessageParts(prompt, history, speaker), history[history.length - 1].id!, speaker.id);
+    };
+
+    // Characters answer one after another until the strategy hands the turn back, the reply limit is
+    // reached, a request fails, or the user presses Stop.
+    const runGroupTurns = async (startHistory: ChatMessage[], firstSpeaker?: Persona, turnLimit: number = activeGroup?.maxTurns || 1) => {
+        if (!activeGroup || groupMembers.length === 0) return;
+        stopGroupRef.current = false;
+        setIsGroupRunning(true);
+        setIsLoading(true);
+        let history = startHistory;
+        try {
+            for (let turn = 0; turn < turnLimit && !stopGroupRef.current; turn++) {
+                const speaker = turn === 0 && firstSpeaker ? firstSpeaker : await chooseSpeaker(history, turn === 0);
+                if (!speaker || stopGroupRef.current) break;
+                setSpeakingPersona(speaker);
+                const reply = await runGroupTurn(speaker, history);
+                if (!reply) break;
+                history = [...history, reply];
+            }
+        } finally {
+            setSpeakingPersona(null);
+            setIsGroupRunning(false);
+            setIsLoading(false);
+        }
+    };
+
+    const setActiveGroup = (group: GroupChatSettings | undefined) => {
+        if (!activeConversation) return;
+        stopGenerating();
+        updateConversation(activeConversation.id, { group }).catch(console.error);
+    };
+
+    // Answers `userMessageId` again from a chat rebuilt out of the history above it.
+    // The new answer is added next to any earlier ones, so those stay reachable as swipes.
+    const replyTo = async (userMessageId: string, currentTree: MessageTree) => {
+        const userMessage = currentTree.nodes[userMessageId];
+        if (!userMessage) return;
+        if (isGroupChat) {
+            await runGroupTurns(getPathTo(currentTree, userMessageId));
+            return;
+        }
+        const history = getPathTo(currentTree, userMessageId).slice(0, -1);
+        const session = GeminiService.createChatWithHistory(toChatHistory(history), constructSystemPrompt(activePersona, accessibleFiles), getChatTools());
+        setIsLoading(true);
+        try {
+            await streamReply(session, await buildMessageParts(userMessage.parts[0].text, history, activePersona), userMessageId);
         } finally {
             setIsLoading(false);
         }
     };
 
     const handleRegenerate = async () => {
-        // Remove last model message and re-send the last user message
-        if (messages.length < 2) return;
+        // Add a new swipe for the last model message instead of replacing it
+        if (isLoading || messages.length < 2) return;
         const lastMsg = messages[messages.length - 1];
-        if (lastMsg.role === 'model') {
-            const prevUserMsg = messages[messages.length - 2];
-            if (prevUserMsg.role === 'user') {
-                 setMessages(prev => prev.slice(0, -2)); // Remove both
-                 handleSend(prevUserMsg.parts[0].text);
+        // In a group, the same character answers again from the point just above its message.
+        const lastSpeaker = groupMembers.find(p => p.id === lastMsg.speakerId);
+        if (isGroupChat && lastSpeaker && lastMsg.parentId) {
+            await runGroupTurns(getPathTo(tree, lastMsg.parentId), lastSpeaker, 1);
+            return;
+        }
+        if (lastMsg.role === 'model' && lastMsg.parentId) {
+            const prevUserMsg = tree.nodes[lastMsg.parentId];
+            if (prevUserMsg?.role === 'user') {
+                 await replyTo(prevUserMsg.id!, tree);
             }
         }
     };
+
+    const handleSwipe = (msg: ChatMessage, direction: -1 | 1) => {
+        if (isLoading) return;
+        const siblings = getSiblings(tree, msg.id!);
+        const target = siblings[siblings.findIndex(m => m.id === msg.id) + direction];
+        if (target) setTree(prev => selectBranch(prev, target.id!));
+    };
     
     const startEditing = (msg: ChatMessage) => {
         setEditingMessageId(msg.id || null);
         setEditInput(msg.parts[0].text);
     };
 
-    const saveEdit = (msgId: string) => {
-        setMessages(prev => prev.map(m => m.id === msgId ? { ...m, parts: [{ text: editInput }] } : m));
+    const saveEdit = async (msgId: string) => {
+        const original = tree.nodes[msgId];
         setEditingMessageId(null);
-        // Note: Changing history doesn't automatically update the LLM's internal context unless we rebuild the chat object.
-        // We do that in useEffect [activePersona, messages.length]... essentially we need to force re-creation.
-        // But re-creation usually clears session. The `createChatWithHistory` helps here.
-        // To force update, we might need to trigger a state change that reconstructs `chat`.
-        // The current useEffect dependency `messages.length` handles new messages, but deep edits might strictly need a key change or manual trigger.
-        // For simplicity, we assume the next message sent will use the updated `messages` array history.
+        if (!original || editInput === original.parts[0].text) return;
+
+        // Editing a user message forks a new branch and answers it; the original branch is kept as a sibling.
+        if (original.role === 'user' && !isLoading) {
+            const forked: ChatMessage = { id: crypto.randomUUID(), role: 'user', parts: [{ text: editInput }], timestamp: Date.now() };
+            const forkedTree = addChild(tree, original.parentId || null, forked);
+            setTree(forkedTree);
+            await replyTo(forked.id!, forkedTree);
+            return;
+        }
+        // Model and system messages are corrected in place; the chat is rebuilt once editing ends.
+        setTree(prev => updateMessage(prev, msgId, m => ({ ...m, parts: [{ text: editInput }] })));
     };
 
     const summarizeHistory = useCallback(async () => {
-        if (!chat || messages.length < 5 || isLoading) return;
+        if (!chat || messages.length < MIN_MESSAGES_TO_SUMMARIZE || isLoading) return;
 
         setIsSummarizing(true);
         try {
@@ -511,15 +866,15 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
                 associatedPersonaId: activePersona.id
             });
 
-            // Compact history
-            const recentMessages = messages.slice(messages.length - MESSAGES_TO_KEEP_AFTER_SUMMARY);
-            const newHistory: ChatMessage[] = [
+            // Compact history; branches below the first kept message survive the rebase
+            const firstKept = messages[messages.length - MESSAGES_TO_KEEP_AFTER_SUMMARY];
+            const summaryPrefix: ChatMessage[] = [
                 { id: crypto.randomUUID(), role: 'user', parts: [{ text: `[SYSTEM]: Previous conversation summary:\n${summary}` }], timestamp: Date.now() },
                 { id: crypto.randomUUID(), role: 'model', parts: [{ text: "Acknowledged. I have context of our previous conversation." }], timestamp: Date.now() },
-                ...recentMessages
             ];
             
-            setMessages(newHistory);
+            setActiveConversation(prev => prev && { ...prev, summary });
+            setTree(prev => rebaseTree(prev, summaryPrefix, firstKept.id!));
             // Chat object updates automatically via useEffect
             
         } catch (error) {
@@ -529,24 +884,109 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
         }
     }, [chat, messages, isLoading, activePersona]);
     
-    // Auto-summarize check
+    // Measures the system prompt and history whenever the chat settles. Lore, memories and files are
+    // measured per message in buildMessageParts and start from zero in each conversation.
     useEffect(() => {
-        if (messages.length > 0 && messages.length % HISTORY_SUMMARY_THRESHOLD === 0 && !isSummarizing && !isLoading) {
-            // summarizeHistory(); // Auto-summarize can be disruptive if not handled carefully. User requested manual /summarize, let's keep it manual or implicit.
-            // Prompt said "The chat will be summarized every 15 to 20 messages".
+        setContextUsage(EMPTY_CONTEXT_USAGE);
+    }, [activeConversation?.id]);
+
+    useEffect(() => {
+        if (isLoading) return;
+        let cancelled = false;
+        const historyText = toChatHistory(messages).map(c => `${c.role}: ${c.parts?.map(p => p.text).join('')}`).join('\n\n');
+        Promise.all([contextBudgetService.count(constructSystemPrompt(activePersona, accessibleFiles)), contextBudgetService.count(historyText)])
+            .then(([system, history]) => {
+                if (!cancelled) setContextUsage(prev => ({ ...prev, system, history }));
+            })
+            .catch(e => console.error("Failed to count context tokens:", e));
+        return () => { cancelled = true; };
+    }, [messages, isLoading, activePersona, accessibleFiles, constructSystemPrompt]);
+
+    // Summarizes once the history nears what the budget leaves for it.
+    useEffect(() => {
+        const settings = contextBudgetService.getSettings();
+        if (contextUsage.history > historyBudget(settings, contextUsage) * settings.summarizeAt && !isSummarizing && !isLoading) {
             summarizeHistory();
         }
-    }, [messages.length, isSummarizing, isLoading, summarizeHistory]);
+    }, [contextUsage, isSummarizing, isLoading, summarizeHistory]);
 
     const handleClearHistory = async () => {
-        if (window.confirm("Clear chat history?")) {
-            await dbService.clearChatHistory();
-            setMessages([]);
+        if (window.confirm("Clear this conversation's messages?")) {
+            setActiveConversation(prev => prev && { ...prev, summary: undefined });
+            setTree(createEmptyTree());
+        }
+    };
+
+    // --- Conversation Management ---
+
+    // The active conversation's freshest state lives in component state, not the DB.
+    const getConversationSnapshot = async (id: string): Promise<Conversation | null> => {
+        if (activeConversation?.id === id) {
+            return { ...activeConversation, ...splitTree(tree), accessibleFiles, personaId: activePersona.id, messageCount: messages.length };
+        }
+        return dbService.getConversation(id);
+    };
+
+    const updateConversation = async (id: string, updates: Partial<Pick<Conversation, 'title' | 'isArchived' | 'group'>>) => {
+        const conversation = await getConversationSnapshot(id);
+        if (!conversation) return;
+        const updated = { ...conversation, ...updates };
+        await dbService.saveConversation(updated);
+        setConversations(prev => prev.map(c => c.id === id ? toConversationMeta(updated) : c));
+        if (activeConversation?.id === id) setActiveConversation(updated);
+        return updated;
+    };
+
+    const handleSelectConversation = (id: string) => {
+        if (isLoading || isSummarizing || id === activeConversation?.id) return;
+        openConversation(id, personas).catch(console.error);
+    };
+
+    const handleNewConversation = () => {
+        if (isLoading || isSummarizing) return;
+        createConversation().catch(console.error);
+    };
+
+    const handleRenameConversation = (id: string, title: string) => {
+        updateConversation(id, { title }).catch(console.error);
+    };
+
+    const handleDuplicateConversation = async (id: string) => {
+        if (isLoading || isSummarizing) return;
+        const source = await getConversationSnapshot(id);
+        if (!source) return;
+        await createConversation({
+            persona: personas.find(p => p.id === source.personaId),
+            title: `${source.title} (copy)`,
+            messages: source.messages,
+            branches: source.branches,
+            accessibleFiles: source.accessibleFiles,
+            summary: source.summary,
+            group: source.group,
+        });
+    };
+
+    const handleToggleArchiveConversation = async (id: string) => {
+        const updated = await updateConversation(id, { isArchived: !conversations.find(c => c.id === id)?.isArchived });
+        if (updated?.isArchived && id === activeConversation?.id && !isLoading) {
+            await openLatestConversation(conversations.filter(c => c.id !== id), personas);
+        }
+    };
+
+    const handleDeleteConversation = async (id: string) => {
+        const target = conversations.find(c => c.id === id);
+        if (!target || !window.confirm(`Delete "${target.title}"? This cannot be undone.`)) return;
+        if (id === activeConversation?.id && isLoading) return;
+        await dbService.deleteConversation(id);
+        const remaining = conversations.filter(c => c.id !== id);
+        setConversations(remaining);
+        if (id === activeConversation?.id) {
+            await openLatestConversation(remaining, personas);
         }
     };
     
     const handleSaveSession = () => {
-        const sessionData: SessionData = { messages, persona: activePersona, accessibleFiles };
+        const sessionData: SessionData = { title: activeConversation?.title, ...splitTree(tree), persona: activePersona, accessibleFiles, summary: activeConversation?.summary, group: activeConversation?.group };
         const blob = new window.Blob([JSON.stringify(sessionData, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -564,9 +1004,16 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
         reader.onload = (event) => {
             try {
                 const sessionData: SessionData = JSON.parse(event.target?.result as string);
-                setMessages(sessionData.messages || []);
-                setActivePersona(sessionData.persona || createDefaultPersona());
-                setAccessibleFiles(sessionData.accessibleFiles || []);
+                // Imported sessions become a new conversation rather than overwriting the current one.
+                createConversation({
+                    persona: sessionData.persona || createDefaultPersona(),
+                    title: sessionData.title || 'Imported Chat',
+                    messages: sessionData.messages || [],
+                    branches: sessionData.branches,
+                    accessibleFiles: sessionData.accessibleFiles || [],
+                    summary: sessionData.summary,
+                    group: sessionData.group,
+                }).catch(console.error);
             } catch (e) { alert("Invalid session file."); }
         };
         reader.readAsText(file);
@@ -594,9 +1041,90 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
         }
     };
 
+    // Model messages in group chats belong to whichever member wrote them.
+    const speakerOf = (msg: ChatMessage): Persona => (msg.speakerId && personas.find(p => p.id === msg.speakerId)) || activePersona;
+
+    const renderAvatar = (persona: Persona) => persona.avatarUrl
+        ? <img src={persona.avatarUrl} alt="Avatar" className="w-8 h-8 rounded-full object-cover" />
+        : <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center font-bold text-xs">{persona.role.charAt(0)}</div>;
+
+    // "< 2 / 3 >" pager shown under messages that have alternate versions.
+    const renderSwipeControls = (msg: ChatMessage) => {
+        const siblings = getSiblings(tree, msg.id!);
+        if (siblings.length < 2) return null;
+        const position = siblings.findIndex(m => m.id === msg.id);
+        return (
+            <div className={`flex items-center gap-2 mt-2 text-xs ${msg.role === 'user' ? 'text-blue-200 justify-end' : 'text-slate-400'}`}>
+                <button onClick={() => handleSwipe(msg, -1)} disabled={position === 0 || isLoading} className="px-1 hover:text-white disabled:opacity-30" aria-label="Previous version">&lt;</button>
+                <span>{position + 1} / {siblings.length}</span>
+                <button onClick={() => handleSwipe(msg, 1)} disabled={position === siblings.length - 1 || isLoading} className="px-1 hover:text-white disabled:opacity-30" aria-label="Next version">&gt;</button>
+            </div>
+        );
+    };
+
+    const renderToolCalls = (msg: ChatMessage) => {
+        if (!msg.toolCalls || msg.toolCalls.length === 0) return null;
+        return (
+            <div className="flex flex-wrap gap-1 mb-2 text-xs">
+                {msg.toolCalls.map((call, i) => (
+                    <span key={i} className={`px-2 py-0.5 rounded-full bg-slate-800 ${call.status === 'error' ? 'text-red-400' : 'text-slate-400'}`} title={JSON.stringify(call.args, null, 2)}>
+                        🔧 {call.name}{call.status === 'error' && ' (failed)'}
+                    </span>
+                ))}
+            </div>
+        );
+    };
+
+    const renderSources = (msg: ChatMessage) => {
+        if (!msg.sources || msg.sources.length === 0) return null;
+        return (
+            <div className="flex flex-wrap gap-1 mt-2 pt-2 border-t border-slate-600 text-xs">
+                <span className="text-slate-400">Web:</span>
+                {msg.sources.map(source => (
+                    <a key={source.uri} href={source.uri} target="_blank" rel="noopener noreferrer" className="bg-slate-800 text-blue-400 hover:underline px-2 py-0.5 rounded-full truncate max-w-[16rem]">
+                        {source.title}
+                    </a>
+                ))}
+            </div>
+        );
+    };
+
+    // Library passages that were handed to the model for this reply.
+    const renderCitations = (msg: ChatMessage) => {
+        if (!msg.citations || msg.citations.length === 0) return null;
+        return (
+            <div className="flex flex-wrap gap-1 mt-2 pt-2 border-t border-slate-600 text-xs">
+                <span className="text-slate-400">Sources:</span>
+                {msg.citations.map(c => (
+                    <span key={`${c.fileName}#${c.index}`} className="bg-slate-800 text-slate-300 px-2 py-0.5 rounded-full" title={`Relevance ${c.score.toFixed(2)}`}>
+                        {c.fileName} · chunk {c.index + 1}/{c.total}
+                    </span>
+                ))}
+            </div>
+        );
+    };
+
     return (
-        <FeatureLayout title="Chat Bot" description="Advanced chat with memory, lore, and tool integration.">
-            <div className="flex flex-col h-full max-w-4xl mx-auto">
+        <FeatureLayout title="Chat Bot" description="Advanced chat with memory, lore, and tool integration." actions={
+            <div className="flex items-center gap-2">
+                <button onClick={() => setIsSidebarOpen(true)} className="md:hidden text-slate-400 hover:text-white p-2" title="Chats" aria-label="Show chats"><MessageSquareIcon /></button>
+                <ContextMeter usage={contextUsage} totalTokens={contextBudgetService.getSettings().totalTokens} />
+            </div>
+        }>
+            <div className="flex h-full gap-4">
+            <ConversationSidebar
+                conversations={conversations}
+                activeConversationId={activeConversation?.id || null}
+                onSelect={handleSelectConversation}
+                onCreate={handleNewConversation}
+                onRename={handleRenameConversation}
+                onDuplicate={id => handleDuplicateConversation(id).catch(console.error)}
+                onToggleArchive={id => handleToggleArchiveConversation(id).catch(console.error)}
+                onDelete={id => handleDeleteConversation(id).catch(console.error)}
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+            />
+            <div className="flex flex-col h-full max-w-4xl mx-auto flex-1 min-w-0">
                 <div className="flex-grow overflow-y-auto pr-4 space-y-6">
                     {messages.map((msg, index) => (
                         <div key={msg.id || index} className={`flex items-start gap-3 group ${msg.role === 'user' ? 'justify-end' : msg.role === 'system' ? 'justify-center' : 'justify-start'}`}>
@@ -604,12 +1132,9 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
                                 <div className="text-xs text-slate-500 italic bg-slate-800 px-3 py-1 rounded-full">{msg.parts[0].text}</div>
                             ) : (
                                 <>
-                                    {msg.role === 'model' && (
-                                        activePersona.avatarUrl 
-                                        ? <img src={activePersona.avatarUrl} alt="Avatar" className="w-8 h-8 rounded-full object-cover" /> 
-                                        : <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center font-bold text-xs">{activePersona.role.charAt(0)}</div>
-                                    )}
+                                    {msg.role === 'model' && renderAvatar(speakerOf(msg))}
                                     <div className={`p-4 rounded-xl max-w-lg relative group-hover:shadow-lg transition-all ${msg.role === 'user' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-200'}`}>
+                                        {msg.role === 'model' && isGroupChat && <div className="text-xs font-semibold text-blue-300 mb-1">{speakerOf(msg).role}</div>}
                                         {editingMessageId === msg.id ? (
                                             <div className="flex flex-col gap-2">
                                                 <textarea value={editInput} onChange={e => setEditInput(e.target.value)} className="bg-slate-900 text-white p-2 rounded w-full" rows={3}/>
@@ -620,7 +1145,13 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
                                             </div>
                                         ) : (
                                             <>
-                                                {msg.imageUrl ? <img src={msg.imageUrl} alt="Gen" className="rounded-lg mb-2" /> : <MarkdownRenderer content={msg.parts[0].text} />}
+                                                {renderToolCalls(msg)}
+                                                {msg.imageUrl && <img src={msg.imageUrl} alt="Gen" className="rounded-lg mb-2" />}
+                                                {(!msg.imageUrl || msg.parts[0].text) && <MarkdownRenderer content={msg.parts[0].text} />}
+                                                {msg.truncated && <p className="text-xs text-slate-400 italic mt-1">(stopped)</p>}
+                                                {renderSources(msg)}
+                                                {renderCitations(msg)}
+                                                {renderSwipeControls(msg)}
                                                 <div className="absolute -top-2 -right-2 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
                                                     <button onClick={() => startEditing(msg)} className="bg-slate-800 p-1 rounded-full text-slate-400 hover:text-white" title="Edit"><EditIcon /></button>
                                                     {msg.role === 'model' && index === messages.length - 1 && (
@@ -636,10 +1167,11 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
                     ))}
                     {isLoading && (
                          <div className="flex justify-start items-start gap-3">
-                            <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center font-bold text-xs">{activePersona.role.charAt(0)}</div>
+                            {renderAvatar(speakingPersona || activePersona)}
                             <div className="p-4 rounded-xl bg-slate-700"><Spinner text="Typing..."/></div>
                         </div>
                     )}
+                    {pendingApprovals.map(approval => <ToolApprovalCard key={approval.id} approval={approval} onResolve={resolveApproval} />)}
                     <div ref={messagesEndRef} />
                 </div>
 
@@ -649,28 +1181,36 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents, setDocuments }) => {
                     <div className="flex items-center space-x-2 bg-slate-800/50 p-2 rounded-2xl">
                         <Tooltip text="Settings"><button onClick={() => setIsPersonaModalOpen(true)} className="p-2 text-slate-400 hover:text-white"><SettingsIcon /></button></Tooltip>
                         <Tooltip text="Files"><button onClick={() => setIsFileModalOpen(true)} className="p-2 text-slate-400 hover:text-white"><PaperclipIcon /></button></Tooltip>
+                        <Tooltip text="Group Chat"><button onClick={() => setIsGroupModalOpen(true)} disabled={isLoading} className={`p-2 ${isGroupChat ? 'text-blue-400' : 'text-slate-400'} hover:text-white disabled:opacity-50`}><UsersIcon /></button></Tooltip>
                         
                         <textarea 
                             value={input} 
                             onChange={(e) => setInput(e.target.value)} 
                             onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }} 
-                            placeholder={isSummarizing ? "Summarizing memory..." : ai2aiLoop ? "AI Loop Running (Type /end to stop)..." : "Type a message or /command..."}
+                            placeholder={isSummarizing ? "Summarizing memory..." : isGroupRunning ? `${speakingPersona?.role || 'The group'} is talking (press Stop to interrupt)...` : "Type a message or /command..."}
                             rows={1} 
                             className="flex-grow bg-transparent border-none focus:ring-0 text-white resize-none"
                             disabled={isSummarizing} 
                         />
                         
                         <Tooltip text="Voice"><button onClick={handleToggleListening} className={`p-2 ${isListening ? 'text-red-500 animate-pulse' : 'text-slate-400 hover:text-white'}`}><MicIcon /></button></Tooltip>
-                        <button onClick={() => handleSend()} disabled={isLoading || !input.trim()} className="p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl"><SendIcon /></button>
+                        {isLoading ? (
+                            <Tooltip text="Stop"><button onClick={stopGenerating} className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-xl"><StopIcon /></button></Tooltip>
+                        ) : (
+                            <button onClick={() => handleSend()} disabled={!input.trim()} className="p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl"><SendIcon /></button>
+                        )}
                     </div>
                     <div className="flex justify-between text-xs text-slate-500 px-2">
+                        {isGroupChat && <span>Group: {groupMembers.map(p => p.role).join(', ')}</span>}
                         <span>Commands: /save, /memory, /lore, /image, /narrate, /character, /ai2ai, /plugin, /help</span>
                     </div>
                 </div>
             </div>
+            </div>
             
             <PersonaConfigModal isOpen={isPersonaModalOpen} onClose={() => setIsPersonaModalOpen(false)} initialPersona={activePersona} onSave={handleSavePersona} />
             <FileAccessModal isOpen={isFileModalOpen} onClose={() => setIsFileModalOpen(false)} availableFiles={documents.filter(d => !d.isArchived)} selectedFiles={accessibleFiles} onSelectionChange={setAccessibleFiles} />
+            <GroupChatModal isOpen={isGroupModalOpen} onClose={() => setIsGroupModalOpen(false)} personas={personas} activePersonaId={activePersona.id} settings={activeGroup} onSave={setActiveGroup} />
             <HelpModal isOpen={isHelpModalOpen} onClose={() => setIsHelpModalOpen(false)} />
         </FeatureLayout>
     );
@@ -1,6 +1,8 @@
 
 import React, { useState } from 'react';
+import type { Part } from '@google/genai';
 import { GeminiService } from '../services/geminiService.ts';
+import { REASONING_TOOLS, getToolDeclarations, runToolCall, toFunctionResponse, hasVisibleResult, renderToolOutput, type ToolContext, type ToolOutput, type ToolResult } from '../services/tools/index.ts';
 import FeatureLayout from './common/FeatureLayout.tsx';
 import Spinner from '../components/Spinner.tsx';
 import MarkdownRenderer from '../components/MarkdownRenderer.tsx';
@@ -8,7 +10,12 @@ import { dbService, StoredFile } from '../services/dbService.ts';
 import { SaveIcon } from '../components/Icons.tsx';
 import { encode } from '../utils/helpers.ts';
 import ErrorDisplay from '../components/ErrorDisplay.tsx';
-import { parseError, FormattedError } from '../utils/errorUtils.ts';
+import ToolApprovalCard from '../components/ToolApprovalCard.tsx';
+import useToolApprovals from '../hooks/useToolApprovals.ts';
+import { parseError, isAbortError, FormattedError } from '../utils/errorUtils.ts';
+import useAbortableRequest from '../hooks/useAbortableRequest.ts';
+
+const MAX_TOOL_STEPS = 5; // Tool rounds before the model must answer
 
 interface ComplexReasoningProps {
     documents: StoredFile[];
@@ -18,7 +25,10 @@ interface ComplexReasoningProps {
 const ComplexReasoning: React.FC<ComplexReasoningProps> = ({ documents, setDocuments }) => {
     const [prompt, setPrompt] = useState<string>('Explain the concept of quantum entanglement to a high school student, including an analogy to help with understanding.');
     const [result, setResult] = useState<string>('');
+    const [toolOutputs, setToolOutputs] = useState<ToolOutput[]>([]);
+    const { pending: pendingApprovals, requestApproval, resolveApproval, declineAll: declinePendingApprovals } = useToolApprovals();
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const { start: startRequest, stop: stopRequest } = useAbortableRequest();
     const [error, setError] = useState<FormattedError | null>(null);
 
     const handleQuery = async () => {
@@ -29,10 +39,28 @@ const ComplexReasoning: React.FC<ComplexReasoningProps> = ({ documents, setDocum
         setIsLoading(true);
         setError(null);
         setResult('');
+        setToolOutputs([]);
         try {
-            const response = await GeminiService.complexReasoning(prompt);
-            setResult(response.text);
+            // The model may search the web and read active library files while it works the problem out.
+            const signal = startRequest();
+            const session = GeminiService.createReasoningChat(getToolDeclarations(REASONING_TOOLS));
+            const context: ToolContext = { feature: 'reasoning', requestApproval, signal, files: documents.filter(doc => !doc.isArchived) };
+            let reply = await session.sendMessage({ message: prompt, signal });
+            for (let step = 0; reply.functionCalls?.length && step <= MAX_TOOL_STEPS; step++) {
+                const functionResponses: Part[] = [];
+                for (const call of reply.functionCalls) {
+                    // Past the limit the calls are declined, which asks the model to answer with what it has.
+                    const output: ToolResult = step < MAX_TOOL_STEPS
+                        ? await runToolCall(call, REASONING_TOOLS, context)
+                        : { response: { status: 'error', message: 'Tool call limit reached. Answer with the information you already have.' } };
+                    if (hasVisibleResult(output)) setToolOutputs(prev => [...prev, { name: call.name || 'unknown', result: output }]);
+                    functionResponses.push(toFunctionResponse(call, output));
+                }
+                reply = await session.sendMessage({ message: functionResponses, signal });
+            }
+            setResult(reply.text);
         } catch (err: any) {
+            if (isAbortError(err)) return; // Stopped by the user
             console.error(err);
             setError(parseError(err));
         } finally {
@@ -40,6 +68,11 @@ const ComplexReasoning: React.FC<ComplexReasoningProps> = ({ documents, setDocum
         }
     };
 
+    const handleStop = () => {
+        stopRequest();
+        declinePendingApprovals();
+    };
+
     const handleSaveResult = async () => {
         if (!result) return;
         
@@ -86,14 +119,14 @@ const ComplexReasoning: React.FC<ComplexReasoningProps> = ({ documents, setDocum
                     rows={5}
                 />
                 <button
-                    onClick={handleQuery}
-                    disabled={isLoading}
-                    className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                    onClick={isLoading ? handleStop : handleQuery}
+                    className={`w-full ${isLoading ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors`}
                 >
-                    {isLoading ? 'Thinking...' : 'Submit Query'}
+                    {isLoading ? 'Stop' : 'Submit Query'}
                 </button>
 
                 <div className="bg-slate-800/50 rounded-lg p-4 min-h-[50vh] mt-6">
+                    {pendingApprovals.map(approval => <ToolApprovalCard key={approval.id} approval={approval} onResolve={resolveApproval} />)}
                     {isLoading && <div className="flex items-center justify-center h-full"><Spinner text="Thinking... this may take some time for complex queries." /></div>}
                     {error && <ErrorDisplay error={error} onDismiss={() => setError(null)} />}
                     {result && (
@@ -104,6 +137,17 @@ const ComplexReasoning: React.FC<ComplexReasoningProps> = ({ documents, setDocum
                             </div>
                         </div>
                     )}
+                    {toolOutputs.length > 0 && (
+                        <div className="mt-6 pt-4 border-t border-slate-700 space-y-2">
+                            <h3 className="text-sm font-semibold text-slate-400">Tools used</h3>
+                            {toolOutputs.map((output, i) => (
+                                <details key={i} className="bg-slate-800 rounded-lg p-3">
+                                    <summary className="cursor-pointer text-sm text-slate-300">🔧 {output.name}</summary>
+                                    <div className="mt-2">{renderToolOutput(output)}</div>
+                                </details>
+                            ))}
+                        </div>
+                    )}
                     {!isLoading && !result && !error && <div className="flex items-center justify-center h-full text-slate-500">The model's reasoning will appear here.</div>}
                 </div>
             </div>
@@ -1,9 +1,12 @@
 
 import React, { useState } from 'react';
 import FeatureLayout from './common/FeatureLayout.tsx';
-import { formatBytes, fileToBase64, encode } from '../utils/helpers.ts';
+import { formatBytes, fileToBase64 } from '../utils/helpers.ts';
 import { FileTextIcon, ArchiveIcon, TrashIcon } from '../components/Icons.tsx';
 import { dbService, StoredFile } from '../services/dbService.ts';
+import { worldInfoService } from '../services/worldInfoService.ts';
+import { parseLorebook } from '../utils/worldInfo.ts';
+import type { Lorebook } from '../types.ts';
 
 interface FileLibraryProps {
     documents: StoredFile[];
@@ -12,6 +15,7 @@ interface FileLibraryProps {
 
 const FileLibrary: React.FC<FileLibraryProps> = ({ documents, setDocuments }) => {
     const [view, setView] = useState<'active' | 'archived'>('active');
+    const [isIndexing, setIsIndexing] = useState(false);
 
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
@@ -19,43 +23,43 @@ const FileLibrary: React.FC<FileLibraryProps> = ({ documents, setDocuments }) =>
         // FIX: Explicitly cast Array.from(files) to File[] to resolve type 'unknown' errors when accessing file properties.
         const newFiles = Array.from(files) as File[];
         try {
-            const filesToStore: StoredFile[] = await Promise.all(newFiles.map(async (file) => {
-                let base64Data = await fileToBase64(file);
-                let fileType = file.type;
-                let fileName = file.name;
-
-                // Lorebook Detection & Conversion
+            const filesToStore: StoredFile[] = [];
+            const importedBooks: string[] = [];
+            for (const file of newFiles) {
+                // Lorebook Detection: kept as structured World Info instead of a library file
                 if (file.name.toLowerCase().endsWith('.json')) {
+                    let book: Lorebook | null = null;
                     try {
-                        const text = await file.text();
-                        const json = JSON.parse(text);
-                        if (json.entries && Array.isArray(json.entries)) {
-                            let loreText = `[WORLD INFO / LOREBOOK: ${fileName}]\n`;
-                            json.entries.forEach((entry: any) => {
-                                if (entry.enabled === false) return;
-                                loreText += `\n--- ${entry.name || 'Entry'} ---\nKeys: ${entry.keys?.join(', ') || 'Global'}\n${entry.content || ''}\n`;
-                            });
-                            const contentBytes = new TextEncoder().encode(loreText);
-                            base64Data = encode(contentBytes);
-                            fileType = 'text/plain';
-                            fileName = fileName.replace('.json', '.txt');
-                            if (!fileName.includes('(Lore)')) fileName = fileName.replace('.txt', ' (Lore).txt');
-                        }
+                        book = parseLorebook(JSON.parse(await file.text()), file.name.replace(/\.json$/i, ''));
                     } catch (e) { console.warn("JSON parse failed during lorebook check."); }
+                    if (book) {
+                        await worldInfoService.addLorebook(book);
+                        importedBooks.push(`${book.name} (${book.entries.length} entries)`);
+                        continue;
+                    }
                 }
 
-                return {
-                    name: fileName,
-                    type: fileType,
+                filesToStore.push({
+                    name: file.name,
+                    type: file.type,
                     size: file.size,
                     lastModified: file.lastModified,
                     isArchived: false,
-                    data: base64Data,
-                };
-            }));
-            await dbService.addDocuments(filesToStore);
-            setDocuments(prev => [...prev, ...filesToStore]);
+                    data: await fileToBase64(file),
+                });
+            }
+            if (importedBooks.length > 0) {
+                alert(`Imported lorebooks: ${importedBooks.join(', ')}. Manage them in Settings → World Info.`);
+            }
+            if (filesToStore.length === 0) return;
+            setIsIndexing(true);
+            const unindexed = await dbService.addDocuments(filesToStore);
+            setDocuments(prev => [...prev.filter(f => !filesToStore.some(n => n.name === f.name)), ...filesToStore]);
+            if (unindexed.length > 0) {
+                alert(`Saved, but these files could not be indexed for chat search and will be retried when used: ${unindexed.join(', ')}`);
+            }
         } catch (error) { alert("Failed to save files."); }
+        finally { setIsIndexing(false); }
     };
     
     const handleRemoveDocument = async (name: string) => {
@@ -76,10 +80,10 @@ const FileLibrary: React.FC<FileLibraryProps> = ({ documents, setDocuments }) =>
         <FeatureLayout title="File Library" description="Upload lorebooks, images, or docs for AI reference.">
             <div className="max-w-4xl mx-auto">
                 <div className="w-full p-8 border-2 border-dashed border-slate-600 rounded-lg text-center mb-8 bg-slate-800/50 hover:border-blue-500 transition-colors">
-                    <input type="file" accept=".txt,.pdf,.png,.jpg,.jpeg,.webp,.mp4,.mp3,.wav,.json" onChange={handleFileChange} className="hidden" id="lib-upload" multiple />
+                    <input type="file" accept=".txt,.md,.pdf,.png,.jpg,.jpeg,.webp,.mp4,.mp3,.wav,.json" onChange={handleFileChange} className="hidden" id="lib-upload" multiple />
                     <label htmlFor="lib-upload" className="cursor-pointer">
                         <FileTextIcon />
-                        <p className="mt-2 font-semibold">Click to upload Lorebooks (.json) or Media</p>
+                        <p className="mt-2 font-semibold">{isIndexing ? 'Indexing text for chat search...' : 'Click to upload Lorebooks (.json) or Media'}</p>
                     </label>
                 </div>
                 <div className="flex border-b border-slate-700 mb-4">
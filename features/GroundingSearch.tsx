@@ -10,7 +10,8 @@ import type { GroundingSource } from '../types.ts';
 import { dbService, StoredFile } from '../services/dbService.ts';
 import { encode } from '../utils/helpers.ts';
 import ErrorDisplay from '../components/ErrorDisplay.tsx';
-import { parseError, FormattedError } from '../utils/errorUtils.ts';
+import { parseError, isAbortError, FormattedError } from '../utils/errorUtils.ts';
+import useAbortableRequest from '../hooks/useAbortableRequest.ts';
 
 interface GroundingSearchProps {
     documents: StoredFile[];
@@ -23,6 +24,7 @@ const GroundingSearch: React.FC<GroundingSearchProps> = ({ documents, setDocumen
     const [result, setResult] = useState<string>('');
     const [sources, setSources] = useState<GroundingSource[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const { start: startRequest, stop: stopRequest } = useAbortableRequest();
     const [error, setError] = useState<FormattedError | null>(null);
     const location = useGeolocation();
 
@@ -39,11 +41,11 @@ const GroundingSearch: React.FC<GroundingSearchProps> = ({ documents, setDocumen
         const geo = (location.latitude && location.longitude) ? { latitude: location.latitude, longitude: location.longitude } : undefined;
 
         try {
-            const response = await GeminiService.groundedSearch(prompt, useMaps, geo);
+            const response = await GeminiService.groundedSearch(prompt, useMaps, geo, startRequest());
             setResult(response.text);
             const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
             if (groundingChunks) {
-                 const newSources: GroundingSource[] = groundingChunks.map((chunk: any) => ({
+                 const newSources: GroundingSource[] = groundingChunks.map((chunk: any): GroundingSource => ({
                     uri: chunk.web?.uri || chunk.maps?.uri || '#',
                     title: chunk.web?.title || chunk.maps?.title || 'Unknown Source',
                     type: chunk.web ? 'web' : 'maps'
@@ -51,6 +53,7 @@ const GroundingSearch: React.FC<GroundingSearchProps> = ({ documents, setDocumen
                 setSources(newSources);
             }
         } catch (err: any) {
+            if (isAbortError(err)) return; // Stopped by the user
             console.error(err);
             setError(parseError(err));
         } finally {
@@ -116,11 +119,10 @@ const GroundingSearch: React.FC<GroundingSearchProps> = ({ documents, setDocumen
                         <label htmlFor="use-maps" className="text-slate-300">Use Google Maps (requires location)</label>
                     </div>
                      <button
-                        onClick={handleSearch}
-                        disabled={isLoading}
-                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+                        onClick={isLoading ? stopRequest : handleSearch}
+                        className={`${isLoading ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} disabled:bg-slate-600 text-white font-bold py-2 px-6 rounded-lg transition-colors`}
                     >
-                        {isLoading ? 'Searching...' : 'Search'}
+                        {isLoading ? 'Stop' : 'Search'}
                     </button>
                 </div>
                  {useMaps && location.error && <p className="text-sm text-yellow-400">Could not get location: {location.error}</p>}
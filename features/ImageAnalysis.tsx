@@ -8,7 +8,8 @@ import MarkdownRenderer from '../components/MarkdownRenderer.tsx';
 import { dbService, StoredFile } from '../services/dbService.ts';
 import { SaveIcon } from '../components/Icons.tsx';
 import ErrorDisplay from '../components/ErrorDisplay.tsx';
-import { parseError, FormattedError } from '../utils/errorUtils.ts';
+import { parseError, isAbortError, FormattedError } from '../utils/errorUtils.ts';
+import useAbortableRequest from '../hooks/useAbortableRequest.ts';
 
 interface ImageAnalysisProps {
     documents: StoredFile[];
@@ -20,6 +21,7 @@ const ImageAnalysis: React.FC<ImageAnalysisProps> = ({ documents, setDocuments }
     const [prompt, setPrompt] = useState<string>('What is in this image?');
     const [result, setResult] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const { start: startRequest, stop: stopRequest } = useAbortableRequest();
     const [error, setError] = useState<FormattedError | null>(null);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -41,9 +43,10 @@ const ImageAnalysis: React.FC<ImageAnalysisProps> = ({ documents, setDocuments }
         setResult('');
         try {
             const imageBase64 = await fileToBase64(file);
-            const response = await GeminiService.analyzeImage(prompt, imageBase64, file.type);
+            const response = await GeminiService.analyzeImage(prompt, imageBase64, file.type, startRequest());
             setResult(response.text);
         } catch (err: any) {
+            if (isAbortError(err)) return; // Stopped by the user
             console.error("Image analysis failed:", err);
             setError(parseError(err));
         } finally {
@@ -118,11 +121,11 @@ const ImageAnalysis: React.FC<ImageAnalysisProps> = ({ documents, setDocuments }
                     )}
                     
                     <button
-                        onClick={handleAnalyze}
-                        disabled={!file || !prompt || isLoading}
-                        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                        onClick={isLoading ? stopRequest : handleAnalyze}
+                        disabled={!isLoading && (!file || !prompt)}
+                        className={`w-full ${isLoading ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors`}
                     >
-                        {isLoading ? 'Analyzing...' : 'Analyze Image'}
+                        {isLoading ? 'Stop' : 'Analyze Image'}
                     </button>
                 </div>
                 <div className="bg-slate-800/50 rounded-lg p-4 h-[60vh] overflow-y-auto flex flex-col">
@@ -7,7 +7,8 @@ import { SaveIcon } from '../components/Icons.tsx';
 import { dbService, StoredFile } from '../services/dbService.ts';
 import { base64ToBlob } from '../utils/helpers.ts';
 import ErrorDisplay from '../components/ErrorDisplay.tsx';
-import { parseError, FormattedError } from '../utils/errorUtils.ts';
+import { parseError, isAbortError, FormattedError } from '../utils/errorUtils.ts';
+import useAbortableRequest from '../hooks/useAbortableRequest.ts';
 
 interface ImageGenerationProps {
     documents: StoredFile[];
@@ -31,6 +32,7 @@ const ImageGeneration: React.FC<ImageGenerationProps> = ({ documents, setDocumen
     const [selectedStyle, setSelectedStyle] = useState<string>(styles[1].name);
     const [generatedImages, setGeneratedImages] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const { start: startRequest, stop: stopRequest } = useAbortableRequest();
     const [error, setError] = useState<FormattedError | null>(null);
 
     const handleGenerate = async () => {
@@ -45,9 +47,10 @@ const ImageGeneration: React.FC<ImageGenerationProps> = ({ documents, setDocumen
             const styleKeywords = styles.find(s => s.name === selectedStyle)?.keywords || "";
             const fullPrompt = `${prompt}${styleKeywords ? `, ${styleKeywords}` : ''}`;
 
-            const imagesBase64 = await GeminiService.generateImage(fullPrompt, aspectRatio, negativePrompt);
+            const imagesBase64 = await GeminiService.generateImage(fullPrompt, aspectRatio, negativePrompt, startRequest());
             setGeneratedImages(imagesBase64);
         } catch (err: any) {
+            if (isAbortError(err)) return; // Stopped by the user
             console.error(err);
             setError(parseError(err));
         } finally {
@@ -136,11 +139,11 @@ const ImageGeneration: React.FC<ImageGenerationProps> = ({ documents, setDocumen
                         </div>
                     </div>
                      <button
-                        onClick={handleGenerate}
-                        disabled={!prompt || isLoading}
-                        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                        onClick={isLoading ? stopRequest : handleGenerate}
+                        disabled={!isLoading && !prompt}
+                        className={`w-full ${isLoading ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors`}
                     >
-                        {isLoading ? 'Generating...' : 'Generate Image'}
+                        {isLoading ? 'Stop' : 'Generate Image'}
                     </button>
                 </div>
 
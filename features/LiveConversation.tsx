@@ -1,12 +1,13 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 // FIX: import from @google/genai instead of @google/ai/generativelanguage
-import { LiveServerMessage, LiveSession, FunctionDeclaration, Type, FunctionCall } from '@google/genai';
+import { LiveServerMessage, LiveSession, FunctionCall } from '@google/genai';
 import { GeminiService } from '../services/geminiService.ts';
+import { LIVE_TOOLS, getToolDeclarations, runToolCall, toFunctionResponse, hasVisibleResult, renderToolOutput, type ToolContext, type ToolOutput } from '../services/tools/index.ts';
 import FeatureLayout from './common/FeatureLayout.tsx';
 // FIX: Rename `encode` to `base64Encode` on import to avoid name collisions.
-import { decode, decodeAudioData, createPcmBlob, fileToBase64, formatBytes, base64ToBlob, readFileContent, encode as base64Encode } from '../utils/helpers.ts';
-import { MicIcon, GlobeIcon, Volume2Icon, SaveIcon, PaperclipIcon, SendIcon, UploadIcon } from '../components/Icons.tsx';
+import { decode, decodeAudioData, createPcmBlob, fileToBase64, formatBytes, base64ToBlob, encode as base64Encode } from '../utils/helpers.ts';
+import { MicIcon, Volume2Icon, SaveIcon, PaperclipIcon, SendIcon, UploadIcon } from '../components/Icons.tsx';
 import useGeolocation from '../hooks/useGeolocation.ts';
 import type { GroundingSource, Persona } from '../types.ts';
 import MarkdownRenderer from '../components/MarkdownRenderer.tsx';
@@ -14,6 +15,8 @@ import Tooltip from '../components/Tooltip.tsx';
 import { dbService, StoredFile } from '../services/dbService.ts';
 import { parseError, FormattedError } from '../utils/errorUtils.ts';
 import ErrorDisplay from '../components/ErrorDisplay.tsx';
+import ToolApprovalCard from '../components/ToolApprovalCard.tsx';
+import useToolApprovals from '../hooks/useToolApprovals.ts';
 import { LIVE_VOICES } from '../constants.ts';
 
 type ConnectionState = 'idle' | 'connecting' | 'connected' | 'error' | 'closed' | 'reconnecting';
@@ -37,116 +40,6 @@ interface LiveConversationProps {
     setDocuments: React.Dispatch<React.SetStateAction<StoredFile[]>>;
 }
 
-const functionDeclarations: FunctionDeclaration[] = [
-    {
-        name: 'searchWeb',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'Search Google for recent and relevant information, including YouTube videos.',
-            properties: {
-                query: { type: Type.STRING, description: 'The search query.' },
-                useMaps: { type: Type.BOOLEAN, description: 'Set to true to also search Google Maps. Requires user location.' }
-            },
-            required: ['query'],
-        },
-    },
-    {
-        name: 'browseWebsite',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'Reads the content of a specific website URL and provides a summary. Use the full URL including "https://".',
-            properties: {
-                url: { type: Type.STRING, description: 'The full URL of the website to browse.' },
-            },
-            required: ['url'],
-        },
-    },
-    {
-        name: 'generateImage',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'Generates an image based on a textual description.',
-            properties: {
-                prompt: { type: Type.STRING, description: 'A detailed description of the image to generate.' },
-                style: { type: Type.STRING, description: 'The artistic style, e.g., "photorealistic", "anime", "cartoon".' },
-                negativePrompt: { type: Type.STRING, description: 'A description of things to avoid in the image.' },
-            },
-            required: ['prompt'],
-        },
-    },
-    {
-        name: 'listDocuments',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'List the documents available in the file library.',
-            properties: {},
-        },
-    },
-    {
-        name: 'analyzeFile',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'Analyze the content of a file. Use fileName for documents in the library, or analyze the file uploaded in this chat.',
-            properties: {
-                prompt: { type: Type.STRING, description: 'A detailed question or instruction for the analysis.' },
-                fileName: { type: Type.STRING, description: 'The name of the file from the file library to analyze.' },
-            },
-            required: ['prompt'],
-        },
-    },
-    {
-        name: 'createDocument',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'Creates a new text document with the given content and saves it to the file library.',
-            properties: {
-                fileName: { type: Type.STRING, description: 'The name of the file to create, e.g., "meeting-notes.txt".' },
-                content: { type: Type.STRING, description: 'The text content to write into the file.' },
-            },
-            required: ['fileName', 'content'],
-        },
-    },
-    {
-        name: 'createCharacter',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'Creates a new character persona and saves it for future use in chats.',
-            properties: {
-                role: { type: Type.STRING, description: "The character's name or primary role." },
-                personalityTraits: { type: Type.STRING, description: "A comma-separated list of key personality traits." },
-                physicalTraits: { type: Type.STRING, description: "A summary of the character's physical appearance." },
-                lore: { type: Type.STRING, description: "The character's background, history, or lore." },
-                characterDescription: { type: Type.STRING, description: "A short greeting or first message from the character." },
-                scenario: { type: Type.STRING, description: "The context or scenario for the conversation." },
-            },
-            required: ['role', 'personalityTraits', 'characterDescription'],
-        },
-    },
-    {
-        name: 'controlMediaPlayer',
-        parameters: {
-            type: Type.OBJECT,
-            description: 'Controls the audio or video player. Can play, pause, stop, seek to a timestamp, or set volume.',
-            properties: {
-                action: {
-                    type: Type.STRING,
-                    description: 'The action to perform: "play", "pause", "stop", "seek", "setVolume".',
-                    enum: ['play', 'pause', 'stop', 'seek', 'setVolume'],
-                },
-                timestamp: {
-                    type: Type.NUMBER,
-                    description: 'The time in seconds to seek to. Required only for the "seek" action.',
-                },
-                volume: {
-                    type: Type.NUMBER,
-                    description: 'The volume level from 0.0 to 1.0. Required only for the "setVolume" action.',
-                }
-            },
-            required: ['action'],
-        },
-    },
-];
-
 const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocuments }) => {
     const [connectionState, setConnectionState] = useState<ConnectionState>('idle');
     const [isPaused, setIsPaused] = useState(false);
@@ -157,10 +50,7 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
     const [fileUrl, setFileUrl] = useState<string | null>(null);
     const [textInput, setTextInput] = useState('');
     const [imageInput, setImageInput] = useState<File | null>(null);
-    const [analysisResult, setAnalysisResult] = useState<string | null>(null);
-    const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
-    const [youtubeVideoId, setYoutubeVideoId] = useState<string | null>(null);
-    const [sources, setSources] = useState<GroundingSource[]>([]);
+    const [toolOutput, setToolOutput] = useState<ToolOutput | null>(null); // Latest tool result worth showing
     const [isProcessingTool, setIsProcessingTool] = useState(false);
     const [micGain, setMicGain] = useState(1.0);
     const [outputGain, setOutputGain] = useState(1.0);
@@ -176,6 +66,7 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
     const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
     const mediaRef = useRef<HTMLVideoElement | HTMLAudioElement | null>(null);
     const location = useGeolocation();
+    const { pending: pendingApprovals, requestApproval, resolveApproval, declineAll: declinePendingApprovals } = useToolApprovals();
     const micGainNodeRef = useRef<GainNode | null>(null);
     const outputGainNodeRef = useRef<GainNode | null>(null);
     const transcriptEndRef = useRef<HTMLDivElement | null>(null);
@@ -217,10 +108,7 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
     }, [outputGain]);
 
     const clearOutputs = () => {
-        setAnalysisResult(null);
-        setSources([]);
-        setGeneratedImageUrl(null);
-        setYoutubeVideoId(null);
+        setToolOutput(null);
         setError(null);
     };
 
@@ -248,10 +136,12 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
         
         sourcesRef.current.forEach(source => source.stop());
         sourcesRef.current.clear();
+
+        declinePendingApprovals();
         
         setConnectionState('idle');
         setIsPaused(false);
-    }, []);
+    }, [declinePendingApprovals]);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
@@ -299,16 +189,16 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
     };
 
     const handleSaveSession = async () => {
-        if (transcripts.length === 0 && !analysisResult && !file && !generatedImageUrl) {
+        if (transcripts.length === 0 && !toolOutput && !file) {
             alert("Nothing to save.");
             return;
         }
 
         const sessionData: SessionData = {
             transcripts,
-            analysisResult,
-            sources,
-            generatedImageUrl,
+            analysisResult: toolOutput?.result.text || null,
+            sources: toolOutput?.result.sources || [],
+            generatedImageUrl: toolOutput?.result.imageUrl || null,
         };
 
         if (file) {
@@ -345,9 +235,13 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
             try {
                 const sessionData: SessionData = JSON.parse(event.target?.result as string);
                 setTranscripts(sessionData.transcripts || []);
-                setAnalysisResult(sessionData.analysisResult || null);
-                setSources(sessionData.sources || []);
-                setGeneratedImageUrl(sessionData.generatedImageUrl || null);
+                const restored: ToolOutput['result'] = {
+                    response: {},
+                    ...(sessionData.analysisResult && { text: sessionData.analysisResult }),
+                    ...(sessionData.sources?.length && { sources: sessionData.sources }),
+                    ...(sessionData.generatedImageUrl && { imageUrl: sessionData.generatedImageUrl }),
+                };
+                setToolOutput(hasVisibleResult(restored) ? { name: 'restored', result: restored } : null);
 
                 if (sessionData.fileInfo) {
                     const { data, type, name } = sessionData.fileInfo;
@@ -420,178 +314,35 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
     };
 
     const handleToolCall = async (functionCalls: FunctionCall[]) => {
-        setIsProcessingTool(true);
-        clearOutputs();
         const session = await sessionPromiseRef.current;
         if (!session) return;
-        
-        const activeDocuments = documents.filter(doc => !doc.isArchived);
-
-        for (const fc of functionCalls) {
-            const { name, args } = fc;
-            let result: any = { status: 'error', message: 'Unknown function' };
+        setIsProcessingTool(true);
+        clearOutputs();
 
-            try {
-                switch (name) {
-                    case 'searchWeb':
-                        const geo = (location.latitude && location.longitude) ? { latitude: location.latitude, longitude: location.longitude } : undefined;
-                        const searchResponse = await GeminiService.groundedSearch(args.query, args.useMaps, geo);
-                        const searchResultText = searchResponse.text;
-                        const groundingChunks = searchResponse.candidates?.[0]?.groundingMetadata?.groundingChunks;
-                        if (groundingChunks) {
-                            const newSources: GroundingSource[] = groundingChunks.map((chunk: any) => ({
-                                uri: chunk.web?.uri || chunk.maps?.uri || '#',
-                                title: chunk.web?.title || chunk.maps?.title || 'Unknown Source',
-                                type: chunk.web ? 'web' : 'maps'
-                            })).filter((s: GroundingSource) => s.uri !== '#');
-                            setSources(newSources);
-
-                            const youtubeSource = newSources.find(s => s.uri.includes('youtube.com/watch'));
-                            if (youtubeSource) {
-                                try {
-                                    const url = new URL(youtubeSource.uri);
-                                    const videoId = url.searchParams.get('v');
-                                    if (videoId) setYoutubeVideoId(videoId);
-                                } catch (e) { console.error("Error parsing YouTube URL", e); }
-                            }
-                        }
-                        setAnalysisResult(searchResultText);
-                        result = { status: 'success', summary: searchResultText };
-                        break;
-                    
-                    case 'browseWebsite':
-                        const browseSummary = await GeminiService.browseWebsite(args.url);
-                        setAnalysisResult(browseSummary);
-                        result = { status: 'success', summary: browseSummary };
-                        break;
-
-                    case 'generateImage':
-                        const fullPrompt = args.style ? `${args.prompt}, in the style of ${args.style}` : args.prompt;
-                        const images = await GeminiService.generateImage(fullPrompt, "16:9", args.negativePrompt);
-                        if (images.length > 0) {
-                            setGeneratedImageUrl(`data:image/jpeg;base64,${images[0]}`);
-                            result = { status: 'success', message: 'Image generated successfully.' };
-                        } else {
-                            result = { status: 'error', message: 'Image generation failed to return an image.' };
-                        }
-                        break;
-
-                    case 'listDocuments':
-                        if (activeDocuments.length === 0) {
-                            result = { status: 'success', message: "The file library is currently empty." };
-                        } else {
-                            result = { status: 'success', files: activeDocuments.map(f => f.name) };
-                        }
-                        break;
-
-                    case 'createDocument':
-                        await saveToLibrary(args.content, args.fileName, 'text');
-                        result = { status: 'success', message: `Document '${args.fileName}' saved to the library.` };
-                        break;
-                    
-                    case 'createCharacter':
-                        const newPersona: Persona = {
-                            id: crypto.randomUUID(),
-                            isActive: false, // Don't make it active immediately
-                            role: args.role || 'New AI Character',
-                            personalityTraits: args.personalityTraits || '',
-                            physicalTraits: args.physicalTraits || '',
-                            lore: args.lore || '',
-                            characterDescription: args.characterDescription || '',
-                            scenario: args.scenario || '',
-                            systemPrompt: '', 
-                            avatarUrl: '', 
-                            voice: '',
-                        };
-                        const currentPersonas = await dbService.getPersonas();
-                        if (currentPersonas.some(p => p.role === newPersona.role)) {
-                            result = { status: 'error', message: `A character named ${newPersona.role} already exists.` };
-                        } else {
-                            const updatedPersonas = [...currentPersonas, newPersona];
-                            await dbService.savePersonas(updatedPersonas);
-                            setPersonas(updatedPersonas); // Update local state
-                            result = { status: 'success', message: `Character ${newPersona.role} created successfully.` };
-                        }
-                        break;
-
-                    case 'analyzeFile':
-                        let fileToAnalyze: File | undefined = undefined;
-                        let fileSource: StoredFile | undefined = undefined;
-                        
-                        if (args.fileName) {
-                            fileSource = activeDocuments.find(doc => doc.name === args.fileName);
-                            if (!fileSource) {
-                                result = { status: 'error', message: `File "${args.fileName}" not found in the library.` };
-                                break;
-                            }
-                            const blob = base64ToBlob(fileSource.data, fileSource.type);
-                            fileToAnalyze = new File([blob], fileSource.name, {type: fileSource.type});
-
-                        } else if (file) {
-                            fileToAnalyze = file;
-                        }
-
-                        if (!fileToAnalyze) {
-                           result = { status: 'error', message: 'No file specified or uploaded. Please ask the user to upload a file or specify one from the library.' };
-                        } else {
-                            let analysisText = '';
-                            if (fileToAnalyze.type.startsWith('image/')) {
-                                const base64 = await fileToBase64(fileToAnalyze);
-                                analysisText = (await GeminiService.analyzeImage(args.prompt, base64, fileToAnalyze.type)).text;
-                            } else if (fileToAnalyze.type.startsWith('video/')) {
-                                const base64 = await fileToBase64(fileToAnalyze);
-                                analysisText = (await GeminiService.analyzeVideo(args.prompt, base64, fileToAnalyze.type)).text;
-                            } else if (fileToAnalyze.type.startsWith('audio/')) {
-                                const base64 = await fileToBase64(fileToAnalyze);
-                                analysisText = (await GeminiService.transcribeAudio(base64, fileToAnalyze.type)).text;
-                            } else if (fileToAnalyze.type.startsWith('text/')) {
-                                 const textContent = await readFileContent(fileToAnalyze);
-                                 analysisText = (await GeminiService.analyzeDocument(textContent, args.prompt)).text;
-                            } else {
-                                analysisText = `Unsupported file type for analysis: ${fileToAnalyze.type}.`;
-                            }
-                            setAnalysisResult(analysisText);
-                            result = { status: 'success', summary: analysisText };
-                        }
-                        break;
-                    
-                    case 'controlMediaPlayer':
-                        if (mediaRef.current) {
-                            switch(args.action) {
-                                case 'play': mediaRef.current.play(); break;
-                                case 'pause': mediaRef.current.pause(); break;
-                                case 'stop':
-                                    mediaRef.current.pause();
-                                    mediaRef.current.currentTime = 0;
-                                    break;
-                                case 'seek':
-                                    if (typeof args.timestamp === 'number') {
-                                        mediaRef.current.currentTime = args.timestamp;
-                                    }
-                                    break;
-                                case 'setVolume':
-                                     if (typeof args.volume === 'number' && args.volume >= 0 && args.volume <= 1) {
-                                        mediaRef.current.volume = args.volume;
-                                    }
-                                    break;
-                            }
-                            result = { status: 'success', action: args.action };
-                        } else {
-                            result = { status: 'error', message: 'No media is loaded.' };
-                        }
-                        break;
+        // Write and web tools ask first by default, so a voice session can't save files or characters unprompted.
+        const context: ToolContext = {
+            feature: 'live',
+            requestApproval,
+            files: documents.filter(doc => !doc.isArchived),
+            uploadedFile: file,
+            mediaElement: mediaRef.current,
+            personaId: activePersonaId,
+            location: location.latitude && location.longitude ? { latitude: location.latitude, longitude: location.longitude } : undefined,
+            onDocumentSaved: newFile => setDocuments(prev => [...prev.filter(d => d.name !== newFile.name), newFile]),
+        };
+        try {
+            for (const fc of functionCalls) {
+                const result = await runToolCall(fc, LIVE_TOOLS, context);
+                if (result.response.status === 'error') {
+                    setError(parseError(new Error(String(result.response.message))));
+                } else if (hasVisibleResult(result)) {
+                    setToolOutput({ name: fc.name || 'unknown', result });
                 }
-            } catch (e: any) {
-                console.error(`Error executing tool ${name}:`, e);
-                setError(parseError(e));
-                result = { status: 'error', message: e.message };
+                session.sendToolResponse({ functionResponses: toFunctionResponse(fc, result).functionResponse! });
             }
-            
-            session.sendToolResponse({
-                functionResponses: { id: fc.id, name: fc.name, response: { result } }
-            });
+        } finally {
+            setIsProcessingTool(false);
         }
-        setIsProcessingTool(false);
     };
 
     const handleStartConversation = useCallback(async (isRetry = false, customSystemInstruction?: string) => {
@@ -719,7 +470,7 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
                         setConnectionState('closed');
                     }
                 },
-            }, voiceName, [{ functionDeclarations }], finalSystemInstruction);
+            }, voiceName, [{ functionDeclarations: getToolDeclarations(LIVE_TOOLS) }], finalSystemInstruction);
 
             sessionPromiseRef.current = sessionPromise;
 
@@ -781,35 +532,12 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
         if (file.type.startsWith("video/")) return <video ref={mediaRef as React.RefObject<HTMLVideoElement>} src={fileUrl} controls className="w-full rounded-lg" />;
         // FIX: Cast mediaRef to the correct element type to resolve union type conflict.
         if (file.type.startsWith("audio/")) return <audio ref={mediaRef as React.RefObject<HTMLAudioElement>} src={fileUrl} controls className="w-full" />;
-        return <div className="text-center text-slate-300"> <p className="font-bold">{file.name}</p> <p className="text-sm">{formatBytes(file.size)}</p> d></div>;
+        return <div className="text-center text-slate-300"> <p className="font-bold">{file.name}</p> <p className="text-sm">{formatBytes(file.size)}</p> </div>;
     };
     
     const renderOutput = () => {
         if (isProcessingTool) return <p className="text-slate-400">Processing request...</p>;
-        if (youtubeVideoId) return (
-            <div className="aspect-video">
-                <iframe
-                    width="100%"
-                    height="100%"
-                    src={`https://www.youtube.com/embed/${youtubeVideoId}?autoplay=1`}
-                    title="YouTube video player"
-                    frameBorder="0"
-                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                    allowFullScreen
-                    className="rounded-lg"
-                ></iframe>
-            </div>
-        );
-        if (generatedImageUrl) return (
-            <div className="relative group">
-                <img src={generatedImageUrl} alt="Generated by AI" className="max-w-full max-h-full object-contain rounded-lg mx-auto" />
-                <button onClick={() => saveToLibrary(generatedImageUrl, 'generated-image.jpg', 'image')} className="absolute top-2 right-2 bg-slate-900/50 hover:bg-blue-600 text-white p-2 rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
-                    <SaveIcon />
-                </button>
-            </div>
-        );
-        if (analysisResult) return <MarkdownRenderer content={analysisResult} />;
-        if (sources.length > 0) return null; // Rendered below
+        if (toolOutput) return renderToolOutput(toolOutput);
         return <p className="text-slate-500">Results from tools will appear here.</p>;
     }
 
@@ -896,17 +624,14 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
                     <div className="flex-grow bg-slate-800/50 rounded-lg p-4 overflow-y-auto min-h-0">
                         <div className="flex justify-between items-center mb-2 pb-2 border-b border-slate-700">
                             <h3 className="text-lg font-semibold text-slate-300">Analysis & Tool Results</h3>
-                             {analysisResult && (
-                                <button onClick={() => saveToLibrary(analysisResult, 'analysis-result.txt', 'text')} className="text-slate-400 hover:text-white p-1 rounded-full"><SaveIcon /></button>
+                             {toolOutput?.result.text ? (
+                                <button onClick={() => saveToLibrary(toolOutput.result.text!, 'analysis-result.txt', 'text')} className="text-slate-400 hover:text-white p-1 rounded-full"><SaveIcon /></button>
+                             ) : toolOutput?.result.imageUrl && (
+                                <button onClick={() => saveToLibrary(toolOutput.result.imageUrl!, 'generated-image.jpg', 'image')} className="text-slate-400 hover:text-white p-1 rounded-full"><SaveIcon /></button>
                              )}
                         </div>
+                        {pendingApprovals.map(approval => <ToolApprovalCard key={approval.id} approval={approval} onResolve={resolveApproval} />)}
                         {renderOutput()}
-                        {sources.length > 0 && (
-                            <div className="mt-4">
-                                <h4 className="font-semibold text-slate-400">Sources:</h4>
-                                <ul className="space-y-1 mt-1">{sources.map((s, i) => <li key={i} className="flex items-start space-x-2"><GlobeIcon /><a href={s.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline text-sm truncate">{s.title}</a></li>)}</ul>
-                            </div>
-                        )}
                     </div>
                     <div className="flex-grow bg-slate-800/50 rounded-lg p-4 overflow-y-auto min-h-0 flex flex-col">
                         <div className="flex justify-between items-center mb-2 pb-2 border-b border-slate-700 flex-shrink-0">
@@ -919,7 +644,7 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ documents, setDocum
                             {transcripts.map((t, i) => (
                                 <div key={i} className="mb-3">
                                     <p className="text-blue-300 font-semibold">You:</p><p className="text-slate-300 ml-2">{t.user}</p>
-                                    <p className="text-green-300 font-semibold mt-1">Gemini:</p><p className="text-slate-300 ml-2">{t.model}</p>
+                                    <p className="text-green-300 font-semibold mt-1">Gemini:</p><div className="ml-2"><MarkdownRenderer content={t.model} /></div>
                                 </div>
                             ))}
                             {(currentInterim.user || currentInterim.model) && (
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import FeatureLayout from './common/FeatureLayout.tsx';
+import { dbService } from '../services/dbService.ts';
+import { GeminiService } from '../services/geminiService.ts';
+import type { Memory, Persona } from '../types.ts';
+import { EditIcon, TrashIcon } from '../components/Icons.tsx';
+import Spinner from '../components/Spinner.tsx';
+import ErrorDisplay from '../components/ErrorDisplay.tsx';
+import { parseError, FormattedError } from '../utils/errorUtils.ts';
+
+const ALL = '__all__';
+const GLOBAL = '__global__'; // Memories without an associated persona
+
+const MemoryManager: React.FC = () => {
+    const [memories, setMemories] = useState<Memory[]>([]);
+    const [personas, setPersonas] = useState<Persona[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [search, setSearch] = useState('');
+    const [tagFilter, setTagFilter] = useState(ALL);
+    const [personaFilter, setPersonaFilter] = useState(ALL);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editContent, setEditContent] = useState('');
+    const [editTags, setEditTags] = useState('');
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [error, setError] = useState<FormattedError | null>(null);
+
+    useEffect(() => {
+        Promise.all([dbService.getMemories(), dbService.getPersonas()])
+            .then(([savedMemories, savedPersonas]) => {
+                setMemories(savedMemories);
+                setPersonas(savedPersonas);
+            })
+            .catch(err => setError(parseError(err)))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const allTags = useMemo(() => Array.from(new Set(memories.flatMap(m => m.tags))).sort(), [memories]);
+
+    const personaName = (id?: string) => {
+        if (!id) return 'Global';
+        return personas.find(p => p.id === id)?.role || 'Deleted persona';
+    };
+
+    const visible = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return memories
+            .filter(m => !query || m.content.toLowerCase().includes(query) || m.tags.some(t => t.toLowerCase().includes(query)))
+            .filter(m => tagFilter === ALL || m.tags.includes(tagFilter))
+            .filter(m => personaFilter === ALL || (personaFilter === GLOBAL ? !m.associatedPersonaId : m.associatedPersonaId === personaFilter))
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }, [memories, search, tagFilter, personaFilter]);
+
+    const allVisibleSelected = visible.length > 0 && visible.every(m => selectedIds.has(m.id));
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const toggleSelectAll = () => {
+        setSelectedIds(allVisibleSelected ? new Set() : new Set(visible.map(m => m.id)));
+    };
+
+    const startEditing = (memory: Memory) => {
+        setEditingId(memory.id);
+        setEditContent(memory.content);
+        setEditTags(memory.tags.join(', '));
+    };
+
+    // Content changes are re-embedded so retrieval matches what the memory now says.
+    const handleSaveEdit = async (memory: Memory) => {
+        const content = editContent.trim();
+        if (!content) return;
+        setSavingId(memory.id);
+        setError(null);
+        try {
+            const embedding = content === memory.content ? memory.embedding : await GeminiService.getEmbedding(content);
+            const updated: Memory = {
+                ...memory,
+                content,
+                embedding,
+                tags: editTags.split(',').map(t => t.trim()).filter(Boolean),
+            };
+            await dbService.updateMemory(updated);
+            setMemories(prev => prev.map(m => m.id === memory.id ? updated : m));
+            setEditingId(null);
+        } catch (err) {
+            setError(parseError(err));
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const deleteMemories = async (ids: string[]) => {
+        setError(null);
+        try {
+            await dbService.deleteMemories(ids);
+            setMemories(prev => prev.filter(m => !ids.includes(m.id)));
+            setSelectedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+        } catch (err) {
+            setError(parseError(err));
+        }
+    };
+
+    const handleDelete = (memory: Memory) => {
+        if (!window.confirm("Delete this memory?")) return;
+        deleteMemories([memory.id]);
+    };
+
+    const handleBulkDelete = () => {
+        if (selectedIds.size === 0 || !window.confirm(`Delete ${selectedIds.size} selected memories?`)) return;
+        deleteMemories([...selectedIds]);
+    };
+
+    const selectClass = "bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+    return (
+        <FeatureLayout title="Memory Manager" description="Review, correct or remove the long-term memories the chat recalls.">
+            <div className="max-w-4xl mx-auto">
+                <div className="flex flex-col md:flex-row gap-2 mb-4">
+                    <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search memories..." className={`${selectClass} flex-grow`} />
+                    <select value={tagFilter} onChange={e => setTagFilter(e.target.value)} className={selectClass} aria-label="Filter by tag">
+                        <option value={ALL}>All tags</option>
+                        {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                    </select>
+                    <select value={personaFilter} onChange={e => setPersonaFilter(e.target.value)} className={selectClass} aria-label="Filter by persona">
+                        <option value={ALL}>All personas</option>
+                        <option value={GLOBAL}>Global</option>
+                        {personas.map(p => <option key={p.id} value={p.id}>{p.role}</option>)}
+                    </select>
+                </div>
+                <div className="flex items-center justify-between mb-3 text-sm text-slate-400">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={allVisibleSelected} onChange={toggleSelectAll} className="accent-blue-500" />
+                        {visible.length} of {memories.length} memories
+                    </label>
+                    <button onClick={handleBulkDelete} disabled={selectedIds.size === 0} className="flex items-center gap-1 text-red-400 hover:text-red-300 disabled:text-slate-600">
+                        Delete selected ({selectedIds.size})
+                    </button>
+                </div>
+                {error && <div className="mb-4"><ErrorDisplay error={error} onDismiss={() => setError(null)} /></div>}
+                {isLoading ? (
+                    <Spinner text="Decrypting memories..." />
+                ) : visible.length === 0 ? (
+                    <p className="text-center text-slate-500 py-8">{memories.length === 0 ? 'No memories yet. Use /memory in Chat to save one.' : 'No memories match these filters.'}</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {visible.map(memory => (
+                            <li key={memory.id} className="flex items-start gap-3 p-4 bg-slate-800 rounded-lg">
+                                <input type="checkbox" checked={selectedIds.has(memory.id)} onChange={() => toggleSelected(memory.id)} className="mt-1 accent-blue-500" aria-label="Select memory" />
+                                <div className="flex-grow min-w-0">
+                                    {editingId === memory.id ? (
+                                        <div className="flex flex-col gap-2">
+                                            <textarea value={editContent} onChange={e => setEditContent(e.target.value)} rows={4} className="w-full bg-slate-900 text-white p-2 rounded-lg text-sm" />
+                                            <input type="text" value={editTags} onChange={e => setEditTags(e.target.value)} placeholder="Tags, comma separated" className="w-full bg-slate-900 text-white p-2 rounded-lg text-sm" />
+                                            <div className="flex justify-end gap-2">
+                                                <button onClick={() => setEditingId(null)} className="text-xs hover:underline">Cancel</button>
+                                                <button onClick={() => handleSaveEdit(memory)} disabled={savingId === memory.id} className="text-xs bg-green-600 hover:bg-green-700 disabled:bg-slate-600 px-2 py-1 rounded text-white">
+                                                    {savingId === memory.id ? 'Re-embedding...' : 'Save'}
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <p className="text-slate-200 text-sm whitespace-pre-wrap break-words">{memory.content}</p>
+                                            <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                                                {memory.tags.map(tag => <span key={tag} className="bg-slate-700 text-slate-300 px-2 py-0.5 rounded-full">{tag}</span>)}
+                                                <span className="text-slate-500">{personaName(memory.associatedPersonaId)} · {new Date(memory.timestamp).toLocaleString()}</span>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                                {editingId !== memory.id && (
+                                    <div className="flex items-center space-x-2 flex-shrink-0">
+                                        <button onClick={() => startEditing(memory)} className="text-slate-400 hover:text-white p-2" title="Edit"><EditIcon /></button>
+                                        <button onClick={() => handleDelete(memory)} className="text-slate-400 hover:text-red-500 p-2" title="Delete"><TrashIcon /></button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </FeatureLayout>
+    );
+};
+
+export default MemoryManager;
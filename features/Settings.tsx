@@ -7,41 +7,22 @@ import { DownloadIcon, UploadIcon, EditIcon, TrashIcon, ShareIcon } from '../com
 import { Persona } from '../types.ts';
 import PersonaConfigModal from './common/PersonaConfigModal.tsx';
 import PasswordPromptModal from '../components/PasswordPromptModal.tsx';
+import ApiKeySettings from './settings/ApiKeySettings.tsx';
+import ProviderSettings from './settings/ProviderSettings.tsx';
+import ModelSettings from './settings/ModelSettings.tsx';
+import MemorySettings from './settings/MemorySettings.tsx';
+import ContextBudgetSettings from './settings/ContextBudgetSettings.tsx';
+import WorldInfoSettings from './settings/WorldInfoSettings.tsx';
+import PluginSettings from './settings/PluginSettings.tsx';
+import ToolSettings from './settings/ToolSettings.tsx';
+import PasswordSettings from './settings/PasswordSettings.tsx';
+import RecoveryKeySettings from './settings/RecoveryKeySettings.tsx';
+import LockSettings from './settings/LockSettings.tsx';
+import IntegritySettings from './settings/IntegritySettings.tsx';
 import { LIVE_VOICES } from '../constants.ts';
-
-const findJsonInPng = (arrayBuffer: ArrayBuffer): string | null => {
-    const dataView = new DataView(arrayBuffer);
-    if (dataView.getUint32(0) !== 0x89504E47) return null;
-
-    let offset = 8;
-    const decoderLatin1 = new TextDecoder('latin1');
-    while (offset < dataView.byteLength) {
-        const length = dataView.getUint32(offset);
-        const type = new TextDecoder().decode(new Uint8Array(arrayBuffer, offset + 4, 4));
-        if (type === 'tEXt') {
-            const chunkData = new Uint8Array(arrayBuffer, offset + 8, length);
-            const text = decoderLatin1.decode(chunkData);
-            const splitIndex = text.indexOf('\0');
-            if (splitIndex > -1) {
-                const keyword = text.substring(0, splitIndex);
-                if (keyword === 'chara') return atob(text.substring(splitIndex + 1));
-            }
-        }
-        if (type === 'IEND') break;
-        offset += 12 + length; 
-    }
-    return null;
-};
-
-const processLorebook = (characterBook: any): string => {
-    if (!characterBook || !characterBook.entries) return '';
-    let loreText = '\n\n[World Info / Lorebook]:\n';
-    characterBook.entries.forEach((entry: any) => {
-        if (entry.enabled === false) return;
-        loreText += `\n--- ${entry.name || 'Entry'} ---\nKeywords: ${entry.keys?.join(', ') || ''}\n${entry.content || ''}\n`;
-    });
-    return loreText;
-};
+import { fileToBase64 } from '../utils/helpers.ts';
+import { parseLorebook } from '../utils/worldInfo.ts';
+import { findJsonInPng, toCharacterCard, createCardPng, getCardExtensions, type CardVersion } from '../utils/characterCard.ts';
 
 const Settings: React.FC = () => {
     const [isExporting, setIsExporting] = useState(false);
@@ -54,6 +35,7 @@ const Settings: React.FC = () => {
     const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
     const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
     const [passwordModalConfig, setPasswordModalConfig] = useState<any>({});
+    const [exportMenuId, setExportMenuId] = useState<string | null>(null);
 
     useEffect(() => {
         dbService.getPersonas().then(setPersonas);
@@ -148,15 +130,18 @@ const Settings: React.FC = () => {
             if (!data) throw new Error("Empty character file.");
 
             let imported: Partial<Persona> = {};
-            if (data.spec === 'chara_card_v2' && data.data) {
+            if ((data.spec === 'chara_card_v2' || data.spec === 'chara_card_v3') && data.data) {
                 const d = data.data;
                 imported = {
                     role: d.name,
                     characterDescription: d.first_mes,
                     personalityTraits: d.personality,
+                    physicalTraits: getCardExtensions(d).physicalTraits,
+                    voice: getCardExtensions(d).voice,
                     scenario: d.scenario,
-                    lore: (d.description || '') + processLorebook(d.character_book),
-                    systemPrompt: d.mes_example
+                    lore: d.description || '',
+                    characterBook: parseLorebook(d.character_book, `${d.name || 'Character'} Lorebook`) || undefined,
+                    systemPrompt: d.system_prompt || d.mes_example
                 };
             } else if (data.name || data.char_name) {
                 imported = {
@@ -183,8 +168,9 @@ const Settings: React.FC = () => {
                 characterDescription: imported.characterDescription || '',
                 scenario: imported.scenario || '',
                 systemPrompt: imported.systemPrompt || '',
-                avatarUrl: '',
-                voice: ''
+                avatarUrl: file.name.endsWith('.png') ? `data:image/png;base64,${await fileToBase64(file)}` : '',
+                voice: imported.voice || '',
+                ...(imported.characterBook && { characterBook: imported.characterBook })
             };
             await handleSavePersona(complete);
             setSuccess(`Imported "${complete.role}"`);
@@ -192,9 +178,27 @@ const Settings: React.FC = () => {
         event.target.value = '';
     };
 
+    const handleExportCharacter = async (persona: Persona, format: 'png' | CardVersion) => {
+        setExportMenuId(null);
+        setError(null); setSuccess(null);
+        try {
+            const blob = format === 'png'
+                ? await createCardPng(persona)
+                : new Blob([JSON.stringify(toCharacterCard(persona, format), null, 2)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `${persona.role.replace(/[^\w\- ]+/g, '_') || 'character'}${format === 'png' ? '.png' : `.${format}.json`}`;
+            a.click();
+            URL.revokeObjectURL(url);
+            setSuccess(`Exported "${persona.role}"`);
+        } catch (err: any) { setError(err.message); }
+    };
+
     return (
         <FeatureLayout title="Settings" description="Manage characters and data.">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <ApiKeySettings />
                 <div className="bg-slate-800/50 rounded-lg p-6 flex flex-col h-[500px]">
                     <h2 className="text-xl font-bold mb-3 text-white">Characters</h2>
                     <div className="flex-grow overflow-y-auto pr-2 space-y-2">
@@ -209,9 +213,17 @@ const Settings: React.FC = () => {
                                         <p className="text-xs text-slate-400 truncate">{p.personalityTraits || 'No traits set'}</p>
                                     </div>
                                 </div>
-                                <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={e => e.stopPropagation()}>
+                                <div className={`relative flex items-center space-x-1 transition-opacity ${exportMenuId === p.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`} onClick={e => e.stopPropagation()}>
                                     {!p.isActive && <button onClick={(e) => handleSetActive(e, p.id)} className="text-xs bg-green-600 text-white px-2 py-1 rounded">Set</button>}
+                                    <button onClick={() => setExportMenuId(exportMenuId === p.id ? null : p.id)} className="p-2 hover:bg-slate-600 rounded" title="Export card"><ShareIcon/></button>
                                     <button onClick={(e) => handleDeletePersona(e, p.id)} className="p-2 hover:bg-red-600 rounded"><TrashIcon/></button>
+                                    {exportMenuId === p.id && (
+                                        <div className="absolute right-0 top-full mt-1 z-10 bg-slate-800 border border-slate-700 rounded-lg shadow-lg py-1 text-sm w-40">
+                                            <button onClick={() => handleExportCharacter(p, 'png')} className="block w-full text-left px-3 py-1.5 hover:bg-slate-700">PNG card</button>
+                                            <button onClick={() => handleExportCharacter(p, 'v2')} className="block w-full text-left px-3 py-1.5 hover:bg-slate-700">JSON (Card V2)</button>
+                                            <button onClick={() => handleExportCharacter(p, 'v3')} className="block w-full text-left px-3 py-1.5 hover:bg-slate-700">JSON (Card V3)</button>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         ))}
@@ -240,6 +252,17 @@ const Settings: React.FC = () => {
                         </div>
                     </div>
                 </div>
+                <ProviderSettings />
+                <ModelSettings />
+                <MemorySettings />
+                <ContextBudgetSettings />
+                <WorldInfoSettings personas={personas} onSavePersona={handleSavePersona} />
+                <PluginSettings />
+                <ToolSettings />
+                <PasswordSettings />
+                <RecoveryKeySettings />
+                <LockSettings />
+                <IntegritySettings />
             </div>
             {isPersonaModalOpen && editingPersona && (
                 <PersonaConfigModal isOpen={isPersonaModalOpen} onClose={() => setIsPersonaModalOpen(false)} initialPersona={editingPersona} onSave={handleSavePersona} />
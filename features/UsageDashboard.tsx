@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import FeatureLayout from './common/FeatureLayout.tsx';
+import UsageSettingsPanel from './usage/UsageSettingsPanel.tsx';
+import { usageService, costOf, findPrice, USAGE_EVENT, type BudgetStatus } from '../services/usageService.ts';
+import type { UsageRecord } from '../types.ts';
+import { TrashIcon } from '../components/Icons.tsx';
+import Spinner from '../components/Spinner.tsx';
+import ErrorDisplay from '../components/ErrorDisplay.tsx';
+import { parseError, FormattedError } from '../utils/errorUtils.ts';
+import { toDayKey } from '../utils/helpers.ts';
+
+const FEATURE_LABELS: Record<UsageRecord['feature'], string> = {
+    'live': 'Live Conversation',
+    'chat': 'Chat',
+    'reasoning': 'Complex Reasoning',
+    'grounding': 'Grounded Search',
+    'image-analysis': 'Image Analysis',
+    'image-gen': 'Image Generation',
+    'video-analysis': 'Video Analysis',
+    'audio-transcription': 'Audio Transcription',
+    'file-library': 'File Library',
+    'settings': 'Persona Assistant',
+    'embedding': 'Embeddings',
+};
+
+const RANGE_DAYS = [7, 30, 90];
+
+interface UsageTotals {
+    requests: number;
+    errors: number;
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    timedRequests: number; // Live turns have no latency
+    latencyMs: number;
+    cost: number;
+}
+
+const EMPTY_TOTALS: UsageTotals = { requests: 0, errors: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, timedRequests: 0, latencyMs: 0, cost: 0 };
+
+const addRecord = (totals: UsageTotals, record: UsageRecord): UsageTotals => ({
+    requests: totals.requests + 1,
+    errors: totals.errors + (record.status === 'error' ? 1 : 0),
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    thinkingTokens: totals.thinkingTokens + record.thinkingTokens,
+    timedRequests: totals.timedRequests + (record.latencyMs > 0 ? 1 : 0),
+    latencyMs: totals.latencyMs + record.latencyMs,
+    cost: totals.cost + costOf(record),
+});
+
+const totalsBy = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): Map<string, UsageTotals> => {
+    const groups = new Map<string, UsageTotals>();
+    for (const record of records) {
+        const key = keyOf(record);
+        groups.set(key, addRecord(groups.get(key) || EMPTY_TOTALS, record));
+    }
+    return groups;
+};
+
+const formatCost = (cost: number) => cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+
+const formatLatency = (totals: UsageTotals) => totals.timedRequests > 0 ? `${(totals.latencyMs / totals.timedRequests / 1000).toFixed(1)}s` : '—';
+
+const TotalsTable: React.FC<{ heading: string; rows: [string, UsageTotals][] }> = ({ heading, rows }) => (
+    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-sm text-left">
+            <thead className="text-slate-400 sticky top-0 bg-slate-900">
+                <tr>
+                    <th className="py-2 pr-4 font-medium">{heading}</th>
+                    <th className="py-2 pr-4 font-medium text-right">Requests</th>
+                    <th className="py-2 pr-4 font-medium text-right">Input</th>
+                    <th className="py-2 pr-4 font-medium text-right">Output</th>
+                    <th className="py-2 pr-4 font-medium text-right">Thinking</th>
+                    <th className="py-2 pr-4 font-medium text-right">Avg latency</th>
+                    <th className="py-2 font-medium text-right">Cost</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(([label, totals]) => (
+                    <tr key={label} className="border-t border-slate-800 text-slate-300">
+                        <td className="py-2 pr-4">{label}</td>
+                        <td className="py-2 pr-4 text-right">
+                            {totals.requests.toLocaleString()}
+                            {totals.errors > 0 && <span className="text-red-400" title="Failed requests"> ({totals.errors} failed)</span>}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{totals.inputTokens.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{totals.outputTokens.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{totals.thinkingTokens.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{formatLatency(totals)}</td>
+                        <td className="py-2 text-right">{formatCost(totals.cost)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const StatCard: React.FC<{ label: string; value: string; detail?: React.ReactNode }> = ({ label, value, detail }) => (
+    <div className="bg-slate-800 rounded-lg p-4">
+        <p className="text-sm text-slate-400">{label}</p>
+        <p className="text-2xl font-bold text-white mt-1">{value}</p>
+        {detail && <div className="text-xs text-slate-400 mt-1">{detail}</div>}
+    </div>
+);
+
+const UsageDashboard: React.FC = () => {
+    const [rangeDays, setRangeDays] = useState(30);
+    const [records, setRecords] = useState<UsageRecord[]>([]);
+    const [budget, setBudget] = useState<BudgetStatus | null>(() => usageService.getBudgetStatus());
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<FormattedError | null>(null);
+
+    // Re-read whenever a request is recorded or prices change, so the totals stay live.
+    useEffect(() => {
+        const fromDay = toDayKey(Date.now() - (rangeDays - 1) * 24 * 60 * 60 * 1000);
+        const load = () => {
+            setBudget(usageService.getBudgetStatus());
+            usageService.getRecords(fromDay)
+                .then(setRecords)
+                .catch(err => setError(parseError(err)))
+                .finally(() => setIsLoading(false));
+        };
+        load();
+        window.addEventListener(USAGE_EVENT, load);
+        return () => window.removeEventListener(USAGE_EVENT, load);
+    }, [rangeDays]);
+
+    const totals = useMemo(() => records.reduce(addRecord, EMPTY_TOTALS), [records]);
+    const byDay = useMemo(() => [...totalsBy(records, r => toDayKey(r.timestamp))].sort(([a], [b]) => b.localeCompare(a)), [records]);
+    const byFeature = useMemo(
+        () => [...totalsBy(records, r => r.feature)]
+            .sort(([, a], [, b]) => b.cost - a.cost || b.requests - a.requests)
+            .map(([feature, t]): [string, UsageTotals] => [FEATURE_LABELS[feature as UsageRecord['feature']] || feature, t]),
+        [records],
+    );
+    const unpricedModels = useMemo(
+        () => Array.from(new Set(records.filter(r => r.inputTokens + r.outputTokens > 0 && !findPrice(r.model)).map(r => r.model))),
+        [records],
+    );
+
+    const handleClear = async () => {
+        if (!window.confirm("Delete all recorded usage? Prices and the budget are kept.")) return;
+        try {
+            await usageService.clear();
+        } catch (err) {
+            setError(parseError(err));
+        }
+    };
+
+    const selectClass = "bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+    return (
+        <FeatureLayout
+            title="Usage"
+            description="Requests, tokens and estimated cost of every model call, by day and by feature."
+            actions={
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <select value={rangeDays} onChange={e => setRangeDays(Number(e.target.value))} className={selectClass} aria-label="Time range">
+                        {RANGE_DAYS.map(days => <option key={days} value={days}>Last {days} days</option>)}
+                    </select>
+                    <button onClick={handleClear} className="text-slate-400 hover:text-red-500 p-2" title="Clear usage history"><TrashIcon /></button>
+                </div>
+            }
+        >
+            <div className="max-w-5xl mx-auto space-y-6">
+                {error && <ErrorDisplay error={error} onDismiss={() => setError(null)} />}
+                {isLoading ? (
+                    <Spinner text="Decrypting usage..." />
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                            <StatCard label="Requests" value={totals.requests.toLocaleString()} detail={totals.errors > 0 && `${totals.errors} failed`} />
+                            <StatCard label="Tokens" value={(totals.inputTokens + totals.outputTokens + totals.thinkingTokens).toLocaleString()} detail={`${totals.inputTokens.toLocaleString()} in · ${totals.outputTokens.toLocaleString()} out · ${totals.thinkingTokens.toLocaleString()} thinking`} />
+                            <StatCard label="Estimated cost" value={formatCost(totals.cost)} detail={`Last ${rangeDays} days`} />
+                            <StatCard
+                                label="This month"
+                                value={budget ? `${formatCost(budget.spent)} / $${budget.limit.toFixed(2)}` : 'No budget'}
+                                detail={budget && (
+                                    <div className="h-2 rounded-full overflow-hidden bg-slate-700 mt-2" role="meter" aria-label="Monthly budget used" aria-valuemin={0} aria-valuemax={budget.limit} aria-valuenow={budget.spent}>
+                                        <div className={budget.exceeded ? 'h-full bg-red-500' : 'h-full bg-blue-500'} style={{ width: `${Math.min(100, (budget.spent / budget.limit) * 100)}%` }} />
+                                    </div>
+                                )}
+                            />
+                        </div>
+
+                        {unpricedModels.length > 0 && (
+                            <p className="text-sm text-amber-300">No price is set for {unpricedModels.join(', ')}, so their usage counts as free. Add a row below if that is wrong.</p>
+                        )}
+
+                        {records.length === 0 ? (
+                            <p className="text-center text-slate-500 py-8">No requests recorded in the last {rangeDays} days.</p>
+                        ) : (
+                            <div className="grid grid-cols-1 gap-6">
+                                <section>
+                                    <h2 className="text-lg font-semibold text-white mb-2">By feature</h2>
+                                    <TotalsTable heading="Feature" rows={byFeature} />
+                                </section>
+                                <section>
+                                    <h2 className="text-lg font-semibold text-white mb-2">By day</h2>
+                                    <TotalsTable heading="Day" rows={byDay} />
+                                </section>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                <UsageSettingsPanel />
+            </div>
+        </FeatureLayout>
+    );
+};
+
+export default UsageDashboard;
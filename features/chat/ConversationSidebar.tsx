@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { ConversationMeta } from '../../types.ts';
+import { PlusIcon, EditIcon, CopyIcon, ArchiveIcon, TrashIcon } from '../../components/Icons.tsx';
+
+interface ConversationSidebarProps {
+    conversations: ConversationMeta[];
+    activeConversationId: string | null;
+    onSelect: (id: string) => void;
+    onCreate: () => void;
+    onRename: (id: string, title: string) => void;
+    onDuplicate: (id: string) => void;
+    onToggleArchive: (id: string) => void;
+    onDelete: (id: string) => void;
+    // Below the md breakpoint the sidebar is a drawer, shown only while open.
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ conversations, activeConversationId, onSelect, onCreate, onRename, onDuplicate, onToggleArchive, onDelete, isOpen, onClose }) => {
+    const [showArchived, setShowArchived] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameInput, setRenameInput] = useState('');
+
+    const visible = conversations
+        .filter(c => c.isArchived === showArchived)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    const startRename = (c: ConversationMeta) => {
+        setRenamingId(c.id);
+        setRenameInput(c.title);
+    };
+
+    const commitRename = () => {
+        if (renamingId && renameInput.trim()) onRename(renamingId, renameInput.trim());
+        setRenamingId(null);
+    };
+
+    return (
+        <>
+            {isOpen && <div className="md:hidden fixed inset-0 z-30 bg-black/50" onClick={onClose} aria-hidden="true" />}
+            <aside className={`${isOpen ? 'fixed inset-y-0 left-0 z-40 flex w-64 bg-slate-900 shadow-xl' : 'hidden'} md:static md:z-auto md:flex md:w-56 md:bg-slate-800/50 md:shadow-none flex-shrink-0 flex-col rounded-lg p-2`}>
+                <button onClick={() => { onCreate(); onClose(); }} className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-3 rounded-lg text-sm mb-2">
+                    <PlusIcon /> New Chat
+                </button>
+                <div className="flex text-xs mb-2 bg-slate-900/50 rounded-lg p-1">
+                    <button onClick={() => setShowArchived(false)} className={`flex-1 py-1 rounded ${!showArchived ? 'bg-slate-700 text-white' : 'text-slate-400'}`}>Active</button>
+                    <button onClick={() => setShowArchived(true)} className={`flex-1 py-1 rounded ${showArchived ? 'bg-slate-700 text-white' : 'text-slate-400'}`}>Archived</button>
+                </div>
+                <ul className="flex-grow overflow-y-auto space-y-1">
+                    {visible.length === 0 && <li className="text-xs text-slate-500 text-center py-4">{showArchived ? 'No archived chats.' : 'No chats yet.'}</li>}
+                    {visible.map(c => (
+                        <li key={c.id} className={`group rounded-lg ${c.id === activeConversationId ? 'bg-blue-600/30' : 'hover:bg-slate-700/50'}`}>
+                            {renamingId === c.id ? (
+                                <input
+                                    autoFocus
+                                    value={renameInput}
+                                    onChange={e => setRenameInput(e.target.value)}
+                                    onBlur={commitRename}
+                                    onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                                    className="w-full bg-slate-900 text-white text-sm p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            ) : (
+                                <div className="flex items-center">
+                                    <button onClick={() => { onSelect(c.id); onClose(); }} className="flex-grow min-w-0 text-left p-2">
+                                        <p className="text-sm text-white truncate">{c.title}</p>
+                                        <p className="text-xs text-slate-500">{c.messageCount} messages · {new Date(c.updatedAt).toLocaleDateString()}</p>
+                                    </button>
+                                    {/* Always shown in the drawer, since touch screens have no hover. */}
+                                    <div className="flex md:hidden md:group-hover:flex items-center gap-1 pr-1 text-slate-400">
+                                        <button onClick={() => startRename(c)} className="hover:text-white scale-75" title="Rename"><EditIcon /></button>
+                                        <button onClick={() => onDuplicate(c.id)} className="hover:text-white" title="Duplicate"><CopyIcon /></button>
+                                        <button onClick={() => onToggleArchive(c.id)} className="hover:text-white scale-75" title={c.isArchived ? 'Unarchive' : 'Archive'}><ArchiveIcon /></button>
+                                        <button onClick={() => onDelete(c.id)} className="hover:text-red-400 scale-75" title="Delete"><TrashIcon /></button>
+                                    </div>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </aside>
+        </>
+    );
+};
+
+export default ConversationSidebar;
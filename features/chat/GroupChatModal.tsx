@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import type { GroupChatSettings, GroupTurnStrategy, Persona } from '../../types.ts';
+import { XIcon } from '../../components/Icons.tsx';
+import { createGroupSettings, MAX_GROUP_TURNS } from '../../utils/groupChat.ts';
+
+interface GroupChatModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  personas: Persona[];
+  activePersonaId: string;
+  settings?: GroupChatSettings;
+  onSave: (settings: GroupChatSettings | undefined) => void;
+}
+
+const strategyLabels: Record<GroupTurnStrategy, { name: string; description: string }> = {
+  'round-robin': { name: 'Round robin', description: 'Characters take turns in the order listed.' },
+  'mention': { name: 'Mentions', description: 'Whoever is named in the last message answers next; otherwise the turn returns to you.' },
+  'narrator': { name: 'Narrator', description: 'A narrator model reads the conversation and picks who speaks next.' },
+};
+
+const GroupChatModal: React.FC<GroupChatModalProps> = ({ isOpen, onClose, personas, activePersonaId, settings, onSave }) => {
+  const [draft, setDraft] = useState<GroupChatSettings>(settings || createGroupSettings([activePersonaId]));
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings || createGroupSettings([activePersonaId]));
+  }, [isOpen, settings, activePersonaId]);
+
+  if (!isOpen) return null;
+
+  const toggleMember = (id: string) => {
+    setDraft(prev => ({
+      ...prev,
+      memberIds: prev.memberIds.includes(id) ? prev.memberIds.filter(m => m !== id) : [...prev.memberIds, id],
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft.memberIds.length > 1 ? draft : undefined);
+    onClose();
+  };
+
+  const handleDisable = () => {
+    onSave(undefined);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="flex items-center justify-between p-6 border-b border-slate-800">
+          <h2 className="text-2xl font-bold text-white">Group Chat</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors" aria-label="Close">
+            <XIcon />
+          </button>
+        </header>
+        <main className="p-6 overflow-y-auto space-y-6">
+          <div>
+            <p className="text-slate-400 mb-3">Pick at least two characters. Each answers with its own persona over the shared conversation.</p>
+            <div className="space-y-2">
+              {personas.map(p => (
+                <label key={p.id} className="flex items-center p-3 bg-slate-800 rounded-lg cursor-pointer hover:bg-slate-700 transition-colors">
+                  <input
+                    type="checkbox"
+                    checked={draft.memberIds.includes(p.id)}
+                    onChange={() => toggleMember(p.id)}
+                    className="h-5 w-5 rounded bg-slate-700 border-slate-600 text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-4 font-semibold text-slate-200 truncate">{p.role}</span>
+                  {draft.memberIds.includes(p.id) && <span className="ml-auto text-xs text-slate-500">#{draft.memberIds.indexOf(p.id) + 1}</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-white mb-2">Who speaks next</h3>
+            <div className="space-y-2">
+              {(Object.keys(strategyLabels) as GroupTurnStrategy[]).map(strategy => (
+                <label key={strategy} className="flex items-start gap-3 p-3 bg-slate-800 rounded-lg cursor-pointer">
+                  <input type="radio" name="group-strategy" checked={draft.strategy === strategy} onChange={() => setDraft(prev => ({ ...prev, strategy }))} className="mt-1 accent-blue-500" />
+                  <span>
+                    <span className="block text-sm text-slate-200">{strategyLabels[strategy].name}</span>
+                    <span className="block text-xs text-slate-400">{strategyLabels[strategy].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="block">
+            <span className="text-sm font-semibold text-white">Character replies per message</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_GROUP_TURNS}
+              value={draft.maxTurns}
+              onChange={e => setDraft(prev => ({ ...prev, maxTurns: Math.min(MAX_GROUP_TURNS, Math.max(1, Number(e.target.value))) }))}
+              className="mt-1 w-24 bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            <span className="block text-xs text-slate-500 mt-1">The turn comes back to you after this many replies. You can also press Stop at any time.</span>
+          </label>
+        </main>
+        <footer className="p-6 border-t border-slate-800 flex gap-2">
+          {settings && (
+            <button onClick={handleDisable} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg">
+              End Group Chat
+            </button>
+          )}
+          <button onClick={handleSave} disabled={draft.memberIds.length < 2} className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg">
+            {settings ? 'Save' : 'Start Group Chat'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default GroupChatModal;
@@ -5,14 +5,18 @@ interface FeatureLayoutProps {
     title: string;
     description: string;
     children: React.ReactNode;
+    actions?: React.ReactNode; // Shown at the right of the header
 }
 
-const FeatureLayout: React.FC<FeatureLayoutProps> = ({ title, description, children }) => {
+const FeatureLayout: React.FC<FeatureLayoutProps> = ({ title, description, children, actions }) => {
     return (
         <div className="flex flex-col h-full bg-slate-900 p-4 md:p-8 overflow-y-auto">
-            <header className="mb-6">
-                <h1 className="text-3xl font-bold text-white">{title}</h1>
-                <p className="text-slate-400 mt-1">{description}</p>
+            <header className="mb-6 flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-white">{title}</h1>
+                    <p className="text-slate-400 mt-1">{description}</p>
+                </div>
+                {actions}
             </header>
             <div className="flex-grow">
                 {children}
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { apiKeyService, maskApiKey, type ApiKeyProfile } from '../../services/apiKeyService.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+import { TrashIcon } from '../../components/Icons.tsx';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const ApiKeySettings: React.FC = () => {
+    const [profiles, setProfiles] = useState<ApiKeyProfile[]>(apiKeyService.getProfiles());
+    const [activeId, setActiveId] = useState<string | null>(apiKeyService.getActiveProfile()?.id || null);
+    const [name, setName] = useState('');
+    const [key, setKey] = useState('');
+    const [rotatingId, setRotatingId] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    const refresh = () => {
+        setProfiles(apiKeyService.getProfiles());
+        setActiveId(apiKeyService.getActiveProfile()?.id || null);
+    };
+
+    useEffect(() => {
+        apiKeyService.load().then(refresh).catch(console.error);
+    }, []);
+
+    const resetForm = () => {
+        setName('');
+        setKey('');
+        setRotatingId(null);
+    };
+
+    // New and rotated keys are only stored once the test call succeeds.
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmedKey = key.trim();
+        if (!trimmedKey) return;
+        setBusyId('form');
+        setStatus(null);
+        try {
+            await apiKeyService.verify(trimmedKey);
+            const lastVerifiedAt = new Date().toISOString();
+            if (rotatingId) {
+                await apiKeyService.updateProfile(rotatingId, { key: trimmedKey, lastVerifiedAt });
+                setStatus({ type: 'success', text: 'Key verified and rotated.' });
+            } else {
+                const profile = await apiKeyService.addProfile(name.trim() || `Key ${profiles.length + 1}`, trimmedKey);
+                await apiKeyService.updateProfile(profile.id, { lastVerifiedAt });
+                setStatus({ type: 'success', text: `Key verified and saved as "${profile.name}".` });
+            }
+            resetForm();
+            refresh();
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleTest = async (profile: ApiKeyProfile) => {
+        setBusyId(profile.id);
+        setStatus(null);
+        try {
+            await apiKeyService.verify(profile.key);
+            await apiKeyService.updateProfile(profile.id, { lastVerifiedAt: new Date().toISOString() });
+            refresh();
+            setStatus({ type: 'success', text: `"${profile.name}" is working.` });
+        } catch (err) {
+            setStatus({ type: 'error', text: `"${profile.name}": ${parseError(err).message}` });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleActivate = async (id: string) => {
+        await apiKeyService.setActive(id);
+        refresh();
+    };
+
+    const handleDelete = async (profile: ApiKeyProfile) => {
+        if (!window.confirm(`Delete the API key "${profile.name}"?`)) return;
+        await apiKeyService.deleteProfile(profile.id);
+        if (rotatingId === profile.id) resetForm();
+        refresh();
+    };
+
+    const rotatingProfile = profiles.find(p => p.id === rotatingId);
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Gemini API Keys</h2>
+            <p className="text-sm text-slate-400 mb-4">Keys are stored encrypted with your vault password and never leave this device except to call Gemini. Save several and switch between them at any time.</p>
+            {profiles.length === 0 ? (
+                <p className="text-sm text-yellow-300 mb-4">No API key configured yet. Gemini features will not work until you add one.</p>
+            ) : (
+                <ul className="space-y-2 mb-4">
+                    {profiles.map(profile => (
+                        <li key={profile.id} className={`flex items-center gap-3 p-3 rounded-lg ${profile.id === activeId ? 'bg-blue-600/20 border border-blue-500/50' : 'bg-slate-800'}`}>
+                            <input type="radio" name="active-api-key" checked={profile.id === activeId} onChange={() => handleActivate(profile.id)} className="accent-blue-500" aria-label={`Use ${profile.name}`} />
+                            <div className="flex-grow min-w-0">
+                                <p className="text-white font-semibold truncate">{profile.name}</p>
+                                <p className="text-xs text-slate-400 font-mono">
+                                    {maskApiKey(profile.key)}
+                                    <span className="font-sans ml-2">{profile.lastVerifiedAt ? `verified ${new Date(profile.lastVerifiedAt).toLocaleString()}` : 'not verified'}</span>
+                                </p>
+                            </div>
+                            <button onClick={() => handleTest(profile)} disabled={busyId !== null} className="text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white py-1 px-2 rounded">{busyId === profile.id ? 'Testing...' : 'Test'}</button>
+                            <button onClick={() => { setRotatingId(profile.id); setKey(''); setStatus(null); }} className="text-xs bg-slate-700 hover:bg-slate-600 text-white py-1 px-2 rounded">Rotate</button>
+                            <button onClick={() => handleDelete(profile)} className="text-slate-400 hover:text-red-400" aria-label={`Delete ${profile.name}`}><TrashIcon /></button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                {rotatingProfile ? (
+                    <p className="text-sm text-slate-300 md:self-center">Rotating <span className="font-semibold text-white">{rotatingProfile.name}</span></p>
+                ) : (
+                    <div>
+                        <label className="block text-sm text-slate-400 mb-1">Name</label>
+                        <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Personal, Work" className={inputClass} />
+                    </div>
+                )}
+                <div>
+                    <label className="block text-sm text-slate-400 mb-1">{rotatingProfile ? 'New API Key' : 'API Key'}</label>
+                    <input type="password" value={key} onChange={e => setKey(e.target.value)} autoComplete="off" className={inputClass} />
+                </div>
+                <div className="flex gap-2">
+                    <button type="submit" disabled={!key.trim() || busyId !== null} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">
+                        {busyId === 'form' ? 'Testing...' : rotatingProfile ? 'Test & Rotate' : 'Test & Add Key'}
+                    </button>
+                    {rotatingProfile && <button type="button" onClick={resetForm} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">Cancel</button>}
+                </div>
+            </form>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default ApiKeySettings;
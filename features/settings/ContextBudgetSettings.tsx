@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { contextBudgetService } from '../../services/contextBudgetService.ts';
+import { DEFAULT_CONTEXT_BUDGET_SETTINGS, TRIMMED_SECTIONS, type ContextBudgetSettings as Settings, type TrimmedSection } from '../../utils/contextBudget.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const SECTION_LABELS: Record<TrimmedSection, string> = {
+    lore: 'Lore (World Info)',
+    memories: 'Memories',
+    files: 'File passages',
+};
+
+// Shares are stored as fractions but edited as percentages.
+const toPercent = (share: number) => Math.round(share * 100);
+const fromPercent = (value: string) => Math.min(100, Math.max(0, Number(value))) / 100;
+
+const ContextBudgetSettings: React.FC = () => {
+    const [settings, setSettings] = useState<Settings>(contextBudgetService.getSettings());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        contextBudgetService.load().then(() => setSettings(contextBudgetService.getSettings())).catch(console.error);
+    }, []);
+
+    const handleChange = (update: Partial<Settings>) => {
+        setSettings(prev => ({ ...prev, ...update }));
+        setStatus(null);
+    };
+
+    const handleSave = async () => {
+        try {
+            await contextBudgetService.save(settings);
+            setStatus({ type: 'success', text: 'Context budget saved.' });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleReset = () => {
+        setSettings(DEFAULT_CONTEXT_BUDGET_SETTINGS);
+        setStatus(null);
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Context Budget</h2>
+            <p className="text-sm text-slate-400 mb-4">How many tokens the chat may send with each message, and how they are split. The system prompt always goes in. Lore, memories and file passages then each get up to their share, dropping the least relevant items first. The history gets the rest and is summarized once it nears that limit.</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <label className="block">
+                    <span className="text-slate-400">Total tokens per message</span>
+                    <input type="number" min={1000} step={1000} value={settings.totalTokens} onChange={e => handleChange({ totalTokens: Math.max(1000, Number(e.target.value)) })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Summarize history at (% of its budget)</span>
+                    <input type="number" min={10} max={100} step={5} value={toPercent(settings.summarizeAt)} onChange={e => handleChange({ summarizeAt: Math.max(0.1, fromPercent(e.target.value)) })} className={`${inputClass} mt-1`} />
+                </label>
+                <div className="hidden md:block" />
+                {TRIMMED_SECTIONS.map(section => (
+                    <label key={section} className="block">
+                        <span className="text-slate-400">{SECTION_LABELS[section]} (% of total)</span>
+                        <input
+                            type="number" min={0} max={100} step={5}
+                            value={toPercent(settings.shares[section])}
+                            onChange={e => handleChange({ shares: { ...settings.shares, [section]: fromPercent(e.target.value) } })}
+                            className={`${inputClass} mt-1`}
+                        />
+                    </label>
+                ))}
+            </div>
+            <div className="mt-4 flex gap-2">
+                <button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">Save Context Budget</button>
+                <button onClick={handleReset} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">Reset to Defaults</button>
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default ContextBudgetSettings;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { dbService, type IntegrityIssue, type QuarantinedRecord } from '../../services/dbService.ts';
+import type { PayloadProblem } from '../../services/cryptoService.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+
+const STORE_LABELS: Record<string, string> = {
+    files: 'File',
+    chatHistory: 'Chat',
+    app_settings: 'Setting',
+    memories: 'Memory',
+    documentChunks: 'File search index',
+    usage: 'Usage',
+};
+
+// Records whose key alone doesn't say what they hold.
+const KEY_LABELS: Record<string, string> = {
+    chatbot_personas: 'All characters',
+    conversation_index: 'Chat list',
+    voice_preference: 'Voice preference',
+};
+
+const PROBLEM_LABELS: Record<PayloadProblem, string> = {
+    malformed: 'Not a valid encrypted record',
+    signature: 'Signature check failed: changed or damaged since it was saved',
+    decryption: 'Signed correctly, but could not be decrypted',
+};
+
+const describe = (issue: IntegrityIssue) => {
+    const key = String(issue.key);
+    return `${STORE_LABELS[issue.storeName] || issue.storeName}: ${KEY_LABELS[key] ? `${KEY_LABELS[key]} (${key})` : key}`;
+};
+
+const downloadRecord = (issue: IntegrityIssue, record: any) => {
+    const blob = new Blob([JSON.stringify({ storeName: issue.storeName, key: issue.key, problem: issue.problem, record }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gemini-record-${issue.storeName}-${String(issue.key).replace(/[^\w.-]+/g, '_')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+const buttonClass = "text-xs bg-slate-700 hover:bg-slate-600 text-white py-1 px-2 rounded";
+
+// Finds records the app silently skips because they fail their signature check or don't decrypt, and
+// lets the user export, set aside or delete them.
+const IntegritySettings: React.FC = () => {
+    const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+    const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+    const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    const loadQuarantine = () => dbService.getQuarantinedRecords().then(setQuarantined).catch(console.error);
+
+    useEffect(() => {
+        loadQuarantine();
+    }, []);
+
+    const run = async (action: () => Promise<void>) => {
+        setStatus(null);
+        try {
+            await action();
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleScan = () => run(async () => {
+        setIssues(null);
+        setProgress({ done: 0, total: 0 });
+        try {
+            const found = await dbService.scanIntegrity((done, total) => setProgress({ done, total }));
+            setIssues(found);
+            if (found.length === 0) setStatus({ type: 'success', text: 'Every record passed its signature check and decrypts.' });
+        } finally {
+            setProgress(null);
+        }
+    });
+
+    const dropIssue = (issue: IntegrityIssue) => setIssues(prev => prev && prev.filter(i => i !== issue));
+
+    const handleExport = (issue: IntegrityIssue) => run(async () => {
+        downloadRecord(issue, await dbService.getRawRecord(issue.storeName, issue.key));
+    });
+
+    const handleQuarantine = (issue: IntegrityIssue) => run(async () => {
+        await dbService.quarantineRecord(issue);
+        dropIssue(issue);
+        await loadQuarantine();
+    });
+
+    const handleDelete = (issue: IntegrityIssue) => {
+        if (!window.confirm(`Permanently delete "${describe(issue)}"? Export it first if you may want it later.`)) return;
+        run(async () => {
+            await dbService.deleteRecord(issue.storeName, issue.key);
+            dropIssue(issue);
+        });
+    };
+
+    const handleRestore = (record: QuarantinedRecord) => run(async () => {
+        await dbService.restoreQuarantinedRecord(record.id);
+        await loadQuarantine();
+    });
+
+    const handleDeleteQuarantined = (record: QuarantinedRecord) => {
+        if (!window.confirm(`Permanently delete "${describe(record)}"? Export it first if you may want it later.`)) return;
+        run(async () => {
+            await dbService.deleteQuarantinedRecord(record.id);
+            await loadQuarantine();
+        });
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Data Integrity</h2>
+            <p className="text-sm text-slate-400 mb-4">Records that fail their signature check or don't decrypt are skipped wherever they'd appear, so one damaged record can look like missing files, chats or characters. The check reads every record and lists those. Export keeps the encrypted record as a file; quarantine sets it aside where it can be restored later; delete removes it for good.</p>
+            <button onClick={handleScan} disabled={!!progress} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">
+                {progress ? `Checking... ${progress.done.toLocaleString()} of ${progress.total.toLocaleString()}` : 'Check Integrity'}
+            </button>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+
+            {issues && issues.length > 0 && (
+                <div className="mt-4">
+                    <h3 className="text-sm font-semibold text-red-400 mb-2">{issues.length} {issues.length === 1 ? 'record' : 'records'} can't be read</h3>
+                    <ul className="space-y-2">
+                        {issues.map(issue => (
+                            <li key={`${issue.storeName}/${String(issue.key)}`} className="flex flex-wrap items-center justify-between gap-2 bg-slate-800 rounded-lg p-3 text-sm">
+                                <div className="min-w-0">
+                                    <p className="text-white break-all">{describe(issue)}</p>
+                                    <p className="text-xs text-slate-400">{PROBLEM_LABELS[issue.problem]}</p>
+                                </div>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button onClick={() => handleExport(issue)} className={buttonClass}>Export</button>
+                                    <button onClick={() => handleQuarantine(issue)} className={buttonClass}>Quarantine</button>
+                                    <button onClick={() => handleDelete(issue)} className="text-xs bg-red-700 hover:bg-red-600 text-white py-1 px-2 rounded">Delete</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {quarantined.length > 0 && (
+                <div className="mt-4">
+                    <h3 className="text-sm font-semibold text-slate-300 mb-2">Quarantined</h3>
+                    <ul className="space-y-2">
+                        {quarantined.map(record => (
+                            <li key={record.id} className="flex flex-wrap items-center justify-between gap-2 bg-slate-800 rounded-lg p-3 text-sm">
+                                <div className="min-w-0">
+                                    <p className="text-white break-all">{describe(record)}</p>
+                                    <p className="text-xs text-slate-400">{PROBLEM_LABELS[record.problem]} · set aside {new Date(record.quarantinedAt).toLocaleString()}</p>
+                                </div>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button onClick={() => downloadRecord(record, record.record)} className={buttonClass}>Export</button>
+                                    <button onClick={() => handleRestore(record)} className={buttonClass}>Restore</button>
+                                    <button onClick={() => handleDeleteQuarantined(record)} className="text-xs bg-red-700 hover:bg-red-600 text-white py-1 px-2 rounded">Delete</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default IntegritySettings;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { lockService, type LockSettings as Settings } from '../../services/lockService.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const IDLE_OPTIONS = [1, 5, 15, 30, 60, 0];
+const HIDDEN_OPTIONS = [0.5, 1, 5, 15, 60, 0];
+
+const formatMinutes = (minutes: number) =>
+    minutes === 0 ? 'Never' : minutes < 1 ? `${minutes * 60} seconds` : minutes === 60 ? '1 hour' : `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+
+const LockSettings: React.FC = () => {
+    const [settings, setSettings] = useState<Settings>(lockService.getSettings());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    const handleChange = (update: Partial<Settings>) => {
+        setSettings(prev => ({ ...prev, ...update }));
+        setStatus(null);
+    };
+
+    const handleSave = async () => {
+        try {
+            await lockService.save(settings);
+            setStatus({ type: 'success', text: 'Auto-lock settings saved.' });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Auto-Lock</h2>
+            <p className="text-sm text-slate-400 mb-4">Locking forgets the encryption keys and your API keys until you enter your password again; you come back to the same screen. You can also lock right away with the Lock button in the sidebar.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <label className="block">
+                    <span className="text-slate-400">Lock after no activity for</span>
+                    <select value={settings.idleMinutes} onChange={e => handleChange({ idleMinutes: Number(e.target.value) })} className={`${inputClass} mt-1`}>
+                        {IDLE_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>)}
+                    </select>
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Lock when the tab has been hidden for</span>
+                    <select value={settings.hiddenMinutes} onChange={e => handleChange({ hiddenMinutes: Number(e.target.value) })} className={`${inputClass} mt-1`}>
+                        {HIDDEN_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>)}
+                    </select>
+                </label>
+            </div>
+            <div className="mt-4">
+                <button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">Save Auto-Lock Settings</button>
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default LockSettings;
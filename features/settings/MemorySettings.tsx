@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { memoryRetrievalService, DEFAULT_MEMORY_RETRIEVAL_SETTINGS, type MemoryRetrievalSettings } from '../../services/memoryRetrievalService.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const formatTagWeights = (weights: Record<string, number>) => Object.entries(weights).map(([tag, weight]) => `${tag}=${weight}`).join(', ');
+
+const parseTagWeights = (value: string): Record<string, number> => {
+    const weights: Record<string, number> = {};
+    for (const entry of value.split(',')) {
+        const [tag, weight] = entry.split('=').map(s => s.trim());
+        if (tag && weight && !isNaN(Number(weight))) weights[tag] = Number(weight);
+    }
+    return weights;
+};
+
+const MemorySettings: React.FC = () => {
+    const [settings, setSettings] = useState<MemoryRetrievalSettings>(memoryRetrievalService.getSettings());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        memoryRetrievalService.load().then(() => setSettings(memoryRetrievalService.getSettings())).catch(console.error);
+    }, []);
+
+    const handleChange = (update: Partial<MemoryRetrievalSettings>) => {
+        setSettings(prev => ({ ...prev, ...update }));
+        setStatus(null);
+    };
+
+    const handleSave = async () => {
+        try {
+            await memoryRetrievalService.save(settings);
+            setStatus({ type: 'success', text: 'Memory settings saved.' });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleReset = () => {
+        setSettings(DEFAULT_MEMORY_RETRIEVAL_SETTINGS);
+        setStatus(null);
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Memory Recall</h2>
+            <p className="text-sm text-slate-400 mb-4">Control which long-term memories the chat recalls. Memories belong to the persona that created them; global memories are shared by all personas.</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <label className="block">
+                    <span className="text-slate-400">Minimum similarity</span>
+                    <input type="number" min={0} max={1} step={0.05} value={settings.minSimilarity} onChange={e => handleChange({ minSimilarity: Number(e.target.value) })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Memories per message</span>
+                    <input type="number" min={1} max={20} step={1} value={settings.topK} onChange={e => handleChange({ topK: Math.max(1, Number(e.target.value)) })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Duplicate threshold</span>
+                    <input type="number" min={0} max={1} step={0.01} value={settings.duplicateThreshold} onChange={e => handleChange({ duplicateThreshold: Number(e.target.value) })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Recency weight</span>
+                    <input type="number" min={0} max={1} step={0.05} value={settings.recencyWeight} onChange={e => handleChange({ recencyWeight: Number(e.target.value) })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Recency half-life (days)</span>
+                    <input type="number" min={0} step={1} value={settings.recencyHalfLifeDays} onChange={e => handleChange({ recencyHalfLifeDays: Number(e.target.value) })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="flex items-center gap-2 md:mt-6 cursor-pointer">
+                    <input type="checkbox" checked={settings.includeGlobal} onChange={e => handleChange({ includeGlobal: e.target.checked })} className="accent-blue-500" />
+                    <span className="text-slate-300">Include global memories</span>
+                </label>
+                <label className="block md:col-span-3">
+                    <span className="text-slate-400">Tag importance (tag=weight, comma separated)</span>
+                    {/* Parsed on blur so typing a comma doesn't get swallowed mid-edit. */}
+                    <input
+                        key={formatTagWeights(settings.tagWeights)}
+                        type="text"
+                        defaultValue={formatTagWeights(settings.tagWeights)}
+                        onBlur={e => handleChange({ tagWeights: parseTagWeights(e.target.value) })}
+                        placeholder="e.g. user-command=1.2, episodic=0.9"
+                        className={`${inputClass} mt-1`}
+                    />
+                </label>
+            </div>
+            <div className="mt-4 flex gap-2">
+                <button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">Save Memory Settings</button>
+                <button onClick={handleReset} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">Reset to Defaults</button>
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default MemorySettings;
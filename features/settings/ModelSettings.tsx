@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { modelSettingsService, GEMINI_ONLY_FEATURES, DEFAULT_MODEL_REGISTRY, type ModelFeatureId, type ModelRegistry, type FeatureModelSettings } from '../../services/modelSettingsService.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+
+const featureLabels: Record<ModelFeatureId, string> = {
+    'chat': 'Chat Bot',
+    'reasoning': 'Complex Reasoning',
+    'settings': 'Persona Assistant',
+    'image-gen': 'Image Generation',
+    'audio-transcription': 'Audio Transcription',
+    'live': 'Live Conversation',
+    'grounding': 'Grounded Search',
+    'image-analysis': 'Image Analysis',
+    'video-analysis': 'Video Analysis',
+    'file-library': 'File Library',
+};
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const toOptionalNumber = (value: string): number | undefined => value.trim() === '' ? undefined : Number(value);
+
+const ModelSettings: React.FC = () => {
+    const [registry, setRegistry] = useState<ModelRegistry>(modelSettingsService.getRegistry());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        modelSettingsService.load().then(() => setRegistry(modelSettingsService.getRegistry())).catch(console.error);
+    }, []);
+
+    const handleChange = (featureId: ModelFeatureId, update: Partial<FeatureModelSettings>) => {
+        setRegistry(prev => ({ ...prev, [featureId]: { ...prev[featureId], ...update } }));
+        setStatus(null);
+    };
+
+    const handleSave = async () => {
+        try {
+            await modelSettingsService.save(registry);
+            setStatus({ type: 'success', text: 'Model settings saved.' });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleReset = () => {
+        setRegistry(DEFAULT_MODEL_REGISTRY);
+        setStatus(null);
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Models & Generation</h2>
+            <p className="text-sm text-slate-400 mb-4">Override the model and sampling parameters per feature. Leave a field blank to use the provider's default.</p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-slate-400">
+                            <th className="pb-2 pr-2 font-medium">Feature</th>
+                            <th className="pb-2 pr-2 font-medium">Model</th>
+                            <th className="pb-2 pr-2 font-medium w-24">Temperature</th>
+                            <th className="pb-2 pr-2 font-medium w-24">Top P</th>
+                            <th className="pb-2 pr-2 font-medium w-28">Max Tokens</th>
+                            <th className="pb-2 font-medium">Stop Sequences</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {(Object.keys(featureLabels) as ModelFeatureId[]).map(featureId => {
+                            const settings = registry[featureId];
+                            const isGeminiOnly = GEMINI_ONLY_FEATURES.includes(featureId);
+                            return (
+                                <tr key={featureId} className="border-t border-slate-700/50">
+                                    <td className="py-2 pr-2 text-white whitespace-nowrap">
+                                        {featureLabels[featureId]}
+                                        {isGeminiOnly && <span className="ml-2 text-xs text-slate-500">Gemini</span>}
+                                    </td>
+                                    <td className="py-2 pr-2">
+                                        <input type="text" value={settings.model} onChange={e => handleChange(featureId, { model: e.target.value })} placeholder={DEFAULT_MODEL_REGISTRY[featureId].model || 'Provider default'} className={inputClass} />
+                                    </td>
+                                    <td className="py-2 pr-2">
+                                        <input type="number" min={0} max={2} step={0.1} value={settings.temperature ?? ''} onChange={e => handleChange(featureId, { temperature: toOptionalNumber(e.target.value) })} className={inputClass} />
+                                    </td>
+                                    <td className="py-2 pr-2">
+                                        <input type="number" min={0} max={1} step={0.05} value={settings.topP ?? ''} onChange={e => handleChange(featureId, { topP: toOptionalNumber(e.target.value) })} className={inputClass} />
+                                    </td>
+                                    <td className="py-2 pr-2">
+                                        <input type="number" min={1} step={1} value={settings.maxOutputTokens ?? ''} onChange={e => handleChange(featureId, { maxOutputTokens: toOptionalNumber(e.target.value) })} className={inputClass} />
+                                    </td>
+                                    <td className="py-2">
+                                        {/* Parsed on blur so typing a comma doesn't get swallowed mid-edit. */}
+                                        <input
+                                            key={`${featureId}-${(settings.stopSequences || []).join(',')}`}
+                                            type="text"
+                                            defaultValue={(settings.stopSequences || []).join(', ')}
+                                            onBlur={e => handleChange(featureId, { stopSequences: e.target.value.split(',').map(s => s.trim()).filter(Boolean) })}
+                                            placeholder="e.g. END, ###"
+                                            disabled={featureId === 'live'}
+                                            className={`${inputClass} disabled:opacity-50`}
+                                        />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <div className="mt-4 flex gap-2">
+                <button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">Save Model Settings</button>
+                <button onClick={handleReset} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">Reset to Defaults</button>
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default ModelSettings;
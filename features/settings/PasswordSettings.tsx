@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { vaultService } from '../../services/vaultService.ts';
+import { cryptoService } from '../../services/cryptoService.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const PasswordSettings: React.FC = () => {
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [replaceKeys, setReplaceKeys] = useState(false);
+    const [isChanging, setIsChanging] = useState(false);
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newPassword !== confirmPassword) {
+            setStatus({ type: 'error', text: 'The new passwords do not match.' });
+            return;
+        }
+        if (newPassword.length < 8) {
+            setStatus({ type: 'error', text: 'Password must be at least 8 characters long.' });
+            return;
+        }
+        if (newPassword === currentPassword) {
+            setStatus({ type: 'error', text: 'The new password is the same as the current one.' });
+            return;
+        }
+        setIsChanging(true);
+        setStatus(null);
+        try {
+            const removesRecoveryKey = replaceKeys && cryptoService.hasRecoveryKey();
+            await vaultService.changePassword(currentPassword, newPassword, replaceKeys);
+            setCurrentPassword('');
+            setNewPassword('');
+            setConfirmPassword('');
+            setReplaceKeys(false);
+            setStatus({
+                type: 'success',
+                text: removesRecoveryKey
+                    ? 'Password and keys changed. Your old recovery key no longer works; create a new one below.'
+                    : 'Password changed. Use the new password the next time you unlock the app.',
+            });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        } finally {
+            setIsChanging(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Change Password</h2>
+            <p className="text-sm text-slate-400 mb-4">Your data is encrypted with a random key that the password only unlocks, so changing the password is instant. Replacing the key as well re-encrypts all your data; if the app is closed midway, it picks up where it left off the next time you unlock it.</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <label className="block">
+                    <span className="text-slate-400">Current password</span>
+                    <input type="password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} required autoComplete="current-password" className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">New password (min 8 characters)</span>
+                    <input type="password" value={newPassword} onChange={e => setNewPassword(e.target.value)} required autoComplete="new-password" className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">Confirm new password</span>
+                    <input type="password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required autoComplete="new-password" className={`${inputClass} mt-1`} />
+                </label>
+            </div>
+            <label className="flex items-center gap-2 mt-4 text-sm text-slate-300">
+                <input type="checkbox" checked={replaceKeys} onChange={e => setReplaceKeys(e.target.checked)} className="rounded bg-slate-800 border-slate-700" />
+                Also replace the encryption key and re-encrypt all data (use if the old password may have leaked)
+            </label>
+            <div className="mt-4">
+                <button type="submit" disabled={isChanging} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">
+                    {isChanging ? 'Changing Password...' : 'Change Password'}
+                </button>
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </form>
+    );
+};
+
+export default PasswordSettings;
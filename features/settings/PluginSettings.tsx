@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { pluginService } from '../../services/pluginService.ts';
+import { PLUGIN_PERMISSION_LABELS, parsePluginPackage } from '../../utils/plugins.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+import type { InstalledPlugin, PluginManifest } from '../../types.ts';
+import { TrashIcon, UploadIcon } from '../../components/Icons.tsx';
+
+const PluginSettings: React.FC = () => {
+    const [plugins, setPlugins] = useState<InstalledPlugin[]>(pluginService.getPlugins());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        pluginService.load().then(() => setPlugins(pluginService.getPlugins())).catch(console.error);
+    }, []);
+
+    const run = async (action: () => Promise<void>, successText?: string) => {
+        try {
+            await action();
+            setPlugins(pluginService.getPlugins());
+            setStatus(successText ? { type: 'success', text: successText } : null);
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleInstall = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        let raw: unknown;
+        let manifest: PluginManifest;
+        try {
+            raw = JSON.parse(await file.text());
+            manifest = parsePluginPackage(raw).manifest;
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+            return;
+        }
+        const permissions = manifest.permissions.map(p => `• ${PLUGIN_PERMISSION_LABELS[p]}`).join('\n') || '• None';
+        const warning = manifest.permissions.includes('conversation:read')
+            ? "\n\nThe sandbox can't fully stop a plugin from reaching the internet, so only install plugins you trust to read your chats."
+            : '';
+        if (!window.confirm(`Install "${manifest.name}" ${manifest.version}?\n\nIt asks for:\n${permissions}${warning}`)) return;
+        await run(async () => { await pluginService.install(raw); }, `Installed "${manifest.name}".`);
+    };
+
+    const handleUninstall = (plugin: InstalledPlugin) => {
+        if (!window.confirm(`Uninstall plugin "${plugin.manifest.name}"?`)) return;
+        run(() => pluginService.uninstall(plugin.id));
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <div className="flex items-center justify-between mb-1">
+                <h2 className="text-xl font-bold text-white">Plugins</h2>
+                <label className="cursor-pointer bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm flex items-center gap-2">
+                    <UploadIcon /> Install Plugin
+                    <input type="file" accept=".json" onChange={handleInstall} className="hidden" />
+                </label>
+            </div>
+            <p className="text-sm text-slate-400 mb-4">Plugins add chat commands and tools the AI can call. Each one runs in an isolated sandbox with no access to your stored data and can only see or change your chat through the permissions you grant at install. The sandbox can't fully cut a plugin off from the internet, so treat reading the conversation as sharing it with the plugin's author.</p>
+            {plugins.length === 0 ? (
+                <p className="text-sm text-slate-500">No plugins installed.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {plugins.map(plugin => (
+                        <li key={plugin.id} className="p-3 bg-slate-800 rounded-lg">
+                            <div className="flex items-center gap-3">
+                                <input type="checkbox" checked={plugin.isEnabled} onChange={e => run(() => pluginService.setEnabled(plugin.id, e.target.checked))} className="accent-blue-500" aria-label="Enabled" />
+                                <div className="flex-grow min-w-0">
+                                    <p className="font-semibold text-white truncate">{plugin.manifest.name} <span className="text-xs font-normal text-slate-500">{plugin.manifest.version}</span></p>
+                                    {plugin.manifest.description && <p className="text-xs text-slate-400 truncate">{plugin.manifest.description}</p>}
+                                </div>
+                                <button onClick={() => handleUninstall(plugin)} className="text-slate-400 hover:text-red-500 p-2" title="Uninstall"><TrashIcon /></button>
+                            </div>
+                            <div className="mt-2 text-xs text-slate-400 space-y-1">
+                                {plugin.manifest.commands.length > 0 && <p>Commands: {plugin.manifest.commands.map(c => `/${c.name}`).join(', ')}</p>}
+                                {plugin.manifest.tools.length > 0 && <p>Tools: {plugin.manifest.tools.map(t => t.name).join(', ')}</p>}
+                                <p>Permissions: {plugin.manifest.permissions.map(p => PLUGIN_PERMISSION_LABELS[p]).join('; ') || 'None'}</p>
+                                {plugin.failure && <p className="text-red-400">Turned off: {plugin.failure}</p>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default PluginSettings;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { providerService, DEFAULT_PROVIDER_CONFIGS } from '../../services/providerService.ts';
+import type { ProviderConfig, ProviderId } from '../../services/providers/types.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+
+type ModelField = 'chatModel' | 'reasoningModel' | 'embeddingModel' | 'imageModel' | 'transcriptionModel';
+
+const modelFields: { field: ModelField; label: string }[] = [
+    { field: 'chatModel', label: 'Chat Model' },
+    { field: 'reasoningModel', label: 'Reasoning Model' },
+    { field: 'embeddingModel', label: 'Embedding Model (Memory)' },
+    { field: 'imageModel', label: 'Image Model' },
+    { field: 'transcriptionModel', label: 'Transcription Model' },
+];
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const ProviderSettings: React.FC = () => {
+    const [config, setConfig] = useState<ProviderConfig>(providerService.getConfig());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    useEffect(() => {
+        providerService.load().then(() => setConfig(providerService.getConfig())).catch(console.error);
+    }, []);
+
+    const handleProviderChange = (id: ProviderId) => {
+        setConfig(DEFAULT_PROVIDER_CONFIGS[id]);
+        setStatus(null);
+    };
+
+    const handleChange = (field: keyof ProviderConfig, value: string) => {
+        setConfig(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleSave = async () => {
+        try {
+            await providerService.save(config);
+            setStatus({ type: 'success', text: 'Provider settings saved.' });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setStatus(null);
+        try {
+            await providerService.save(config);
+            const reply = await providerService.getProvider().generateText({ contents: 'Reply with the single word "OK".' });
+            setStatus({ type: 'success', text: `Connected. Sample reply: "${reply.substring(0, 60)}"` });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Model Provider</h2>
+            <p className="text-sm text-slate-400 mb-4">Chat, reasoning, memory embeddings, image generation and transcription use this provider. Live, grounded search and media analysis always use Gemini.</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className="block text-sm text-slate-400 mb-1">Provider</label>
+                    <select value={config.id} onChange={e => handleProviderChange(e.target.value as ProviderId)} className={inputClass}>
+                        <option value="gemini">Google Gemini</option>
+                        <option value="openai-compatible">OpenAI-compatible (Ollama, llama.cpp...)</option>
+                    </select>
+                </div>
+                {config.id === 'openai-compatible' && (
+                    <>
+                        <div>
+                            <label className="block text-sm text-slate-400 mb-1">Base URL</label>
+                            <input type="url" value={config.baseUrl} onChange={e => handleChange('baseUrl', e.target.value)} placeholder="http://localhost:11434/v1" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm text-slate-400 mb-1">API Key (optional)</label>
+                            <input type="password" value={config.apiKey} onChange={e => handleChange('apiKey', e.target.value)} className={inputClass} />
+                        </div>
+                    </>
+                )}
+                {modelFields.map(({ field, label }) => (
+                    <div key={field}>
+                        <label className="block text-sm text-slate-400 mb-1">{label}</label>
+                        <input type="text" value={config[field]} onChange={e => handleChange(field, e.target.value)} className={inputClass} />
+                    </div>
+                ))}
+            </div>
+            <div className="mt-4 flex gap-2">
+                <button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">Save Provider</button>
+                <button onClick={handleTest} disabled={isTesting} className="bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 text-white font-bold py-2 px-4 rounded-lg text-sm">{isTesting ? 'Testing...' : 'Save & Test'}</button>
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default ProviderSettings;
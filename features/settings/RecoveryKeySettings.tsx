@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { cryptoService } from '../../services/cryptoService.ts';
+import { VAULT_MIGRATION_EVENT } from '../../services/vaultService.ts';
+import RecoveryKeyDisplay from '../../components/RecoveryKeyDisplay.tsx';
+import { parseError } from '../../utils/errorUtils.ts';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const RecoveryKeySettings: React.FC = () => {
+    const [hasRecoveryKey, setHasRecoveryKey] = useState(cryptoService.hasRecoveryKey);
+    const [password, setPassword] = useState('');
+    const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    // Replacing the encryption keys removes the recovery key.
+    useEffect(() => {
+        const handleChange = () => setHasRecoveryKey(cryptoService.hasRecoveryKey());
+        window.addEventListener(VAULT_MIGRATION_EVENT, handleChange);
+        return () => window.removeEventListener(VAULT_MIGRATION_EVENT, handleChange);
+    }, []);
+
+    const run = async (action: () => Promise<void>) => {
+        setIsWorking(true);
+        setStatus(null);
+        try {
+            await action();
+            setPassword('');
+            setHasRecoveryKey(cryptoService.hasRecoveryKey());
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (hasRecoveryKey && !window.confirm("Create a new recovery key? The current one will stop working.")) return;
+        run(async () => setNewRecoveryKey(await cryptoService.createRecoveryKey(password)));
+    };
+
+    const handleRemove = () => {
+        if (!window.confirm("Remove the recovery key? If you then forget your password, your data cannot be recovered.")) return;
+        run(async () => {
+            await cryptoService.removeRecoveryKey(password);
+            setStatus({ type: 'success', text: 'Recovery key removed.' });
+        });
+    };
+
+    if (newRecoveryKey) {
+        return (
+            <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+                <h2 className="text-xl font-bold mb-1 text-white">Recovery Key</h2>
+                <p className="text-sm text-slate-400 mb-4">Keep this key somewhere safe, away from this device. It won't be shown again; any earlier recovery key no longer works.</p>
+                <div className="max-w-xl">
+                    <RecoveryKeyDisplay recoveryKey={newRecoveryKey} />
+                </div>
+                <button onClick={() => setNewRecoveryKey(null)} className="mt-4 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">I've Saved It</button>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleCreate} className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Recovery Key</h2>
+            <p className="text-sm text-slate-400 mb-4">
+                {hasRecoveryKey
+                    ? 'A recovery key is set. If you forget your password, use it on the unlock screen to set a new one without losing data.'
+                    : 'No recovery key is set, so a forgotten password means losing all your data. A recovery key lets you set a new password instead.'}
+            </p>
+            <label className="block text-sm max-w-sm">
+                <span className="text-slate-400">Current password</span>
+                <input type="password" value={password} onChange={e => setPassword(e.target.value)} required autoComplete="current-password" className={`${inputClass} mt-1`} />
+            </label>
+            <div className="mt-4 flex gap-2">
+                <button type="submit" disabled={isWorking} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">
+                    {hasRecoveryKey ? 'Create New Recovery Key' : 'Create Recovery Key'}
+                </button>
+                {hasRecoveryKey && (
+                    <button type="button" onClick={handleRemove} disabled={isWorking || !password} className="bg-slate-700 hover:bg-slate-600 disabled:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">Remove</button>
+                )}
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </form>
+    );
+};
+
+export default RecoveryKeySettings;
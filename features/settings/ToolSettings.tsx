@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { toolPolicyService } from '../../services/toolPolicyService.ts';
+import { listTools, getDefaultPolicy, TOOL_PERMISSION_LABELS, TOOL_POLICY_LABELS } from '../../services/tools/index.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+import type { ToolAuditEntry, ToolDecision, ToolPolicy } from '../../types.ts';
+import { TrashIcon } from '../../components/Icons.tsx';
+
+const selectClass = "bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const decisionClasses: Record<ToolDecision, string> = {
+    allowed: 'text-slate-400',
+    approved: 'text-green-400',
+    rejected: 'text-amber-400',
+    denied: 'text-red-400',
+};
+
+const POLICIES: ToolPolicy[] = ['allow', 'ask', 'deny'];
+
+// Only explicit choices; undefined means the tool uses its default.
+const readPolicies = (names: string[]) => Object.fromEntries(names.map(name => [name, toolPolicyService.getPolicy(name)]));
+
+const ToolSettings: React.FC = () => {
+    const [tools, setTools] = useState(listTools);
+    const [policies, setPolicies] = useState<Record<string, ToolPolicy | undefined>>(() => readPolicies(listTools().map(t => t.name)));
+    const [auditLog, setAuditLog] = useState<ToolAuditEntry[]>(toolPolicyService.getAuditLog());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    const refresh = () => {
+        const current = listTools();
+        setTools(current);
+        setPolicies(readPolicies(current.map(t => t.name)));
+        setAuditLog(toolPolicyService.getAuditLog());
+    };
+
+    useEffect(() => {
+        toolPolicyService.load().then(refresh).catch(console.error);
+    }, []);
+
+    const run = async (action: () => Promise<void>) => {
+        try {
+            await action();
+            refresh();
+            setStatus(null);
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleClearLog = () => {
+        if (!window.confirm("Clear the tool activity log?")) return;
+        run(() => toolPolicyService.clearAuditLog());
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <h2 className="text-xl font-bold mb-1 text-white">Tool Permissions</h2>
+            <p className="text-sm text-slate-400 mb-4">Choose what happens when the AI calls a tool in Chat, Live Conversation or Complex Reasoning. "Ask first" shows the call with its arguments, which you can edit before approving. By default, tools that reach the internet or change your saved data ask first.</p>
+            <ul className="space-y-2">
+                {tools.map(tool => (
+                    <li key={tool.name} className="flex items-center gap-3 p-3 bg-slate-800 rounded-lg">
+                        <div className="flex-grow min-w-0">
+                            <p className="font-semibold text-white truncate">{tool.name}</p>
+                            <p className="text-xs text-slate-400 truncate" title={tool.description}>{TOOL_PERMISSION_LABELS[tool.permission]}</p>
+                        </div>
+                        <select
+                            value={policies[tool.name] || ''}
+                            onChange={e => run(() => toolPolicyService.setPolicy(tool.name, (e.target.value || undefined) as ToolPolicy | undefined))}
+                            className={selectClass}
+                            aria-label={`Policy for ${tool.name}`}
+                        >
+                            <option value="">Default ({TOOL_POLICY_LABELS[getDefaultPolicy(tool.name)]})</option>
+                            {POLICIES.map(policy => <option key={policy} value={policy}>{TOOL_POLICY_LABELS[policy]}</option>)}
+                        </select>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex items-center justify-between mt-6 mb-2">
+                <h3 className="text-lg font-semibold text-slate-300">Tool Activity</h3>
+                <div className="flex gap-2">
+                    <button onClick={refresh} className="bg-slate-700 hover:bg-slate-600 text-white py-1 px-3 rounded-lg text-sm">Refresh</button>
+                    <button onClick={handleClearLog} disabled={auditLog.length === 0} className="text-slate-400 hover:text-red-500 disabled:opacity-50 p-1" title="Clear log"><TrashIcon /></button>
+                </div>
+            </div>
+            {auditLog.length === 0 ? (
+                <p className="text-sm text-slate-500">No tool calls yet.</p>
+            ) : (
+                <ul className="max-h-80 overflow-y-auto space-y-1 text-xs">
+                    {auditLog.map(entry => (
+                        <li key={entry.id} className="p-2 bg-slate-800 rounded-lg" title={JSON.stringify(entry.args, null, 2)}>
+                            <div className="flex items-center gap-2">
+                                <span className="text-slate-500">{new Date(entry.timestamp).toLocaleString()}</span>
+                                <span className="text-slate-500">{entry.feature}</span>
+                                <span className="font-semibold text-white">{entry.toolName}</span>
+                                <span className={decisionClasses[entry.decision]}>{entry.decision}</span>
+                                {entry.status === 'error' && <span className="text-red-400">failed</span>}
+                            </div>
+                            {entry.message && <p className="text-slate-400 truncate">{entry.message}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default ToolSettings;
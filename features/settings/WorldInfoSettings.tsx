@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { worldInfoService } from '../../services/worldInfoService.ts';
+import { parseLorebook } from '../../utils/worldInfo.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+import type { Lorebook, Persona, WorldInfoEntry } from '../../types.ts';
+import { TrashIcon, UploadIcon } from '../../components/Icons.tsx';
+
+interface WorldInfoSettingsProps {
+    personas: Persona[];
+    onSavePersona: (persona: Persona) => Promise<void>;
+}
+
+interface LorebookCardProps {
+    book: Lorebook;
+    subtitle: string;
+    onChange: (book: Lorebook) => void;
+    onDelete: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const LorebookCard: React.FC<LorebookCardProps> = ({ book, subtitle, onChange, onDelete }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const updateEntry = (id: string, update: Partial<WorldInfoEntry>) => {
+        onChange({ ...book, entries: book.entries.map(e => e.id === id ? { ...e, ...update } : e) });
+    };
+
+    return (
+        <li className="p-3 bg-slate-800 rounded-lg">
+            <div className="flex items-center gap-3">
+                <input type="checkbox" checked={book.isEnabled} onChange={e => onChange({ ...book, isEnabled: e.target.checked })} className="accent-blue-500" aria-label="Enabled" />
+                <button onClick={() => setIsExpanded(!isExpanded)} className="flex-grow text-left min-w-0">
+                    <p className="font-semibold text-white truncate">{book.name}</p>
+                    <p className="text-xs text-slate-400">{subtitle} · {book.entries.filter(e => e.enabled).length}/{book.entries.length} entries enabled</p>
+                </button>
+                <button onClick={onDelete} className="text-slate-400 hover:text-red-500 p-2" title="Delete"><TrashIcon /></button>
+            </div>
+            {isExpanded && (
+                <div className="mt-3 space-y-3">
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                        <label className="block">
+                            <span className="text-slate-400">Scan depth (messages)</span>
+                            <input type="number" min={1} step={1} value={book.scanDepth} onChange={e => onChange({ ...book, scanDepth: Math.max(1, Number(e.target.value)) })} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="block">
+                            <span className="text-slate-400">Token budget</span>
+                            <input type="number" min={0} step={64} value={book.tokenBudget} onChange={e => onChange({ ...book, tokenBudget: Math.max(0, Number(e.target.value)) })} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="flex items-center gap-2 mt-5 cursor-pointer">
+                            <input type="checkbox" checked={book.recursiveScanning} onChange={e => onChange({ ...book, recursiveScanning: e.target.checked })} className="accent-blue-500" />
+                            <span className="text-slate-300">Recursive scanning</span>
+                        </label>
+                    </div>
+                    <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                        {book.entries.map(entry => (
+                            <li key={entry.id} className="p-2 bg-slate-900/60 rounded text-xs">
+                                <div className="flex items-center gap-2">
+                                    <input type="checkbox" checked={entry.enabled} onChange={e => updateEntry(entry.id, { enabled: e.target.checked })} className="accent-blue-500" aria-label="Entry enabled" />
+                                    <span className="font-semibold text-slate-200 truncate flex-grow">{entry.name}</span>
+                                    <label className="flex items-center gap-1 text-slate-400 cursor-pointer">
+                                        <input type="checkbox" checked={entry.constant} onChange={e => updateEntry(entry.id, { constant: e.target.checked })} className="accent-blue-500" />
+                                        Always
+                                    </label>
+                                    <span className="text-slate-500">{entry.position === 'before_char' ? 'Before' : 'After'} · #{entry.insertionOrder}</span>
+                                </div>
+                                <p className="text-slate-400 mt-1 truncate">
+                                    Keys: {entry.keys.join(', ') || '—'}
+                                    {entry.selective && <> · Also: {entry.secondaryKeys.join(', ')}</>}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </li>
+    );
+};
+
+const WorldInfoSettings: React.FC<WorldInfoSettingsProps> = ({ personas, onSavePersona }) => {
+    const [lorebooks, setLorebooks] = useState<Lorebook[]>(worldInfoService.getLorebooks());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        worldInfoService.load().then(() => setLorebooks(worldInfoService.getLorebooks())).catch(console.error);
+    }, []);
+
+    const run = async (action: () => Promise<void>, successText?: string) => {
+        try {
+            await action();
+            setLorebooks(worldInfoService.getLorebooks());
+            setStatus(successText ? { type: 'success', text: successText } : null);
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        await run(async () => {
+            const book = parseLorebook(JSON.parse(await file.text()), file.name.replace(/\.json$/i, ''));
+            if (!book) throw new Error("This file doesn't contain lorebook entries.");
+            await worldInfoService.addLorebook(book);
+        }, `Imported "${file.name}".`);
+    };
+
+    const handleDelete = (book: Lorebook) => {
+        if (!window.confirm(`Delete lorebook "${book.name}"?`)) return;
+        run(() => worldInfoService.deleteLorebook(book.id));
+    };
+
+    const handleDeleteCharacterBook = (persona: Persona) => {
+        if (!window.confirm(`Remove the lorebook from "${persona.role}"?`)) return;
+        const { characterBook, ...rest } = persona;
+        run(() => onSavePersona(rest));
+    };
+
+    const characterBooks = personas.filter(p => p.characterBook);
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6 md:col-span-2">
+            <div className="flex items-center justify-between mb-1">
+                <h2 className="text-xl font-bold text-white">World Info</h2>
+                <label className="cursor-pointer bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm flex items-center gap-2">
+                    <UploadIcon /> Import Lorebook
+                    <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+                </label>
+            </div>
+            <p className="text-sm text-slate-400 mb-4">Lorebook entries are added to a chat turn only when their keywords appear in the recent messages. Library lorebooks apply to every chat; character lorebooks apply while that character is active.</p>
+            {lorebooks.length === 0 && characterBooks.length === 0 ? (
+                <p className="text-sm text-slate-500">No lorebooks yet. Import a SillyTavern world file, or a character card that contains one.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {lorebooks.map(book => (
+                        <LorebookCard key={book.id} book={book} subtitle="Library" onChange={updated => run(() => worldInfoService.updateLorebook(updated))} onDelete={() => handleDelete(book)} />
+                    ))}
+                    {characterBooks.map(persona => (
+                        <LorebookCard key={persona.id} book={persona.characterBook!} subtitle={`Character: ${persona.role}`} onChange={updated => run(() => onSavePersona({ ...persona, characterBook: updated }))} onDelete={() => handleDeleteCharacterBook(persona)} />
+                    ))}
+                </ul>
+            )}
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default WorldInfoSettings;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { usageService, DEFAULT_USAGE_SETTINGS, type ModelPrice, type UsageSettings } from '../../services/usageService.ts';
+import { parseError } from '../../utils/errorUtils.ts';
+import { TrashIcon } from '../../components/Icons.tsx';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+// Edits the price table and the monthly budget. Changes apply to past usage as well, since costs are
+// worked out when shown.
+const UsageSettingsPanel: React.FC = () => {
+    const [settings, setSettings] = useState<UsageSettings>(usageService.getSettings());
+    const [status, setStatus] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    const update = (changes: Partial<UsageSettings>) => {
+        setSettings(prev => ({ ...prev, ...changes }));
+        setStatus(null);
+    };
+
+    const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+        update({ prices: settings.prices.map((price, i) => i === index ? { ...price, ...changes } : price) });
+    };
+
+    const handleSave = async () => {
+        // Rows without a model would never match anything.
+        const cleaned = { ...settings, prices: settings.prices.map(price => ({ ...price, model: price.model.trim() })).filter(price => price.model) };
+        try {
+            await usageService.save(cleaned);
+            setSettings(cleaned);
+            setStatus({ type: 'success', text: 'Prices and budget saved.' });
+        } catch (err) {
+            setStatus({ type: 'error', text: parseError(err).message });
+        }
+    };
+
+    const handleReset = () => {
+        update({ prices: DEFAULT_USAGE_SETTINGS.prices });
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-lg p-6">
+            <h2 className="text-xl font-bold mb-1 text-white">Prices &amp; Budget</h2>
+            <p className="text-sm text-slate-400 mb-4">Prices are in USD per million tokens; thinking tokens are billed as output. A row matches every model whose name starts with it, and the longest match wins. Models without a row count as free.</p>
+
+            <div className="grid grid-cols-[1fr_7rem_7rem_auto] gap-2 items-center text-sm">
+                <span className="text-slate-400">Model (or prefix)</span>
+                <span className="text-slate-400">Input</span>
+                <span className="text-slate-400">Output</span>
+                <span />
+                {settings.prices.map((price, index) => (
+                    <React.Fragment key={index}>
+                        <input type="text" value={price.model} onChange={e => updatePrice(index, { model: e.target.value })} placeholder="e.g. gemini-3-flash" className={inputClass} aria-label="Model" />
+                        <input type="number" min={0} step={0.05} value={price.inputPerMillion} onChange={e => updatePrice(index, { inputPerMillion: Math.max(0, Number(e.target.value)) })} className={inputClass} aria-label="Input price per million tokens" />
+                        <input type="number" min={0} step={0.05} value={price.outputPerMillion} onChange={e => updatePrice(index, { outputPerMillion: Math.max(0, Number(e.target.value)) })} className={inputClass} aria-label="Output price per million tokens" />
+                        <button onClick={() => update({ prices: settings.prices.filter((_, i) => i !== index) })} className="text-slate-400 hover:text-red-500 p-2" title="Remove"><TrashIcon /></button>
+                    </React.Fragment>
+                ))}
+            </div>
+            <button onClick={() => update({ prices: [...settings.prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }] })} className="mt-2 text-sm text-blue-400 hover:text-blue-300">+ Add price</button>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 text-sm">
+                <label className="block">
+                    <span className="text-slate-400">Monthly budget (USD, 0 for none)</span>
+                    <input type="number" min={0} step={1} value={settings.budget.monthlyLimit} onChange={e => update({ budget: { ...settings.budget, monthlyLimit: Math.max(0, Number(e.target.value)) } })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block">
+                    <span className="text-slate-400">When the budget is reached</span>
+                    <select value={settings.budget.action} onChange={e => update({ budget: { ...settings.budget, action: e.target.value as UsageSettings['budget']['action'] } })} className={`${inputClass} mt-1`}>
+                        <option value="warn">Warn, but keep sending requests</option>
+                        <option value="block">Block new requests</option>
+                    </select>
+                </label>
+            </div>
+
+            <div className="mt-4 flex gap-2">
+                <button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm">Save Prices &amp; Budget</button>
+                <button onClick={handleReset} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm">Reset Prices to Defaults</button>
+            </div>
+            {status && <p className={`text-xs mt-2 ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>}
+        </div>
+    );
+};
+
+export default UsageSettingsPanel;
@@ -0,0 +1,24 @@
+import { useRef, useCallback, useEffect } from 'react';
+
+// Backs a feature's Stop button. `start` hands out the signal for a new request (cancelling any earlier
+// one still running); `stop` aborts it. Whatever is running when the component unmounts is aborted too.
+const useAbortableRequest = () => {
+  const controller = useRef<AbortController | null>(null);
+
+  const start = useCallback(() => {
+    controller.current?.abort();
+    controller.current = new AbortController();
+    return controller.current.signal;
+  }, []);
+
+  const stop = useCallback(() => {
+    controller.current?.abort();
+    controller.current = null;
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return { start, stop };
+};
+
+export default useAbortableRequest;
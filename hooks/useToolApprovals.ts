@@ -0,0 +1,42 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+export interface PendingToolApproval {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+}
+
+type Resolver = (args: Record<string, unknown> | null) => void;
+
+// Queues tool calls that need the user's go-ahead. `requestApproval` is passed to the tool registry and
+// resolves once the user approves (with possibly edited arguments) or declines the card.
+const useToolApprovals = () => {
+  const [pending, setPending] = useState<PendingToolApproval[]>([]);
+  const resolvers = useRef(new Map<string, Resolver>());
+
+  const requestApproval = useCallback((toolName: string, args: Record<string, unknown>) =>
+    new Promise<Record<string, unknown> | null>(resolve => {
+      const id = crypto.randomUUID();
+      resolvers.current.set(id, resolve);
+      setPending(prev => [...prev, { id, toolName, args }]);
+    }), []);
+
+  const resolveApproval = useCallback((id: string, args: Record<string, unknown> | null) => {
+    resolvers.current.get(id)?.(args);
+    resolvers.current.delete(id);
+    setPending(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  // Declines everything still waiting, e.g. when the session that asked has ended.
+  const declineAll = useCallback(() => {
+    resolvers.current.forEach(resolve => resolve(null));
+    resolvers.current.clear();
+    setPending([]);
+  }, []);
+
+  useEffect(() => declineAll, [declineAll]);
+
+  return { pending, requestApproval, resolveApproval, declineAll };
+};
+
+export default useToolApprovals;
@@ -0,0 +1,87 @@
+import { GoogleGenAI } from '@google/genai';
+import { dbService } from './dbService.ts';
+
+const API_KEYS_SETTING_KEY = 'api_keys';
+
+export interface ApiKeyProfile {
+    id: string;
+    name: string;
+    key: string;
+    createdAt: string;
+    lastVerifiedAt?: string;
+}
+
+interface ApiKeyStore {
+    profiles: ApiKeyProfile[];
+    activeProfileId: string | null;
+}
+
+// Keys are held in memory only for the unlocked session; at rest they live in the
+// encrypted settings store like every other setting.
+let store: ApiKeyStore = { profiles: [], activeProfileId: null };
+
+const persist = async (updated: ApiKeyStore): Promise<void> => {
+    await dbService.saveSetting(API_KEYS_SETTING_KEY, updated);
+    store = updated;
+};
+
+export const maskApiKey = (key: string): string => key.length <= 8 ? '••••' : `${key.slice(0, 4)}••••${key.slice(-4)}`;
+
+export const apiKeyService = {
+    getProfiles(): ApiKeyProfile[] {
+        return store.profiles;
+    },
+
+    getActiveProfile(): ApiKeyProfile | null {
+        return store.profiles.find(p => p.id === store.activeProfileId) || null;
+    },
+
+    getActiveKey(): string | null {
+        return this.getActiveProfile()?.key || null;
+    },
+
+    // Must be called after login, since the keys are stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<ApiKeyStore>(API_KEYS_SETTING_KEY);
+        store = saved || { profiles: [], activeProfileId: null };
+    },
+
+    // Forgets the keys while the app is locked; load() brings them back after unlocking.
+    unload(): void {
+        store = { profiles: [], activeProfileId: null };
+    },
+
+    async addProfile(name: string, key: string): Promise<ApiKeyProfile> {
+        const profile: ApiKeyProfile = { id: crypto.randomUUID(), name, key, createdAt: new Date().toISOString() };
+        await persist({
+            profiles: [...store.profiles, profile],
+            // The first key added becomes active so the app works straight away.
+            activeProfileId: store.activeProfileId || profile.id,
+        });
+        return profile;
+    },
+
+    async updateProfile(id: string, updates: Partial<Pick<ApiKeyProfile, 'name' | 'key' | 'lastVerifiedAt'>>): Promise<void> {
+        await persist({
+            ...store,
+            profiles: store.profiles.map(p => p.id === id ? { ...p, ...updates } : p),
+        });
+    },
+
+    async deleteProfile(id: string): Promise<void> {
+        const profiles = store.profiles.filter(p => p.id !== id);
+        await persist({
+            profiles,
+            activeProfileId: store.activeProfileId === id ? (profiles[0]?.id || null) : store.activeProfileId,
+        });
+    },
+
+    async setActive(id: string): Promise<void> {
+        await persist({ ...store, activeProfileId: id });
+    },
+
+    // Makes the cheapest authenticated request available; throws the SDK error if the key is rejected.
+    async verify(key: string): Promise<void> {
+        await new GoogleGenAI({ apiKey: key }).models.list({ config: { pageSize: 1 } });
+    },
+};
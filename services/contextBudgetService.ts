@@ -0,0 +1,41 @@
+import { dbService } from './dbService.ts';
+import { GeminiService } from './geminiService.ts';
+import { DEFAULT_CONTEXT_BUDGET_SETTINGS, type ContextBudgetSettings } from '../utils/contextBudget.ts';
+
+const CONTEXT_BUDGET_KEY = 'context_budget';
+const MAX_CACHED_COUNTS = 200;
+
+let settings: ContextBudgetSettings = DEFAULT_CONTEXT_BUDGET_SETTINGS;
+// Token counts by text. The system prompt and recalled passages repeat from turn to turn, so most
+// counts after the first are free.
+const counts = new Map<string, number>();
+
+export const contextBudgetService = {
+    getSettings(): ContextBudgetSettings {
+        return settings;
+    },
+
+    // Must be called after login, since the settings are stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<Partial<ContextBudgetSettings>>(CONTEXT_BUDGET_KEY);
+        settings = {
+            ...DEFAULT_CONTEXT_BUDGET_SETTINGS,
+            ...(saved || {}),
+            shares: { ...DEFAULT_CONTEXT_BUDGET_SETTINGS.shares, ...(saved?.shares || {}) },
+        };
+    },
+
+    async save(updated: ContextBudgetSettings): Promise<void> {
+        await dbService.saveSetting(CONTEXT_BUDGET_KEY, updated);
+        settings = updated;
+    },
+
+    async count(text: string): Promise<number> {
+        const cached = counts.get(text);
+        if (cached !== undefined) return cached;
+        const tokens = await GeminiService.countTokens(text);
+        if (counts.size >= MAX_CACHED_COUNTS) counts.delete(counts.keys().next().value!);
+        counts.set(text, tokens);
+        return tokens;
+    },
+};
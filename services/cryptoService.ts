@@ -1,34 +1,105 @@
-
 import { encode, decode } from '../utils/helpers.ts';
 
 // In-memory keys for the current session
 let dataEncryptionKey: CryptoKey | null = null;
 let signingKeyPair: CryptoKeyPair | null = null;
+// The replaced keys while vaultService re-encrypts records with new ones. Records not yet
+// re-encrypted are still read with them.
+let previousKeys: VaultKeys | null = null;
+// Set while the session is locked: calls waiting for the keys to come back.
+let unlockWaiters: (() => void)[] | null = null;
 
 const textEncoder = new TextEncoder();
 const textDecoder = new TextDecoder();
 
 // Constants for stored auth metadata
 const AUTH_METADATA_KEY = 'gemini-auth-metadata';
+const LEGACY_ROTATION_KEY = 'gemini-auth-rotation'; // Left by password changes before metadata version 2
 const DB_NAME = 'GeminiAIStudioDB'; // To delete the DB on reset
 
+const METADATA_VERSION = 2;
+
+interface KdfParams {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+}
+
+// What new metadata is written with. Metadata written with other settings is re-wrapped at the next
+// login; since only the vault keys depend on the password, stored data is never touched.
+const CURRENT_KDF: KdfParams = { name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 };
+// Used by metadata without a version, and by backups that don't say which settings they were made with.
+const LEGACY_KDF: KdfParams = { name: 'PBKDF2', hash: 'SHA-256', iterations: 250000 };
+// Caps the work a crafted backup file can make decryptBackup do.
+const MAX_BACKUP_ITERATIONS = 10000000;
+
+// What is wrong with a stored payload: not a payload at all, a signature that matches neither the
+// current nor the replaced keys, or a signed payload that still doesn't decrypt.
+export type PayloadProblem = 'malformed' | 'signature' | 'decryption';
+
+// The random keys all data is encrypted and signed with.
+interface VaultKeys {
+    dataEncryptionKey: CryptoKey;
+    signingKeyPair: CryptoKeyPair;
+}
+
+// Vault keys encrypted under another key.
+interface WrappedKeys {
+    iv: string; // base64
+    encryptedKeys: string; // base64, JSON of the raw data key and the private signing key's JWK
+}
+
 interface AuthMetadata {
+    version: typeof METADATA_VERSION;
+    kdf: KdfParams;
+    salt: string; // base64
+    wrappedKeys: WrappedKeys; // Under the key derived from the password
+    publicSignKey: JsonWebKey;
+    // Set while the vault keys are being replaced: the old keys, wrapped under the new data key.
+    previousKeys?: { wrappedKeys: WrappedKeys; publicSignKey: JsonWebKey };
+    // Set if the user has a recovery key: the same vault keys, under a key derived from it.
+    recovery?: RecoveryWrap;
+}
+
+interface RecoveryWrap {
+    kdf: KdfParams;
+    salt: string; // base64
+    wrappedKeys: WrappedKeys;
+}
+
+// Version 1: the data key was derived straight from the password; only the signing key was stored.
+interface LegacyAuthMetadata {
     salt: string; // base64
     signingKeyIv: string; // base64
     encryptedSigningKey: string; // base64, JWK format of the private key
     publicSignKey: JsonWebKey;
 }
 
+// A version 1 password change in progress, with each password's keys wrapped under the other's.
+interface LegacyKeyRotation {
+    previous: LegacyAuthMetadata;
+    next: LegacyAuthMetadata;
+    nextKeysUnderPrevious: WrappedKeys;
+    previousKeysUnderNext: WrappedKeys;
+}
+
 // --- Key Derivation ---
 
-// Derives a key from a password using PBKDF2.
-const deriveKey = async (passwordKey: CryptoKey, salt: Uint8Array, usage: KeyUsage[]): Promise<CryptoKey> => {
+// Derives a key-encryption key from a password.
+const deriveKey = async (password: string, salt: Uint8Array, kdf: KdfParams, usage: KeyUsage[]): Promise<CryptoKey> => {
+    const passwordKey = await window.crypto.subtle.importKey(
+        'raw',
+        textEncoder.encode(password),
+        kdf.name,
+        false,
+        ['deriveKey']
+    );
     return window.crypto.subtle.deriveKey(
         {
-            name: 'PBKDF2',
+            name: kdf.name,
             salt: salt,
-            iterations: 250000,
-            hash: 'SHA-256',
+            iterations: kdf.iterations,
+            hash: kdf.hash,
         },
         passwordKey,
         { name: 'AES-GCM', length: 256 },
@@ -37,17 +108,190 @@ const deriveKey = async (passwordKey: CryptoKey, salt: Uint8Array, usage: KeyUsa
     );
 };
 
-// Imports the user's password as a base key for derivation.
-const importPasswordKey = (password: string): Promise<CryptoKey> => {
-    return window.crypto.subtle.importKey(
-        'raw',
-        textEncoder.encode(password),
-        'PBKDF2',
-        false,
-        ['deriveKey']
+const isSameKdf = (a: KdfParams, b: KdfParams): boolean =>
+    a.name === b.name && a.hash === b.hash && a.iterations === b.iterations;
+
+// --- Vault keys ---
+
+const generateVaultKeys = async (): Promise<VaultKeys> => ({
+    dataEncryptionKey: await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']),
+    signingKeyPair: await window.crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']),
+});
+
+const wrapKeys = async (keys: VaultKeys, wrappingKey: CryptoKey): Promise<WrappedKeys> => {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const exported = {
+        dataKey: encode(new Uint8Array(await window.crypto.subtle.exportKey('raw', keys.dataEncryptionKey))),
+        signingKey: await window.crypto.subtle.exportKey('jwk', keys.signingKeyPair.privateKey),
+    };
+    const encryptedKeys = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, textEncoder.encode(JSON.stringify(exported)));
+    return { iv: encode(iv), encryptedKeys: encode(new Uint8Array(encryptedKeys)) };
+};
+
+// Rejects if the wrapping key is wrong.
+const unwrapKeys = async (wrapped: WrappedKeys, wrappingKey: CryptoKey, publicSignKeyJwk: JsonWebKey): Promise<VaultKeys> => {
+    const decrypted = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: decode(wrapped.iv) }, wrappingKey, decode(wrapped.encryptedKeys));
+    const { dataKey, signingKey } = JSON.parse(textDecoder.decode(decrypted)) as { dataKey: string; signingKey: JsonWebKey };
+    return {
+        dataEncryptionKey: await window.crypto.subtle.importKey('raw', decode(dataKey), { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']),
+        signingKeyPair: {
+            privateKey: await window.crypto.subtle.importKey('jwk', signingKey, { name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign']),
+            publicKey: await window.crypto.subtle.importKey('jwk', publicSignKeyJwk, { name: 'ECDSA', namedCurve: 'P-256' }, true, ['verify']),
+        },
+    };
+};
+
+// --- Recovery key ---
+
+// Without 0/O and 1/I so a printed key can be typed back in unambiguously.
+const RECOVERY_KEY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_KEY_LENGTH = 32; // 5 bits per character, 160 bits in all
+
+// Formatted in dash-separated groups of four for writing down.
+const generateRecoveryKey = (): string => {
+    const bytes = window.crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_LENGTH));
+    const characters = Array.from(bytes, byte => RECOVERY_KEY_ALPHABET[byte % RECOVERY_KEY_ALPHABET.length]).join('');
+    return characters.match(/.{4}/g)!.join('-');
+};
+
+// Ignores case, spaces and dashes; returns null if what's left can't be a recovery key.
+const normalizeRecoveryKey = (input: string): string | null => {
+    const characters = input.toUpperCase().replace(/[\s-]/g, '');
+    if (characters.length !== RECOVERY_KEY_LENGTH || [...characters].some(c => !RECOVERY_KEY_ALPHABET.includes(c))) {
+        return null;
+    }
+    return characters;
+};
+
+const sealRecovery = async (keys: VaultKeys, recoveryKey: string): Promise<RecoveryWrap> => {
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const keyEncryptionKey = await deriveKey(normalizeRecoveryKey(recoveryKey)!, salt, CURRENT_KDF, ['encrypt']);
+    return { kdf: CURRENT_KDF, salt: encode(salt), wrappedKeys: await wrapKeys(keys, keyEncryptionKey) };
+};
+
+// Rejects if the recovery key is wrong.
+const openRecovery = async (metadata: AuthMetadata & { recovery: RecoveryWrap }, recoveryKey: string): Promise<{ keys: VaultKeys; previous: VaultKeys | null }> => {
+    const { recovery } = metadata;
+    const keyEncryptionKey = await deriveKey(recoveryKey, decode(recovery.salt), recovery.kdf, ['decrypt']);
+    const keys = await unwrapKeys(recovery.wrappedKeys, keyEncryptionKey, metadata.publicSignKey);
+    const previous = metadata.previousKeys
+        ? await unwrapKeys(metadata.previousKeys.wrappedKeys, keys.dataEncryptionKey, metadata.previousKeys.publicSignKey)
+        : null;
+    return { keys, previous };
+};
+
+// --- Metadata ---
+
+const readMetadata = (): AuthMetadata | LegacyAuthMetadata | null => {
+    const metadata = localStorage.getItem(AUTH_METADATA_KEY);
+    return metadata ? JSON.parse(metadata) : null;
+};
+
+const isLegacyMetadata = (metadata: AuthMetadata | LegacyAuthMetadata): metadata is LegacyAuthMetadata =>
+    !('version' in metadata);
+
+// Wraps the vault keys under the password, with a fresh salt and the current KDF settings.
+const sealMetadata = async (keys: VaultKeys, password: string, previous: VaultKeys | null = null): Promise<AuthMetadata> => {
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const keyEncryptionKey = await deriveKey(password, salt, CURRENT_KDF, ['encrypt']);
+    return {
+        version: METADATA_VERSION,
+        kdf: CURRENT_KDF,
+        salt: encode(salt),
+        wrappedKeys: await wrapKeys(keys, keyEncryptionKey),
+        publicSignKey: await window.crypto.subtle.exportKey('jwk', keys.signingKeyPair.publicKey),
+        ...(previous && {
+            previousKeys: {
+                wrappedKeys: await wrapKeys(previous, keys.dataEncryptionKey),
+                publicSignKey: await window.crypto.subtle.exportKey('jwk', previous.signingKeyPair.publicKey),
+            },
+        }),
+    };
+};
+
+// Rejects if the password is wrong.
+const openMetadata = async (metadata: AuthMetadata, password: string): Promise<{ keys: VaultKeys; previous: VaultKeys | null }> => {
+    const keyEncryptionKey = await deriveKey(password, decode(metadata.salt), metadata.kdf, ['decrypt']);
+    const keys = await unwrapKeys(metadata.wrappedKeys, keyEncryptionKey, metadata.publicSignKey);
+    const previous = metadata.previousKeys
+        ? await unwrapKeys(metadata.previousKeys.wrappedKeys, keys.dataEncryptionKey, metadata.previousKeys.publicSignKey)
+        : null;
+    return { keys, previous };
+};
+
+// Rejects if the password is wrong.
+const openLegacyKeys = async (metadata: LegacyAuthMetadata, password: string): Promise<VaultKeys> => {
+    const salt = decode(metadata.salt);
+    const keyEncryptionKey = await deriveKey(password, salt, LEGACY_KDF, ['decrypt']);
+
+    // Attempt to decrypt the private signing key
+    const decryptedSigningKeyBytes = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: decode(metadata.signingKeyIv) },
+        keyEncryptionKey,
+        decode(metadata.encryptedSigningKey)
     );
+
+    const privateSignKeyJwk: JsonWebKey = JSON.parse(textDecoder.decode(decryptedSigningKeyBytes));
+
+    // If decryption succeeds, the password is correct.
+    const privateSignKey = await window.crypto.subtle.importKey('jwk', privateSignKeyJwk, { name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign']);
+    const publicSignKey = await window.crypto.subtle.importKey('jwk', metadata.publicSignKey, { name: 'ECDSA', namedCurve: 'P-256' }, true, ['verify']);
+
+    return {
+        // The same derivation doubled as the data key, which stays the data key after upgrading.
+        dataEncryptionKey: await deriveKey(password, salt, LEGACY_KDF, ['encrypt', 'decrypt']),
+        signingKeyPair: { privateKey: privateSignKey, publicKey: publicSignKey },
+    };
 };
 
+// A version 1 password change in progress can be resumed with either password.
+const openLegacyMetadata = async (metadata: LegacyAuthMetadata, password: string): Promise<{ keys: VaultKeys; previous: VaultKeys | null }> => {
+    const rotationString = localStorage.getItem(LEGACY_ROTATION_KEY);
+    if (!rotationString) {
+        return { keys: await openLegacyKeys(metadata, password), previous: null };
+    }
+    const rotation: LegacyKeyRotation = JSON.parse(rotationString);
+    const previous = await openLegacyKeys(rotation.previous, password).catch(() => null);
+    if (previous) {
+        return { keys: await unwrapKeys(rotation.nextKeysUnderPrevious, previous.dataEncryptionKey, rotation.next.publicSignKey), previous };
+    }
+    const next = await openLegacyKeys(rotation.next, password);
+    return { keys: next, previous: await unwrapKeys(rotation.previousKeysUnderNext, next.dataEncryptionKey, rotation.previous.publicSignKey) };
+};
+
+// Metadata for the signed-in vault, with the keys it opens to confirm the password.
+const requirePassword = async (password: string): Promise<{ metadata: AuthMetadata; keys: VaultKeys; previous: VaultKeys | null }> => {
+    const metadata = readMetadata();
+    if (!metadata || isLegacyMetadata(metadata) || !dataEncryptionKey) {
+        throw new Error("Not authenticated.");
+    }
+    const opened = await openMetadata(metadata, password).catch(() => null);
+    if (!opened) {
+        throw new Error("The current password is incorrect.");
+    }
+    return { metadata, ...opened };
+};
+
+const saveMetadata = (metadata: AuthMetadata) => {
+    localStorage.setItem(AUTH_METADATA_KEY, JSON.stringify(metadata));
+    localStorage.removeItem(LEGACY_ROTATION_KEY);
+};
+
+const setSessionKeys = (keys: VaultKeys, previous: VaultKeys | null = null) => {
+    dataEncryptionKey = keys.dataEncryptionKey;
+    signingKeyPair = keys.signingKeyPair;
+    previousKeys = previous;
+    unlockWaiters?.forEach(resolve => resolve());
+    unlockWaiters = null;
+};
+
+// Lets reads and writes started before a lock, e.g. saving a reply that was still streaming, finish
+// after unlocking instead of failing.
+const untilUnlocked = (): Promise<void> =>
+    unlockWaiters ? new Promise(resolve => unlockWaiters!.push(resolve)) : Promise.resolve();
+
+const verifySignature = (publicKey: CryptoKey, signature: Uint8Array, ciphertext: Uint8Array): Promise<boolean> =>
+    window.crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, publicKey, signature, ciphertext);
 
 // --- Public API ---
 
@@ -56,85 +300,42 @@ export const cryptoService = {
         return localStorage.getItem(AUTH_METADATA_KEY) !== null;
     },
 
-    async setup(password: string): Promise<void> {
+    // Returns the recovery key if one was asked for; it is shown once and never stored.
+    async setup(password: string, withRecoveryKey = false): Promise<string | null> {
         if (this.isSetup()) {
             throw new Error("Application is already set up.");
         }
 
-        const salt = window.crypto.getRandomValues(new Uint8Array(16));
-        const signingKeyIv = window.crypto.getRandomValues(new Uint8Array(12));
-        
-        const passwordKey = await importPasswordKey(password);
-        
-        // Derive a key specifically for encrypting the signing key
-        const keyEncryptionKey = await deriveKey(passwordKey, salt, ['encrypt', 'decrypt']);
-        
-        // Generate the key pair for signing data
-        const newSigningKeyPair = await window.crypto.subtle.generateKey(
-            { name: 'ECDSA', namedCurve: 'P-256' },
-            true,
-            ['sign', 'verify']
-        );
-
-        const privateSignKeyJwk = await window.crypto.subtle.exportKey('jwk', newSigningKeyPair.privateKey);
-
-        // Encrypt the private signing key
-        const encryptedSigningKey = await window.crypto.subtle.encrypt(
-            { name: 'AES-GCM', iv: signingKeyIv },
-            keyEncryptionKey,
-            textEncoder.encode(JSON.stringify(privateSignKeyJwk))
-        );
-        
-        const publicSignKeyJwk = await window.crypto.subtle.exportKey('jwk', newSigningKeyPair.publicKey);
-        
-        const metadata: AuthMetadata = {
-            salt: encode(salt),
-            signingKeyIv: encode(signingKeyIv),
-            encryptedSigningKey: encode(new Uint8Array(encryptedSigningKey)),
-            publicSignKey: publicSignKeyJwk,
-        };
-        
-        localStorage.setItem(AUTH_METADATA_KEY, JSON.stringify(metadata));
-
-        // Also log in to populate in-memory keys
-        await this.login(password);
+        const keys = await generateVaultKeys();
+        const recoveryKey = withRecoveryKey ? generateRecoveryKey() : null;
+        saveMetadata({
+            ...await sealMetadata(keys, password),
+            ...(recoveryKey && { recovery: await sealRecovery(keys, recoveryKey) }),
+        });
+        setSessionKeys(keys);
+        return recoveryKey;
     },
     
     async login(password: string): Promise<boolean> {
-        const metadataString = localStorage.getItem(AUTH_METADATA_KEY);
-        if (!metadataString) {
+        const metadata = readMetadata();
+        if (!metadata) {
             return false;
         }
 
         try {
-            const metadata: AuthMetadata = JSON.parse(metadataString);
-            const salt = decode(metadata.salt);
-            const signingKeyIv = decode(metadata.signingKeyIv);
-            const encryptedSigningKey = decode(metadata.encryptedSigningKey);
-            
-            const passwordKey = await importPasswordKey(password);
-            
-            // Re-derive the key used to encrypt the signing key
-            const keyEncryptionKey = await deriveKey(passwordKey, salt, ['decrypt']);
-
-            // Attempt to decrypt the private signing key
-            const decryptedSigningKeyBytes = await window.crypto.subtle.decrypt(
-                { name: 'AES-GCM', iv: signingKeyIv },
-                keyEncryptionKey,
-                encryptedSigningKey
-            );
-            
-            const privateSignKeyJwk: JsonWebKey = JSON.parse(textDecoder.decode(decryptedSigningKeyBytes));
-
-            // If decryption succeeds, the password is correct. Now load keys into memory.
-            const privateSignKey = await window.crypto.subtle.importKey('jwk', privateSignKeyJwk, { name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign']);
-            const publicSignKey = await window.crypto.subtle.importKey('jwk', metadata.publicSignKey, { name: 'ECDSA', namedCurve: 'P-256' }, true, ['verify']);
-            
-            signingKeyPair = { privateKey: privateSignKey, publicKey: publicSignKey };
-
-            // Derive the separate key for data encryption
-            dataEncryptionKey = await deriveKey(passwordKey, salt, ['encrypt', 'decrypt']);
-
+            if (isLegacyMetadata(metadata)) {
+                // Upgrades to version 2: the derived keys become the vault keys, wrapped like any others.
+                const { keys, previous } = await openLegacyMetadata(metadata, password);
+                saveMetadata(await sealMetadata(keys, password, previous));
+                setSessionKeys(keys, previous);
+                return true;
+            }
+
+            const { keys, previous } = await openMetadata(metadata, password);
+            if (!isSameKdf(metadata.kdf, CURRENT_KDF)) {
+                saveMetadata({ ...await sealMetadata(keys, password, previous), recovery: metadata.recovery });
+            }
+            setSessionKeys(keys, previous);
             return true;
         } catch (error) {
             console.error("Login failed (likely wrong password):", error);
@@ -146,9 +347,142 @@ export const cryptoService = {
     logout(): void {
         dataEncryptionKey = null;
         signingKeyPair = null;
+        previousKeys = null;
+    },
+
+    // Forgets the keys until login() succeeds again. Unlike logout(), encryption and decryption wait
+    // for that instead of failing.
+    lock(): void {
+        this.logout();
+        unlockWaiters ||= [];
+    },
+
+    isLocked(): boolean {
+        return unlockWaiters !== null;
+    },
+
+    // Sets a new password with the recovery key instead of the old password. Signs in on success.
+    async recover(recoveryKey: string, newPassword: string): Promise<boolean> {
+        const metadata = readMetadata();
+        const normalized = normalizeRecoveryKey(recoveryKey);
+        if (!metadata || isLegacyMetadata(metadata) || !metadata.recovery || !normalized) {
+            return false;
+        }
+
+        try {
+            const { keys, previous } = await openRecovery({ ...metadata, recovery: metadata.recovery }, normalized);
+            saveMetadata({ ...await sealMetadata(keys, newPassword, previous), recovery: metadata.recovery });
+            setSessionKeys(keys, previous);
+            return true;
+        } catch (error) {
+            console.error("Recovery failed (likely wrong recovery key):", error);
+            this.logout();
+            return false;
+        }
+    },
+
+    // Re-wraps the vault keys under the new password, which is instant. With `replaceKeys`, new vault
+    // keys are generated too; the old ones are kept, wrapped, until vaultService has re-encrypted every
+    // record and calls completeKeyReplacement(). The recovery key only opens the old keys, so it is
+    // removed.
+    async changePassword(currentPassword: string, newPassword: string, replaceKeys = false): Promise<void> {
+        const current = await requirePassword(currentPassword);
+        if (replaceKeys && current.metadata.previousKeys) {
+            throw new Error("The previous key replacement hasn't finished yet.");
+        }
+
+        if (!replaceKeys) {
+            saveMetadata({ ...await sealMetadata(current.keys, newPassword, current.previous), recovery: current.metadata.recovery });
+            return;
+        }
+        const keys = await generateVaultKeys();
+        saveMetadata(await sealMetadata(keys, newPassword, current.keys));
+        setSessionKeys(keys, current.keys);
+    },
+
+    hasRecoveryKey(): boolean {
+        const metadata = readMetadata();
+        return !!metadata && !isLegacyMetadata(metadata) && !!metadata.recovery;
+    },
+
+    // Replaces any existing recovery key. Returns the new one; it is shown once and never stored.
+    async createRecoveryKey(password: string): Promise<string> {
+        const { metadata, keys } = await requirePassword(password);
+        const recoveryKey = generateRecoveryKey();
+        saveMetadata({ ...metadata, recovery: await sealRecovery(keys, recoveryKey) });
+        return recoveryKey;
+    },
+
+    async removeRecoveryKey(password: string): Promise<void> {
+        const { metadata } = await requirePassword(password);
+        const { recovery: _, ...rest } = metadata;
+        saveMetadata(rest);
+    },
+
+    hasPendingKeyReplacement(): boolean {
+        const metadata = readMetadata();
+        return !!metadata && !isLegacyMetadata(metadata) && !!metadata.previousKeys;
+    },
+
+    // Only call once every record is under the new keys; the old keys are discarded.
+    completeKeyReplacement(): void {
+        const metadata = readMetadata();
+        if (!metadata || isLegacyMetadata(metadata)) return;
+        const { previousKeys: _, ...rest } = metadata;
+        saveMetadata(rest);
+        previousKeys = null;
+    },
+
+    // Whether a payload is signed with the session's current key, i.e. needs no re-encryption.
+    async isCurrentPayload(encryptedPayloadJSON: string): Promise<boolean> {
+        await untilUnlocked();
+        if (!signingKeyPair) {
+            throw new Error("Not authenticated. Cannot verify data.");
+        }
+        const { ciphertext, signature } = JSON.parse(encryptedPayloadJSON);
+        if (!ciphertext || !signature) return false;
+        return verifySignature(signingKeyPair.publicKey, decode(signature), decode(ciphertext));
+    },
+
+    // Checks a payload the way decrypt() would, without handing back its contents. Resolves with the
+    // problem, or null if it reads fine.
+    async inspectPayload(encryptedPayloadJSON: string): Promise<PayloadProblem | null> {
+        await untilUnlocked();
+        if (!dataEncryptionKey || !signingKeyPair) {
+            throw new Error("Not authenticated. Cannot verify data.");
+        }
+
+        let iv: Uint8Array, ciphertext: Uint8Array, signature: Uint8Array;
+        try {
+            const payload = JSON.parse(encryptedPayloadJSON);
+            if (![payload.iv, payload.ciphertext, payload.signature].every(part => typeof part === 'string')) {
+                return 'malformed';
+            }
+            iv = decode(payload.iv);
+            ciphertext = decode(payload.ciphertext);
+            signature = decode(payload.signature);
+        } catch {
+            return 'malformed';
+        }
+
+        let key = dataEncryptionKey;
+        if (!await verifySignature(signingKeyPair.publicKey, signature, ciphertext)) {
+            if (!previousKeys || !await verifySignature(previousKeys.signingKeyPair.publicKey, signature, ciphertext)) {
+                return 'signature';
+            }
+            key = previousKeys.dataEncryptionKey;
+        }
+
+        try {
+            JSON.parse(textDecoder.decode(await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)));
+            return null;
+        } catch {
+            return 'decryption';
+        }
     },
 
     async encrypt(data: any): Promise<string> {
+        await untilUnlocked();
         if (!dataEncryptionKey || !signingKeyPair) {
             throw new Error("Not authenticated. Cannot encrypt data.");
         }
@@ -178,6 +512,7 @@ export const cryptoService = {
     },
 
     async decrypt<T>(encryptedPayloadJSON: string): Promise<T> {
+        await untilUnlocked();
         if (!dataEncryptionKey || !signingKeyPair) {
             throw new Error("Not authenticated. Cannot decrypt data.");
         }
@@ -193,21 +528,18 @@ export const cryptoService = {
         const ciphertext = decode(ciphertextBase64);
         const signature = decode(signatureBase64);
 
-        // Verify the signature first
-        const isValid = await window.crypto.subtle.verify(
-            { name: 'ECDSA', hash: 'SHA-256' },
-            signingKeyPair.publicKey,
-            signature,
-            ciphertext
-        );
-
-        if (!isValid) {
-            throw new Error("Data integrity check failed. The data may have been tampered with.");
+        // Verify the signature first. While keys are being replaced, records not yet re-encrypted carry the old key's signature.
+        let key = dataEncryptionKey;
+        if (!await verifySignature(signingKeyPair.publicKey, signature, ciphertext)) {
+            if (!previousKeys || !await verifySignature(previousKeys.signingKeyPair.publicKey, signature, ciphertext)) {
+                throw new Error("Data integrity check failed. The data may have been tampered with.");
+            }
+            key = previousKeys.dataEncryptionKey;
         }
 
         const decryptedContent = await window.crypto.subtle.decrypt(
             { name: 'AES-GCM', iv: iv },
-            dataEncryptionKey,
+            key,
             ciphertext
         );
         
@@ -216,6 +548,7 @@ export const cryptoService = {
     },
     
     async sign(data: any): Promise<string> {
+        await untilUnlocked();
         if (!signingKeyPair) {
             throw new Error("Not authenticated. Cannot sign data.");
         }
@@ -242,8 +575,7 @@ export const cryptoService = {
     async encryptBackup(data: object, password: string): Promise<string> {
         const salt = window.crypto.getRandomValues(new Uint8Array(16));
         const iv = window.crypto.getRandomValues(new Uint8Array(12));
-        const passwordKey = await importPasswordKey(password);
-        const backupEncryptionKey = await deriveKey(passwordKey, salt, ['encrypt']);
+        const backupEncryptionKey = await deriveKey(password, salt, CURRENT_KDF, ['encrypt']);
 
         const dataString = JSON.stringify(data);
         const encryptedBackup = await window.crypto.subtle.encrypt(
@@ -253,6 +585,7 @@ export const cryptoService = {
         );
 
         return JSON.stringify({
+            kdf: CURRENT_KDF,
             salt: encode(salt),
             iv: encode(iv),
             encryptedData: encode(new Uint8Array(encryptedBackup)),
@@ -261,14 +594,17 @@ export const cryptoService = {
 
     async decryptBackup<T>(encryptedBackupJSON: string, password: string): Promise<T> {
         const payload = JSON.parse(encryptedBackupJSON);
-        const { salt: saltBase64, iv: ivBase64, encryptedData: encryptedDataBase64 } = payload;
+        const { kdf = LEGACY_KDF, salt: saltBase64, iv: ivBase64, encryptedData: encryptedDataBase64 } = payload;
+        // The file is untrusted: only accept the KDF this app writes, with a sane iteration count.
+        if (kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || !Number.isInteger(kdf.iterations) || kdf.iterations < 1 || kdf.iterations > MAX_BACKUP_ITERATIONS) {
+            throw new Error('The backup uses unsupported key derivation settings.');
+        }
 
         const salt = decode(saltBase64);
         const iv = decode(ivBase64);
         const encryptedData = decode(encryptedDataBase64);
 
-        const passwordKey = await importPasswordKey(password);
-        const backupEncryptionKey = await deriveKey(passwordKey, salt, ['decrypt']);
+        const backupEncryptionKey = await deriveKey(password, salt, kdf, ['decrypt']);
 
         const decryptedContent = await window.crypto.subtle.decrypt(
             { name: 'AES-GCM', iv: iv },
@@ -282,6 +618,7 @@ export const cryptoService = {
     reset(): void {
         this.logout();
         localStorage.removeItem(AUTH_METADATA_KEY);
+        localStorage.removeItem(LEGACY_ROTATION_KEY);
         indexedDB.deleteDatabase(DB_NAME); // This will wipe all user data
     }
 };
\ No newline at end of file
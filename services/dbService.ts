@@ -1,13 +1,22 @@
 
-import { ChatMessage, Persona, Memory } from '../types.ts';
-import { cryptoService } from './cryptoService.ts';
+import { ChatMessage, Persona, Memory, Conversation, ConversationMeta, DocumentChunk, UsageRecord } from '../types.ts';
+import { cryptoService, type PayloadProblem } from './cryptoService.ts';
+import { GeminiService } from './geminiService.ts';
+import { isTextDocument, decodeTextDocument, chunkText } from '../utils/textChunker.ts';
+import { toDayKey } from '../utils/helpers.ts';
 
 const DB_NAME = 'GeminiAIStudioDB';
-const DB_VERSION = 6; // Increment for Memory Store
+const DB_VERSION = 9; // Increment for Quarantine Store
 const FILE_STORE = 'files';
 const CHAT_STORE = 'chatHistory';
 const SETTINGS_STORE = 'app_settings';
 const MEMORY_STORE = 'memories';
+const CHUNK_STORE = 'documentChunks';
+const USAGE_STORE = 'usage';
+const QUARANTINE_STORE = 'quarantine';
+// Every store whose records carry an `encryptedPayload` and are in use. Quarantined records are left
+// out: they can't be read, so re-encrypting them would always fail.
+const ENCRYPTED_STORES = [FILE_STORE, CHAT_STORE, SETTINGS_STORE, MEMORY_STORE, CHUNK_STORE, USAGE_STORE];
 
 let dbInstance: IDBDatabase | null = null;
 
@@ -20,6 +29,20 @@ export interface StoredFile {
     data: string; // base64 encoded
 }
 
+// A record that can't be read, by the store and key it is kept under.
+export interface IntegrityIssue {
+    storeName: string;
+    key: IDBValidKey;
+    problem: PayloadProblem;
+}
+
+// A record moved out of its store so the app no longer tries to read it.
+export interface QuarantinedRecord extends IntegrityIssue {
+    id: string; // `${storeName}/${key}`
+    record: any; // As it was in its store, ciphertext included
+    quarantinedAt: number;
+}
+
 
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -52,16 +75,113 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(MEMORY_STORE)) {
         db.createObjectStore(MEMORY_STORE, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        // fileName stays in plaintext (like file store keys) so a file's chunks can be found without decrypting them all
+        const chunkStore = db.createObjectStore(CHUNK_STORE, { keyPath: 'id' });
+        chunkStore.createIndex('fileName', 'fileName', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        // One record per day, keyed YYYY-MM-DD in plaintext so a date range can be read without decrypting older days
+        db.createObjectStore(USAGE_STORE, { keyPath: 'day' });
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+      }
     };
   });
 };
 
-const CHAT_HISTORY_KEY = 'current_chat';
+const deleteChunksOf = (store: IDBObjectStore, fileName: string) => {
+  const request = store.index('fileName').getAllKeys(fileName);
+  request.onsuccess = () => request.result.forEach(key => store.delete(key));
+};
+
+const requestResult = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Swaps in a re-encrypted payload unless the record changed since it was read; anything written
+// meanwhile already used the current keys.
+const replacePayload = (db: IDBDatabase, storeName: string, key: IDBValidKey, previousPayload: string, encryptedPayload: string): Promise<void> => {
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  const request = store.get(key);
+  request.onsuccess = () => {
+    if (request.result?.encryptedPayload === previousPayload) store.put({ ...request.result, encryptedPayload });
+  };
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const LEGACY_CHAT_HISTORY_KEY = 'current_chat';
+const CONVERSATION_INDEX_KEY = 'conversation_index';
 const PERSONAS_KEY = 'chatbot_personas';
 const VOICE_PREF_KEY = 'voice_preference';
 
+const readChatRecord = async <T,>(id: string): Promise<T | null> => {
+  const db = await openDB();
+  const transaction = db.transaction(CHAT_STORE, 'readonly');
+  const store = transaction.objectStore(CHAT_STORE);
+  const request = store.get(id);
+  return new Promise((resolve, reject) => {
+    request.onsuccess = async () => {
+      if (request.result && request.result.encryptedPayload) {
+          try {
+              const decrypted = await cryptoService.decrypt<T>(request.result.encryptedPayload);
+              resolve(decrypted);
+          } catch (error) {
+              console.error(`Could not decrypt chat record "${id}":`, error);
+              resolve(null);
+          }
+      } else {
+          resolve(null);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs read-modify-write tasks one at a time, so concurrent writes can't drop each other's changes.
+const createWriteQueue = () => {
+    let writes: Promise<unknown> = Promise.resolve();
+    return <T,>(task: () => Promise<T>): Promise<T> => {
+        const run = writes.then(task, task);
+        writes = run.catch(() => undefined);
+        return run;
+    };
+};
+
+// Conversation writes update the shared index; usage writes rewrite the whole day's record.
+const queueConversationWrite = createWriteQueue();
+const queueUsageWrite = createWriteQueue();
+
+export const toConversationMeta = ({ messages, branches, accessibleFiles, summary, ...meta }: Conversation): ConversationMeta => ({
+    ...meta,
+    messageCount: messages.length,
+});
+
+const createLegacyConversation = (messages: ChatMessage[], accessibleFiles: string[]): Conversation => {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        title: 'Previous Chat',
+        personaId: '',
+        isArchived: false,
+        createdAt: messages[0]?.timestamp || now,
+        updatedAt: messages[messages.length - 1]?.timestamp || now,
+        messageCount: messages.length,
+        messages,
+        accessibleFiles,
+    };
+};
+
 export const dbService = {
-  async addDocuments(files: StoredFile[]): Promise<void> {
+  // Stores the files, then chunks and embeds text documents for retrieval.
+  // Resolves with the names of files that were saved but could not be indexed (e.g. no API key).
+  async addDocuments(files: StoredFile[]): Promise<string[]> {
     const encryptedFiles = await Promise.all(
         files.map(async (file) => ({
             name: file.name,
@@ -77,12 +197,69 @@ export const dbService = {
         store.put(file);
     }
 
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    return this.indexDocuments(files);
+  },
+
+  // (Re)builds the chunk index for the given files. Failures are per file so one bad document doesn't block the rest.
+  async indexDocuments(files: StoredFile[]): Promise<string[]> {
+    const failed: string[] = [];
+    for (const file of files.filter(isTextDocument)) {
+        try {
+            const pieces = chunkText(decodeTextDocument(file.data));
+            const chunks: DocumentChunk[] = [];
+            for (const [index, content] of pieces.entries()) {
+                chunks.push({ id: `${file.name}#${index}`, fileName: file.name, index, total: pieces.length, content, embedding: await GeminiService.getEmbedding(content) });
+            }
+            await this.saveDocumentChunks(file.name, chunks);
+        } catch (error) {
+            console.error(`Could not index file ${file.name}:`, error);
+            failed.push(file.name);
+        }
+    }
+    return failed;
+  },
+
+  async saveDocumentChunks(fileName: string, chunks: DocumentChunk[]): Promise<void> {
+    const encryptedChunks = await Promise.all(
+        chunks.map(async (chunk) => ({ id: chunk.id, fileName, encryptedPayload: await cryptoService.encrypt(chunk) }))
+    );
+    const db = await openDB();
+    const transaction = db.transaction(CHUNK_STORE, 'readwrite');
+    const store = transaction.objectStore(CHUNK_STORE);
+    deleteChunksOf(store, fileName);
+    for (const chunk of encryptedChunks) {
+        store.put(chunk);
+    }
     return new Promise((resolve, reject) => {
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
     });
   },
 
+  async getDocumentChunks(fileNames: string[]): Promise<DocumentChunk[]> {
+    const db = await openDB();
+    const transaction = db.transaction(CHUNK_STORE, 'readonly');
+    const index = transaction.objectStore(CHUNK_STORE).index('fileName');
+    const records = await Promise.all(fileNames.map(name => new Promise<{ id: string, encryptedPayload: string }[]>((resolve, reject) => {
+      const request = index.getAll(name);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    })));
+    const decryptedChunks: DocumentChunk[] = [];
+    for (const record of records.flat()) {
+        try {
+            decryptedChunks.push(await cryptoService.decrypt<DocumentChunk>(record.encryptedPayload));
+        } catch (error) {
+            console.error(`Could not decrypt chunk ${record.id}:`, error);
+        }
+    }
+    return decryptedChunks;
+  },
+
   async getDocuments(): Promise<StoredFile[]> {
     const db = await openDB();
     const transaction = db.transaction(FILE_STORE, 'readonly');
@@ -108,9 +285,10 @@ export const dbService = {
 
   async removeDocument(fileName: string): Promise<void> {
     const db = await openDB();
-    const transaction = db.transaction(FILE_STORE, 'readwrite');
+    const transaction = db.transaction([FILE_STORE, CHUNK_STORE], 'readwrite');
     const store = transaction.objectStore(FILE_STORE);
     store.delete(fileName);
+    deleteChunksOf(transaction.objectStore(CHUNK_STORE), fileName);
     return new Promise((resolve, reject) => {
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
@@ -129,48 +307,88 @@ export const dbService = {
     });
   },
 
-  async saveChatHistory(messages: ChatMessage[]): Promise<void> {
-    const encryptedPayload = await cryptoService.encrypt(messages);
+  async getConversations(): Promise<ConversationMeta[]> {
+    const index = await readChatRecord<ConversationMeta[]>(CONVERSATION_INDEX_KEY);
+    if (index) return index;
+    const migrated = await this.migrateLegacyChatHistory();
+    if (migrated.length > 0) return migrated;
+    // No index, or one that can't be read or was quarantined. It must not pass for an empty one, or the
+    // next save would write an index holding only that conversation and hide all the others.
+    return this.rebuildConversationIndex();
+  },
+
+  // Lists every stored conversation that can be read, newest first. The next save writes it as the index.
+  async rebuildConversationIndex(): Promise<ConversationMeta[]> {
     const db = await openDB();
-    const transaction = db.transaction(CHAT_STORE, 'readwrite');
-    const store = transaction.objectStore(CHAT_STORE);
-    store.put({ id: CHAT_HISTORY_KEY, encryptedPayload });
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
+    const keys = await requestResult(db.transaction(CHAT_STORE, 'readonly').objectStore(CHAT_STORE).getAllKeys());
+    const conversations = await Promise.all(keys
+        .filter(key => key !== CONVERSATION_INDEX_KEY && key !== LEGACY_CHAT_HISTORY_KEY)
+        .map(key => readChatRecord<Conversation>(String(key))));
+    return conversations
+        .filter((conversation): conversation is Conversation => conversation !== null)
+        .map(toConversationMeta)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    return readChatRecord<Conversation>(id);
+  },
+
+  // Writes the conversation and its index entry in one transaction so the sidebar never drifts from the data.
+  async saveConversation(conversation: Conversation): Promise<void> {
+    return queueConversationWrite(async () => {
+      const index = await this.getConversations();
+      const updatedIndex = [toConversationMeta(conversation), ...index.filter(c => c.id !== conversation.id)];
+      const [conversationPayload, indexPayload] = await Promise.all([
+          cryptoService.encrypt(conversation),
+          cryptoService.encrypt(updatedIndex),
+      ]);
+      const db = await openDB();
+      const transaction = db.transaction(CHAT_STORE, 'readwrite');
+      const store = transaction.objectStore(CHAT_STORE);
+      store.put({ id: conversation.id, encryptedPayload: conversationPayload });
+      store.put({ id: CONVERSATION_INDEX_KEY, encryptedPayload: indexPayload });
+      return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
     });
   },
 
-  async getChatHistory(): Promise<ChatMessage[]> {
-    const db = await openDB();
-    const transaction = db.transaction(CHAT_STORE, 'readonly');
-    const store = transaction.objectStore(CHAT_STORE);
-    const request = store.get(CHAT_HISTORY_KEY);
-    return new Promise((resolve, reject) => {
-      request.onsuccess = async () => {
-        if (request.result && request.result.encryptedPayload) {
-            try {
-                const decrypted = await cryptoService.decrypt<ChatMessage[]>(request.result.encryptedPayload);
-                resolve(decrypted);
-            } catch (error) {
-                console.error("Could not decrypt chat history:", error);
-                resolve([]);
-            }
-        } else {
-            resolve([]);
-        }
-      };
-      request.onerror = () => reject(request.error);
+  async deleteConversation(id: string): Promise<void> {
+    return queueConversationWrite(async () => {
+      const index = await this.getConversations();
+      const indexPayload = await cryptoService.encrypt(index.filter(c => c.id !== id));
+      const db = await openDB();
+      const transaction = db.transaction(CHAT_STORE, 'readwrite');
+      const store = transaction.objectStore(CHAT_STORE);
+      store.delete(id);
+      store.put({ id: CONVERSATION_INDEX_KEY, encryptedPayload: indexPayload });
+      return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
     });
   },
 
-  async clearChatHistory(): Promise<void> {
+  // Older versions kept a single chat under `current_chat`; turn it into the first saved conversation.
+  async migrateLegacyChatHistory(): Promise<ConversationMeta[]> {
+    const legacyMessages = await readChatRecord<ChatMessage[]>(LEGACY_CHAT_HISTORY_KEY);
+    if (!legacyMessages || legacyMessages.length === 0) return [];
+
+    const accessibleFiles = await this.getSetting('accessibleFiles') as string[] | null;
+    const conversation = createLegacyConversation(legacyMessages, accessibleFiles || []);
+    const indexPayload = await cryptoService.encrypt([toConversationMeta(conversation)]);
+    const conversationPayload = await cryptoService.encrypt(conversation);
+
     const db = await openDB();
     const transaction = db.transaction(CHAT_STORE, 'readwrite');
     const store = transaction.objectStore(CHAT_STORE);
-    store.delete(CHAT_HISTORY_KEY);
-     return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => resolve();
+    store.put({ id: conversation.id, encryptedPayload: conversationPayload });
+    store.put({ id: CONVERSATION_INDEX_KEY, encryptedPayload: indexPayload });
+    store.delete(LEGACY_CHAT_HISTORY_KEY);
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve([toConversationMeta(conversation)]);
       transaction.onerror = () => reject(transaction.error);
     });
   },
@@ -292,6 +510,23 @@ export const dbService = {
       });
   },
 
+  async updateMemory(memory: Memory): Promise<void> {
+      return this.addMemory(memory);
+  },
+
+  async deleteMemories(ids: string[]): Promise<void> {
+      const db = await openDB();
+      const transaction = db.transaction(MEMORY_STORE, 'readwrite');
+      const store = transaction.objectStore(MEMORY_STORE);
+      for (const id of ids) {
+          store.delete(id);
+      }
+      return new Promise((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+      });
+  },
+
   async getMemories(): Promise<Memory[]> {
       const db = await openDB();
       const transaction = db.transaction(MEMORY_STORE, 'readonly');
@@ -315,45 +550,292 @@ export const dbService = {
       });
   },
 
+  async addUsageRecord(record: UsageRecord): Promise<void> {
+      return queueUsageWrite(async () => {
+          const day = toDayKey(record.timestamp);
+          const db = await openDB();
+          const existing = await new Promise<{ day: string, encryptedPayload: string } | undefined>((resolve, reject) => {
+              const request = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE).get(day);
+              request.onsuccess = () => resolve(request.result);
+              request.onerror = () => reject(request.error);
+          });
+          // A day that can't be decrypted is left alone rather than overwritten.
+          const records = existing ? await cryptoService.decrypt<UsageRecord[]>(existing.encryptedPayload) : [];
+          const encryptedPayload = await cryptoService.encrypt([...records, record]);
+          const transaction = db.transaction(USAGE_STORE, 'readwrite');
+          transaction.objectStore(USAGE_STORE).put({ day, encryptedPayload });
+          return new Promise<void>((resolve, reject) => {
+              transaction.oncomplete = () => resolve();
+              transaction.onerror = () => reject(transaction.error);
+          });
+      });
+  },
+
+  // Records from `fromDay` (YYYY-MM-DD) onwards, oldest first.
+  async getUsageRecords(fromDay: string): Promise<UsageRecord[]> {
+      const db = await openDB();
+      const transaction = db.transaction(USAGE_STORE, 'readonly');
+      const request = transaction.objectStore(USAGE_STORE).getAll(IDBKeyRange.lowerBound(fromDay));
+      return new Promise((resolve, reject) => {
+          request.onsuccess = async () => {
+              const encryptedRecords = request.result as { day: string, encryptedPayload: string }[];
+              const decryptedRecords: UsageRecord[] = [];
+              for (const record of encryptedRecords) {
+                  try {
+                      decryptedRecords.push(...await cryptoService.decrypt<UsageRecord[]>(record.encryptedPayload));
+                  } catch (error) {
+                      console.error(`Could not decrypt usage for ${record.day}:`, error);
+                  }
+              }
+              resolve(decryptedRecords);
+          };
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  async clearUsageRecords(): Promise<void> {
+      return queueUsageWrite(async () => {
+          const db = await openDB();
+          const transaction = db.transaction(USAGE_STORE, 'readwrite');
+          transaction.objectStore(USAGE_STORE).clear();
+          return new Promise<void>((resolve, reject) => {
+              transaction.oncomplete = () => resolve();
+              transaction.onerror = () => reject(transaction.error);
+          });
+      });
+  },
+
+  // Adds records in bulk, one write per day. Used when restoring a backup into an emptied store.
+  async addUsageRecords(records: UsageRecord[]): Promise<void> {
+      const byDay = new Map<string, UsageRecord[]>();
+      for (const record of records) {
+          const day = toDayKey(record.timestamp);
+          byDay.set(day, [...(byDay.get(day) || []), record]);
+      }
+      return queueUsageWrite(async () => {
+          const encrypted = await Promise.all([...byDay].map(async ([day, dayRecords]) => ({ day, encryptedPayload: await cryptoService.encrypt(dayRecords) })));
+          const db = await openDB();
+          const transaction = db.transaction(USAGE_STORE, 'readwrite');
+          const store = transaction.objectStore(USAGE_STORE);
+          encrypted.forEach(record => store.put(record));
+          return new Promise<void>((resolve, reject) => {
+              transaction.oncomplete = () => resolve();
+              transaction.onerror = () => reject(transaction.error);
+          });
+      });
+  },
+
+  // Re-encrypts every record that isn't under the session's current keys yet, one record at a time.
+  // Safe to interrupt and run again: finished records are skipped. Resolves with the number of records
+  // that could not be decrypted and were left as they were.
+  async reencryptAll(onProgress?: (done: number, total: number) => void): Promise<number> {
+      const db = await openDB();
+      const keysByStore = await Promise.all(ENCRYPTED_STORES.map(name => requestResult(db.transaction(name, 'readonly').objectStore(name).getAllKeys())));
+      const total = keysByStore.reduce((sum, keys) => sum + keys.length, 0);
+      let done = 0;
+      let failed = 0;
+      onProgress?.(done, total);
+
+      for (const [index, storeName] of ENCRYPTED_STORES.entries()) {
+          for (const key of keysByStore[index]) {
+              const record = await requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+              try {
+                  if (record?.encryptedPayload && !await cryptoService.isCurrentPayload(record.encryptedPayload)) {
+                      const encryptedPayload = await cryptoService.encrypt(await cryptoService.decrypt(record.encryptedPayload));
+                      await replacePayload(db, storeName, key, record.encryptedPayload, encryptedPayload);
+                  }
+              } catch (error) {
+                  console.error(`Could not re-encrypt ${storeName} record "${String(key)}":`, error);
+                  failed++;
+              }
+              onProgress?.(++done, total);
+          }
+      }
+      return failed;
+  },
+
+  // Checks the signature and decryption of every record. Resolves with the ones that can't be read;
+  // the getters skip those, which is why they otherwise only show up as missing data.
+  async scanIntegrity(onProgress?: (done: number, total: number) => void): Promise<IntegrityIssue[]> {
+      const db = await openDB();
+      const keysByStore = await Promise.all(ENCRYPTED_STORES.map(name => requestResult(db.transaction(name, 'readonly').objectStore(name).getAllKeys())));
+      const total = keysByStore.reduce((sum, keys) => sum + keys.length, 0);
+      const issues: IntegrityIssue[] = [];
+      let done = 0;
+      onProgress?.(done, total);
+
+      for (const [index, storeName] of ENCRYPTED_STORES.entries()) {
+          for (const key of keysByStore[index]) {
+              const record = await requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+              // Deleted since the keys were listed
+              if (record) {
+                  const problem = typeof record.encryptedPayload === 'string' ? await cryptoService.inspectPayload(record.encryptedPayload) : 'malformed';
+                  if (problem) issues.push({ storeName, key, problem });
+              }
+              onProgress?.(++done, total);
+          }
+      }
+      return issues;
+  },
+
+  // The record exactly as stored, for exporting one that can't be read.
+  async getRawRecord(storeName: string, key: IDBValidKey): Promise<any> {
+      const db = await openDB();
+      return requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+  },
+
+  async deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+      const db = await openDB();
+      const storeNames = storeName === FILE_STORE ? [FILE_STORE, CHUNK_STORE] : [storeName];
+      const transaction = db.transaction(storeNames, 'readwrite');
+      transaction.objectStore(storeName).delete(key);
+      if (storeName === FILE_STORE) deleteChunksOf(transaction.objectStore(CHUNK_STORE), String(key));
+      return new Promise((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+      });
+  },
+
+  async quarantineRecord(issue: IntegrityIssue): Promise<void> {
+      const db = await openDB();
+      const transaction = db.transaction([issue.storeName, QUARANTINE_STORE], 'readwrite');
+      const store = transaction.objectStore(issue.storeName);
+      const request = store.get(issue.key);
+      request.onsuccess = () => {
+          if (!request.result) return;
+          const quarantined: QuarantinedRecord = { ...issue, id: `${issue.storeName}/${String(issue.key)}`, record: request.result, quarantinedAt: Date.now() };
+          transaction.objectStore(QUARANTINE_STORE).put(quarantined);
+          store.delete(issue.key);
+      };
+      return new Promise((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+      });
+  },
+
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+      const db = await openDB();
+      return requestResult(db.transaction(QUARANTINE_STORE, 'readonly').objectStore(QUARANTINE_STORE).getAll());
+  },
+
+  // Puts a record back where it came from, e.g. to try it again with a newer version of the app.
+  // Refuses if something has been saved under its key since, rather than overwrite that.
+  async restoreQuarantinedRecord(id: string): Promise<void> {
+      const db = await openDB();
+      const quarantined = await requestResult<QuarantinedRecord | undefined>(db.transaction(QUARANTINE_STORE, 'readonly').objectStore(QUARANTINE_STORE).get(id));
+      if (!quarantined) return;
+      const transaction = db.transaction([quarantined.storeName, QUARANTINE_STORE], 'readwrite');
+      const store = transaction.objectStore(quarantined.storeName);
+      const request = store.getKey(quarantined.key);
+      request.onsuccess = () => {
+          if (request.result !== undefined) {
+              transaction.abort();
+              return;
+          }
+          store.put(quarantined.record);
+          transaction.objectStore(QUARANTINE_STORE).delete(id);
+      };
+      return new Promise((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onabort = () => reject(transaction.error || new Error("Something new has been saved in its place since. Export or delete the record instead."));
+      });
+  },
+
+  async deleteQuarantinedRecord(id: string): Promise<void> {
+      const db = await openDB();
+      const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+      transaction.objectStore(QUARANTINE_STORE).delete(id);
+      return new Promise((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+      });
+  },
+
+  // Leaves the quarantine alone: it isn't part of backups, so restoring one would otherwise lose those
+  // records for good.
   async clearAllData(): Promise<void> {
       const db = await openDB();
-      const transaction = db.transaction([FILE_STORE, CHAT_STORE, SETTINGS_STORE, MEMORY_STORE], 'readwrite');
+      const transaction = db.transaction([FILE_STORE, CHAT_STORE, SETTINGS_STORE, MEMORY_STORE, CHUNK_STORE, USAGE_STORE], 'readwrite');
       const fileStore = transaction.objectStore(FILE_STORE);
       const chatStore = transaction.objectStore(CHAT_STORE);
       const settingsStore = transaction.objectStore(SETTINGS_STORE);
       const memoryStore = transaction.objectStore(MEMORY_STORE);
+      const chunkStore = transaction.objectStore(CHUNK_STORE);
+      const usageStore = transaction.objectStore(USAGE_STORE);
 
       await Promise.all([
           new Promise<void>((res, rej) => { const r = fileStore.clear(); r.onsuccess = () => res(); r.onerror = () => rej(r.error); }),
           new Promise<void>((res, rej) => { const r = chatStore.clear(); r.onsuccess = () => res(); r.onerror = () => rej(r.error); }),
           new Promise<void>((res, rej) => { const r = settingsStore.clear(); r.onsuccess = () => res(); r.onerror = () => rej(r.error); }),
           new Promise<void>((res, rej) => { const r = memoryStore.clear(); r.onsuccess = () => res(); r.onerror = () => rej(r.error); }),
+          new Promise<void>((res, rej) => { const r = chunkStore.clear(); r.onsuccess = () => res(); r.onerror = () => rej(r.error); }),
+          new Promise<void>((res, rej) => { const r = usageStore.clear(); r.onsuccess = () => res(); r.onerror = () => rej(r.error); }),
       ]);
   },
 
   async getAllDataForBackup(): Promise<object> {
-      const [files, chatHistory, personas, voicePreference, accessibleFiles, memories] = await Promise.all([
+      const [files, conversationIndex, personas, voicePreference, accessibleFiles, memories, lorebooks, plugins, toolPolicies, usageSettings, modelProvider, apiKeys, modelRegistry, memoryRetrieval, contextBudget, lockSettings, usageRecords, toolAuditLog] = await Promise.all([
           this.getDocuments(),
-          this.getChatHistory(),
+          this.getConversations(),
           this.getPersonas(),
           this.getVoicePreference(),
           this.getSetting('accessibleFiles'),
           this.getMemories(),
+          this.getSetting('lorebooks'),
+          this.getSetting('plugins'),
+          this.getSetting('toolPolicies'),
+          this.getSetting('usage_settings'),
+          this.getSetting('model_provider'),
+          this.getSetting('api_keys'),
+          this.getSetting('model_registry'),
+          this.getSetting('memory_retrieval'),
+          this.getSetting('context_budget'),
+          this.getSetting('lock_settings'),
+          this.getUsageRecords(''),
+          this.getSetting('toolAuditLog'),
       ]);
-      return { files, chatHistory, personas, voicePreference, accessibleFiles, memories };
+      const conversations = (await Promise.all(conversationIndex.map(c => this.getConversation(c.id)))).filter(Boolean);
+      return { files, conversations, personas, voicePreference, accessibleFiles, memories, lorebooks, plugins, toolPolicies, usageSettings, modelProvider, apiKeys, modelRegistry, memoryRetrieval, contextBudget, lockSettings, usageRecords, toolAuditLog };
   },
 
   async importAndOverwriteAllData(data: any): Promise<void> {
-      const { files, chatHistory, personas, voicePreference, accessibleFiles, memories } = data;
+      const { files, conversations, chatHistory, personas, voicePreference, accessibleFiles, memories, lorebooks, plugins, toolPolicies, usageSettings, modelProvider, apiKeys, modelRegistry, memoryRetrieval, contextBudget, lockSettings, usageRecords, toolAuditLog } = data;
+      // Backups made before API keys were included would otherwise leave none at all.
+      const currentApiKeys = apiKeys ? null : await this.getSetting('api_keys');
+      // Likewise for backups made before usage history was included.
+      const currentUsageRecords = usageRecords ? null : await this.getUsageRecords('');
       
       await this.clearAllData();
 
       // Now save the new data. These functions will re-encrypt with the current session key.
+      // Chunks aren't part of backups; adding the files re-indexes them with the current embedding provider.
       if (files && Array.isArray(files) && files.length > 0) await this.addDocuments(files);
-      if (chatHistory && Array.isArray(chatHistory) && chatHistory.length > 0) await this.saveChatHistory(chatHistory);
+      if (conversations && Array.isArray(conversations)) {
+          for (const c of conversations) {
+              await this.saveConversation(c);
+          }
+      }
+      // Backups made before multiple conversations existed carry a single `chatHistory` array.
+      if (chatHistory && Array.isArray(chatHistory) && chatHistory.length > 0) {
+          await this.saveConversation(createLegacyConversation(chatHistory, accessibleFiles || []));
+      }
       if (personas && Array.isArray(personas) && personas.length > 0) await this.savePersonas(personas);
       if (voicePreference) await this.saveVoicePreference(voicePreference);
       if (accessibleFiles) await this.saveSetting('accessibleFiles', accessibleFiles);
+      if (lorebooks && Array.isArray(lorebooks)) await this.saveSetting('lorebooks', lorebooks);
+      if (plugins && Array.isArray(plugins)) await this.saveSetting('plugins', plugins);
+      if (toolPolicies && typeof toolPolicies === 'object') await this.saveSetting('toolPolicies', toolPolicies);
+      if (usageSettings && typeof usageSettings === 'object') await this.saveSetting('usage_settings', usageSettings);
+      if (modelProvider && typeof modelProvider === 'object') await this.saveSetting('model_provider', modelProvider);
+      if (apiKeys && typeof apiKeys === 'object') await this.saveSetting('api_keys', apiKeys);
+      else if (currentApiKeys) await this.saveSetting('api_keys', currentApiKeys);
+      if (modelRegistry && typeof modelRegistry === 'object') await this.saveSetting('model_registry', modelRegistry);
+      if (memoryRetrieval && typeof memoryRetrieval === 'object') await this.saveSetting('memory_retrieval', memoryRetrieval);
+      if (contextBudget && typeof contextBudget === 'object') await this.saveSetting('context_budget', contextBudget);
+      if (lockSettings && typeof lockSettings === 'object') await this.saveSetting('lock_settings', lockSettings);
+      if (usageRecords && Array.isArray(usageRecords)) await this.addUsageRecords(usageRecords.filter(r => r && typeof r.timestamp === 'number'));
+      else if (currentUsageRecords) await this.addUsageRecords(currentUsageRecords);
+      if (toolAuditLog && Array.isArray(toolAuditLog)) await this.saveSetting('toolAuditLog', toolAuditLog);
       if (memories && Array.isArray(memories) && memories.length > 0) {
           for (const m of memories) {
               await this.addMemory(m);
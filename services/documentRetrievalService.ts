@@ -0,0 +1,38 @@
+import type { DocumentChunk } from '../types.ts';
+import { dbService, StoredFile } from './dbService.ts';
+import { GeminiService, cosineSimilarity } from './geminiService.ts';
+import { isTextDocument } from '../utils/textChunker.ts';
+
+const TOP_K = 5;
+const MIN_SIMILARITY = 0.3; // Lower than memory recall: document passages rarely paraphrase the question
+
+export interface ScoredChunk {
+    chunk: DocumentChunk;
+    score: number;
+}
+
+// Files added before chunking existed have no index yet; they are indexed the first time they're searched.
+const indexMissing = async (files: StoredFile[], chunks: DocumentChunk[]): Promise<DocumentChunk[]> => {
+    const indexed = new Set(chunks.map(c => c.fileName));
+    const missing = files.filter(f => isTextDocument(f) && !indexed.has(f.name));
+    if (missing.length === 0) return chunks;
+    await dbService.indexDocuments(missing);
+    return [...chunks, ...await dbService.getDocumentChunks(missing.map(f => f.name))];
+};
+
+export const documentRetrievalService = {
+    // Top-matching chunks across the given files, best first.
+    async retrieve(query: string, files: StoredFile[], topK: number = TOP_K): Promise<ScoredChunk[]> {
+        const textFiles = files.filter(isTextDocument);
+        if (textFiles.length === 0) return [];
+        const chunks = await indexMissing(textFiles, await dbService.getDocumentChunks(textFiles.map(f => f.name)));
+        if (chunks.length === 0) return [];
+
+        const queryEmbedding = await GeminiService.getEmbedding(query);
+        return chunks
+            .map(chunk => ({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+            .filter(item => item.score >= MIN_SIMILARITY)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    },
+};
@@ -1,14 +1,14 @@
 
-import { GoogleGenAI, Type, Modality, Chat, GenerateContentResponse, LiveServerMessage, FunctionDeclaration, Content } from '@google/genai';
-import { Persona } from '../types.ts';
-
-const getAi = (): GoogleGenAI => {
-    if (!process.env.API_KEY) {
-        console.error("API_KEY environment variable not set.");
-        throw new Error("API key is missing.");
-    }
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
+import { Type, Modality, GenerateContentResponse, LiveServerMessage, FunctionDeclaration, Content } from '@google/genai';
+import { Persona, UsageRecord } from '../types.ts';
+import { getAi, toGeminiGenerationConfig, toTokenUsage } from './providers/geminiProvider.ts';
+import { providerService, DEFAULT_PROVIDER_CONFIGS } from './providerService.ts';
+import { modelSettingsService } from './modelSettingsService.ts';
+import { requestQueue } from './requestQueue.ts';
+import { usageService } from './usageService.ts';
+import { estimateTokens } from '../utils/contextBudget.ts';
+import { isAbortError } from '../utils/errorUtils.ts';
+import type { ChatChunk, ChatOptions, ChatSession, ProviderConfig, TokenUsage } from './providers/types.ts';
 
 type LiveCallbacks = {
     onopen?: () => void;
@@ -17,25 +17,108 @@ type LiveCallbacks = {
     onclose?: (e: CloseEvent) => void;
 };
 
-const imageGenerationTool: FunctionDeclaration = {
-    name: 'generateImage',
-    parameters: {
-        type: Type.OBJECT,
-        description: 'Generates an image based on a textual description.',
-        properties: {
-            prompt: { type: Type.STRING, description: 'A detailed description of the image to generate.' },
-            style: { type: Type.STRING, description: 'The artistic style, e.g., "photorealistic", "anime", "cartoon".' },
-        },
-        required: ['prompt'],
-    },
+const toToolConfig = (functionDeclarations: FunctionDeclaration[]): { functionDeclarations: FunctionDeclaration[] }[] | undefined =>
+    functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined;
+
+type UsageFeature = UsageRecord['feature'];
+type UsageReporter = (usage: TokenUsage) => void;
+
+// Provider settings that name the model a feature uses when its registry entry is empty.
+const PROVIDER_MODEL_FIELDS: Partial<Record<UsageFeature, keyof ProviderConfig>> = {
+    'embedding': 'embeddingModel',
+    'reasoning': 'reasoningModel',
+    'image-gen': 'imageModel',
+    'audio-transcription': 'transcriptionModel',
+};
+
+// Names the model of a request that failed before the API reported one.
+const modelOf = (feature: UsageFeature): string => {
+    const resolved = feature === 'embedding' ? undefined : modelSettingsService.resolve(feature).model;
+    return resolved || String(providerService.getConfig()[PROVIDER_MODEL_FIELDS[feature] ?? 'chatModel']);
 };
 
-const chatTools: { functionDeclarations: FunctionDeclaration[] }[] = [
-    { functionDeclarations: [imageGenerationTool] }
-];
+// Usage the API didn't report counts as none.
+const logUsage = (feature: UsageFeature, usage: TokenUsage | undefined, startedAt: number, status: UsageRecord['status']) => {
+    usageService.record({
+        feature,
+        model: usage?.model || modelOf(feature),
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        thinkingTokens: usage?.thinkingTokens ?? 0,
+        latencyMs: Math.round(performance.now() - startedAt),
+        status,
+    });
+};
+
+// Every model call checks the monthly budget, goes through the request queue and is logged with the
+// tokens it used. Only the attempt that settled the call is timed, and stopped calls aren't logged.
+const callModel = async <T,>(feature: UsageFeature, request: (onUsage: UsageReporter) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    usageService.checkBudget();
+    let startedAt = performance.now();
+    let usage: TokenUsage | undefined;
+    try {
+        const result = await requestQueue.run(() => {
+            startedAt = performance.now();
+            return request(reported => { usage = reported; });
+        }, signal);
+        logUsage(feature, usage, startedAt, 'success');
+        return result;
+    } catch (error) {
+        if (!isAbortError(error)) logUsage(feature, usage, startedAt, 'error');
+        throw error;
+    }
+};
+
+// For direct SDK calls, which don't go through a provider that reports usage itself.
+const reportingUsage = (model: string, onUsage: UsageReporter) => (response: GenerateContentResponse): GenerateContentResponse => {
+    onUsage(toTokenUsage(model, response.usageMetadata));
+    return response;
+};
+
+// Chat sessions report usage after every message, so each send is logged like a single call. A stream
+// is retried only until it starts, and logged once it has been read to the end; a failure while
+// reading it reaches the caller.
+const createTrackedChat = (feature: 'chat' | 'reasoning', options: ChatOptions): ChatSession => {
+    let report: UsageReporter = () => {};
+    const session = providerService.getProvider().createChat({ ...options, onUsage: usage => report(usage) });
+    return {
+        sendMessage: params => callModel(feature, onUsage => {
+            report = onUsage;
+            return session.sendMessage(params);
+        }, params.signal),
+
+        async sendMessageStream(params) {
+            usageService.checkBudget();
+            let startedAt = performance.now();
+            let usage: TokenUsage | undefined;
+            report = reported => { usage = reported; };
+            let stream: AsyncGenerator<ChatChunk>;
+            try {
+                stream = await requestQueue.run(() => {
+                    startedAt = performance.now();
+                    return session.sendMessageStream(params);
+                }, params.signal);
+            } catch (error) {
+                if (!isAbortError(error)) logUsage(feature, usage, startedAt, 'error');
+                throw error;
+            }
+            return (async function* () {
+                try {
+                    yield* stream;
+                } catch (error) {
+                    if (!isAbortError(error)) logUsage(feature, usage, startedAt, 'error');
+                    throw error;
+                }
+                logUsage(feature, usage, startedAt, 'success');
+            })();
+        },
+    };
+};
 
 // Helper to calculate cosine similarity between two vectors
 export const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
+    // Embeddings from different providers/models are not comparable.
+    if (vecA.length === 0 || vecA.length !== vecB.length) return 0;
     let dotProduct = 0;
     let normA = 0;
     let normB = 0;
@@ -48,36 +131,34 @@ export const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
 };
 
 export const GeminiService = {
-    createChat: (systemInstruction?: string): Chat => {
-        return getAi().chats.create({
-            model: 'gemini-3-flash-preview',
-            config: { 
-                ...(systemInstruction && { systemInstruction }),
-                tools: chatTools,
-            },
-        });
+    // Callers pick the tools from the tool registry, so each feature offers only what it can run.
+    createChat: (systemInstruction?: string, tools: FunctionDeclaration[] = []): ChatSession => {
+        return createTrackedChat('chat', { systemInstruction, tools: toToolConfig(tools), ...modelSettingsService.resolve('chat') });
     },
 
-    createChatWithHistory: (history: Content[], systemInstruction?: string): Chat => {
-        return getAi().chats.create({
-            model: 'gemini-3-flash-preview',
-            history: history,
-            config: { 
-                ...(systemInstruction && { systemInstruction }),
-                tools: chatTools,
-            },
-        });
+    createChatWithHistory: (history: Content[], systemInstruction?: string, tools: FunctionDeclaration[] = []): ChatSession => {
+        return createTrackedChat('chat', { history, systemInstruction, tools: toToolConfig(tools), ...modelSettingsService.resolve('chat') });
     },
 
-    getEmbedding: async (text: string): Promise<number[]> => {
-        const response = await getAi().models.embedContent({
-            model: 'text-embedding-004',
-            contents: text,
-        });
-        return response.embedding?.values || [];
+    getEmbedding: async (text: string, signal?: AbortSignal): Promise<number[]> => {
+        return callModel('embedding', onUsage => providerService.getProvider().embed(text, { signal, onUsage }), signal);
+    },
+
+    // Exact where the provider can count tokens, estimated otherwise. Counting is never worth failing a
+    // request over, so errors fall back to the estimate too.
+    countTokens: async (text: string, signal?: AbortSignal): Promise<number> => {
+        const provider = providerService.getProvider();
+        if (!text || !provider.countTokens) return estimateTokens(text);
+        try {
+            return await provider.countTokens(text, { model: modelSettingsService.resolve('chat').model, signal });
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            console.warn("Token count failed, using an estimate:", error);
+            return estimateTokens(text);
+        }
     },
 
-    getPersonaSuggestion: async (field: keyof Persona, currentPersona: Partial<Persona>): Promise<string> => {
+    getPersonaSuggestion: async (field: keyof Persona, currentPersona: Partial<Persona>, signal?: AbortSignal): Promise<string> => {
         // FIX: Exclude avatarUrl (base64) and internal IDs to prevent exceeding token limits.
         const { avatarUrl, id, isActive, voice, ...relevantContext } = currentPersona;
 
@@ -88,21 +169,22 @@ export const GeminiService = {
         
         const prompt = `Based on the following partial persona, suggest a creative value for "${field}".\n\nContext: ${personaContext || 'No details yet.'}`;
         
-        const response = await getAi().models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: prompt
-        });
-        
-        return response.text.trim();
+        const text = await callModel('settings', onUsage => providerService.getProvider().generateText({ contents: prompt, ...modelSettingsService.resolve('settings'), signal, onUsage }), signal);
+        return text.trim();
     },
 
-    createPersonaFromText: async (description: string): Promise<Partial<Persona>> => {
+    createPersonaFromText: async (description: string, signal?: AbortSignal): Promise<Partial<Persona>> => {
         const prompt = `Extract character attributes into JSON:\n\n${description}`;
+        const { model: configured, params } = modelSettingsService.resolve('settings');
+        // Structured output is Gemini-only. The registry entry is shared with the provider-routed persona
+        // calls, so it only names a Gemini model while Gemini is the active provider.
+        const model = (providerService.getConfig().id === 'gemini' && configured) || DEFAULT_PROVIDER_CONFIGS.gemini.chatModel;
 
-        const response = await getAi().models.generateContent({
-            model: 'gemini-3-flash-preview',
+        const response = await callModel('settings', onUsage => getAi().models.generateContent({
+            model,
             contents: prompt,
             config: {
+                ...toGeminiGenerationConfig(params),
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.OBJECT,
@@ -114,109 +196,150 @@ export const GeminiService = {
                         characterDescription: { type: Type.STRING },
                         scenario: { type: Type.STRING },
                     }
-                }
+                },
+                ...(signal && { abortSignal: signal }),
             }
-        });
+        }).then(reportingUsage(model, onUsage)), signal);
         
         return JSON.parse(response.text.trim());
     },
 
-    summarizeConversation: async (history: Content[]): Promise<string> => {
+    summarizeConversation: async (history: Content[], signal?: AbortSignal): Promise<string> => {
         const conversationText = history
             .map(c => `${c.role}: ${c.parts.map(p => ('text' in p) ? p.text : '').join('')}`)
             .join('\n\n');
 
-        const response = await getAi().models.generateContent({
-            model: 'gemini-3-flash-preview',
+        return callModel('chat', onUsage => providerService.getProvider().generateText({
             contents: `Create a detailed working summary of this conversation to serve as long-term memory. Capture key events, user preferences, and the current state of the narrative:\n\n${conversationText}`,
-        });
+            ...modelSettingsService.resolve('chat'),
+            signal,
+            onUsage,
+        }), signal);
+    },
 
-        return response.text;
+    // Group chat narrator: picks who speaks next. Null means nobody matched (e.g. the model chose the user).
+    chooseNextSpeaker: async (names: string[], transcript: string, allowUser: boolean, signal?: AbortSignal): Promise<string | null> => {
+        const text = await callModel('chat', onUsage => providerService.getProvider().generateText({
+            contents: `You are the narrator of a group conversation between the user and these characters: ${names.join(', ')}.\n\nConversation so far:\n${transcript}\n\nWho should speak next? Answer with exactly one character name${allowUser ? ', or USER if the user should respond next' : ''}, and nothing else.`,
+            ...modelSettingsService.resolve('chat'),
+            signal,
+            onUsage,
+        }), signal);
+        const answer = text.trim().toLowerCase();
+        return names.find(name => answer.includes(name.toLowerCase())) || null;
     },
 
-    analyzeImage: async (prompt: string, imageBase64: string, mimeType: string): Promise<GenerateContentResponse> => {
-        return getAi().models.generateContent({
-            model: 'gemini-3-flash-preview',
+    analyzeImage: async (prompt: string, imageBase64: string, mimeType: string, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+        const { model, params } = modelSettingsService.resolve('image-analysis');
+        return callModel('image-analysis', onUsage => getAi().models.generateContent({
+            model: model!,
             contents: { parts: [{ inlineData: { data: imageBase64, mimeType } }, { text: prompt }] },
-        });
+            config: { ...toGeminiGenerationConfig(params), ...(signal && { abortSignal: signal }) },
+        }).then(reportingUsage(model!, onUsage)), signal);
     },
 
-    generateImage: async (prompt: string, aspectRatio: string, negativePrompt?: string): Promise<string[]> => {
-        const response = await getAi().models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: `${prompt}${negativePrompt ? ` (avoid: ${negativePrompt})` : ''}` }] },
-            config: { imageConfig: { aspectRatio: aspectRatio as any } }
-        });
-        const images: string[] = [];
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) images.push(part.inlineData.data);
-        }
-        return images;
+    generateImage: async (prompt: string, aspectRatio: string, negativePrompt?: string, signal?: AbortSignal): Promise<string[]> => {
+        return callModel('image-gen', onUsage => providerService.getProvider().generateImage(
+            `${prompt}${negativePrompt ? ` (avoid: ${negativePrompt})` : ''}`,
+            aspectRatio,
+            { ...modelSettingsService.resolve('image-gen'), signal, onUsage },
+        ), signal);
     },
 
-    analyzeVideo: async (prompt: string, videoBase64: string, mimeType: string): Promise<GenerateContentResponse> => {
-        return getAi().models.generateContent({
-            model: 'gemini-3-pro-preview',
+    analyzeVideo: async (prompt: string, videoBase64: string, mimeType: string, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+        const { model, params } = modelSettingsService.resolve('video-analysis');
+        return callModel('video-analysis', onUsage => getAi().models.generateContent({
+            model: model!,
             contents: { parts: [{ inlineData: { data: videoBase64, mimeType } }, { text: prompt }] },
-        });
+            config: { ...toGeminiGenerationConfig(params), ...(signal && { abortSignal: signal }) },
+        }).then(reportingUsage(model!, onUsage)), signal);
     },
 
-    transcribeAudio: async (audioBase64: string, mimeType: string): Promise<GenerateContentResponse> => {
-        return getAi().models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: { parts: [{ inlineData: { data: audioBase64, mimeType } }, { text: 'Transcribe this audio:' }] },
-        });
+    transcribeAudio: async (audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<string> => {
+        return callModel('audio-transcription', onUsage => providerService.getProvider().transcribe(audioBase64, mimeType, { ...modelSettingsService.resolve('audio-transcription'), signal, onUsage }), signal);
     },
 
-    analyzeDocument: async (text: string, prompt: string): Promise<GenerateContentResponse> => {
-        return getAi().models.generateContent({
-            model: 'gemini-3-flash-preview',
+    analyzeDocument: async (text: string, prompt: string, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+        const { model, params } = modelSettingsService.resolve('file-library');
+        return callModel('file-library', onUsage => getAi().models.generateContent({
+            model: model!,
             contents: `${prompt}\n\nContent:\n${text}`,
-        });
+            config: { ...toGeminiGenerationConfig(params), ...(signal && { abortSignal: signal }) },
+        }).then(reportingUsage(model!, onUsage)), signal);
     },
 
-    groundedSearch: async (prompt: string, useMaps: boolean, location?: {latitude: number, longitude: number}): Promise<GenerateContentResponse> => {
+    groundedSearch: async (prompt: string, useMaps: boolean, location?: {latitude: number, longitude: number}, signal?: AbortSignal): Promise<GenerateContentResponse> => {
         const tools: any[] = [{ googleSearch: {} }];
         if (useMaps) tools.push({ googleMaps: {} });
+        const { model, params } = modelSettingsService.resolve('grounding');
 
-        return getAi().models.generateContent({
-            model: 'gemini-3-flash-preview',
+        return callModel('grounding', onUsage => getAi().models.generateContent({
+            model: model!,
             contents: prompt,
             config: {
+                ...toGeminiGenerationConfig(params),
                 tools,
                 ...(useMaps && location && { toolConfig: { retrievalConfig: { latLng: location } } }),
+                ...(signal && { abortSignal: signal }),
             },
-        });
+        }).then(reportingUsage(model!, onUsage)), signal);
     },
     
-    browseWebsite: async (url: string): Promise<string> => {
+    browseWebsite: async (url: string, signal?: AbortSignal): Promise<string> => {
         try {
-            const response = await fetch(url);
+            const response = await fetch(url, { signal });
             const html = await response.text();
             const textContent = html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
-            const summaryResponse = await getAi().models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: `Summarize this content:\n\n${textContent.substring(0, 10000)}`
-            });
-            return summaryResponse.text;
+            return await callModel('chat', onUsage => providerService.getProvider().generateText({
+                contents: `Summarize this content:\n\n${textContent.substring(0, 10000)}`,
+                ...modelSettingsService.resolve('chat'),
+                signal,
+                onUsage,
+            }), signal);
         } catch (error: any) {
+            if (signal?.aborted) throw error;
             return `Failed to browse ${url}: ${error.message}`;
         }
     },
 
-    complexReasoning: async (prompt: string): Promise<GenerateContentResponse> => {
-        return getAi().models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: prompt,
-            config: { thinkingConfig: { thinkingBudget: 32768 } },
+    // A thinking-mode session for Complex Reasoning, so the model can call tools between thoughts.
+    createReasoningChat: (tools: FunctionDeclaration[] = []): ChatSession => {
+        const { model, params } = modelSettingsService.resolve('reasoning');
+        return createTrackedChat('reasoning', {
+            model: model || providerService.getConfig().reasoningModel,
+            params,
+            tools: toToolConfig(tools),
+            thinkingBudget: 32768,
         });
     },
 
-    connectLive: (callbacks: LiveCallbacks, voiceName: string, tools?: { functionDeclarations: FunctionDeclaration[] }[], customSystemInstruction?: string) => {
-        return getAi().live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-            callbacks,
+    // Aborting closes the session, including one that is still connecting. Live sessions report usage
+    // per turn; turns are logged as they come, without a latency.
+    connectLive: (callbacks: LiveCallbacks, voiceName: string, tools?: { functionDeclarations: FunctionDeclaration[] }[], customSystemInstruction?: string, signal?: AbortSignal) => {
+        usageService.checkBudget();
+        const { model, params: { stopSequences, ...params } } = modelSettingsService.resolve('live');
+        const session = getAi().live.connect({
+            model: model!,
+            callbacks: {
+                ...callbacks,
+                onmessage: message => {
+                    if (message.usageMetadata) {
+                        const { promptTokenCount, responseTokenCount, thoughtsTokenCount } = message.usageMetadata;
+                        usageService.record({
+                            feature: 'live',
+                            model: model!,
+                            inputTokens: promptTokenCount ?? 0,
+                            outputTokens: responseTokenCount ?? 0,
+                            thinkingTokens: thoughtsTokenCount ?? 0,
+                            latencyMs: 0,
+                            status: 'success',
+                        });
+                    }
+                    callbacks.onmessage?.(message);
+                },
+            },
             config: {
+                ...toGeminiGenerationConfig(params),
                 responseModalities: [Modality.AUDIO],
                 speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName || 'Zephyr' } } },
                 inputAudioTranscription: {},
@@ -225,5 +348,7 @@ export const GeminiService = {
                 ...(tools && { tools }),
             },
         });
+        signal?.addEventListener('abort', () => { session.then(s => s.close()).catch(() => {}); }, { once: true });
+        return session;
     }
 };
@@ -0,0 +1,105 @@
+import { cryptoService } from './cryptoService.ts';
+import { dbService } from './dbService.ts';
+import { apiKeyService } from './apiKeyService.ts';
+import { providerService } from './providerService.ts';
+
+const LOCK_SETTINGS_KEY = 'lock_settings';
+const CHECK_INTERVAL_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+// Dispatched on window with whether the app is locked, whenever that changes.
+export const LOCK_EVENT = 'lockChanged';
+
+export interface LockSettings {
+    idleMinutes: number; // 0 = never lock for inactivity
+    hiddenMinutes: number; // 0 = never lock while the tab is in the background
+}
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = { idleMinutes: 15, hiddenMinutes: 5 };
+
+let settings: LockSettings = DEFAULT_LOCK_SETTINGS;
+let lastActivity = Date.now();
+let hiddenSince: number | null = null;
+
+const setLocked = (locked: boolean) => {
+    window.dispatchEvent(new CustomEvent<boolean>(LOCK_EVENT, { detail: locked }));
+};
+
+const isOverdue = (since: number, minutes: number) => minutes > 0 && Date.now() - since >= minutes * 60 * 1000;
+
+// Background tabs throttle timers, so this also runs as soon as the tab is shown again.
+const checkTimeouts = () => {
+    if (cryptoService.isLocked()) return;
+    if (isOverdue(lastActivity, settings.idleMinutes) || (hiddenSince !== null && isOverdue(hiddenSince, settings.hiddenMinutes))) {
+        lockService.lock();
+    }
+};
+
+const handleActivity = () => {
+    lastActivity = Date.now();
+};
+
+const handleVisibilityChange = () => {
+    if (document.hidden) {
+        hiddenSince = Date.now();
+        return;
+    }
+    checkTimeouts();
+    hiddenSince = null;
+    lastActivity = Date.now();
+};
+
+export const lockService = {
+    getSettings(): LockSettings {
+        return settings;
+    },
+
+    // Must be called after login, since the settings are stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<Partial<LockSettings>>(LOCK_SETTINGS_KEY);
+        settings = { ...DEFAULT_LOCK_SETTINGS, ...(saved || {}) };
+    },
+
+    async save(updated: LockSettings): Promise<void> {
+        await dbService.saveSetting(LOCK_SETTINGS_KEY, updated);
+        settings = updated;
+    },
+
+    // Watches for inactivity and hidden time while the app is unlocked. Returns a function that stops.
+    start(): () => void {
+        lastActivity = Date.now();
+        hiddenSince = document.hidden ? Date.now() : null;
+        ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        const interval = window.setInterval(checkTimeouts, CHECK_INTERVAL_MS);
+        return () => {
+            ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.clearInterval(interval);
+        };
+    },
+
+    isLocked(): boolean {
+        return cryptoService.isLocked();
+    },
+
+    lock(): void {
+        if (cryptoService.isLocked()) return;
+        cryptoService.lock();
+        // API keys are decrypted copies held by their services, so they go along with the encryption keys.
+        apiKeyService.unload();
+        providerService.unload();
+        setLocked(true);
+    },
+
+    async unlock(password: string): Promise<boolean> {
+        const success = await cryptoService.login(password);
+        if (success) {
+            await Promise.all([apiKeyService.load(), providerService.load()]);
+            lastActivity = Date.now();
+            hiddenSince = document.hidden ? Date.now() : null;
+            setLocked(false);
+        }
+        return success;
+    },
+};
@@ -0,0 +1,98 @@
+import type { Memory } from '../types.ts';
+import { dbService } from './dbService.ts';
+import { GeminiService, cosineSimilarity } from './geminiService.ts';
+
+const MEMORY_RETRIEVAL_KEY = 'memory_retrieval';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MemoryRetrievalSettings {
+    minSimilarity: number; // Raw cosine similarity a memory must reach to be considered at all
+    topK: number;
+    includeGlobal: boolean; // Also recall memories with no associated persona
+    recencyWeight: number; // 0 = ignore age, 1 = score depends entirely on recency
+    recencyHalfLifeDays: number; // Age at which the recency factor has halved
+    duplicateThreshold: number; // Candidates this similar to an already chosen memory are dropped
+    tagWeights: Record<string, number>; // Importance multipliers; a memory uses its highest tag weight
+}
+
+export interface ScoredMemory {
+    memory: Memory;
+    similarity: number;
+    score: number;
+}
+
+export const DEFAULT_MEMORY_RETRIEVAL_SETTINGS: MemoryRetrievalSettings = {
+    minSimilarity: 0.5,
+    topK: 5,
+    includeGlobal: true,
+    recencyWeight: 0.2,
+    recencyHalfLifeDays: 30,
+    duplicateThreshold: 0.92,
+    tagWeights: {
+        'user-command': 1.2,
+        'user-defined': 1.2,
+        'semantic': 1.1,
+        'working-summary': 0.9,
+    },
+};
+
+let settings: MemoryRetrievalSettings = DEFAULT_MEMORY_RETRIEVAL_SETTINGS;
+
+const importanceOf = (memory: Memory, tagWeights: Record<string, number>): number => {
+    const weights = memory.tags.map(tag => tagWeights[tag]).filter((w): w is number => typeof w === 'number');
+    return weights.length > 0 ? Math.max(...weights) : 1;
+};
+
+// Pure ranking step, separate from I/O so the same rules apply wherever memories are recalled.
+export const rankMemories = (
+    memories: Memory[],
+    queryEmbedding: number[],
+    personaId: string | undefined,
+    options: MemoryRetrievalSettings,
+    now: number = Date.now(),
+): ScoredMemory[] => {
+    const candidates = memories
+        .filter(m => m.associatedPersonaId ? m.associatedPersonaId === personaId : options.includeGlobal)
+        .map(memory => {
+            const similarity = cosineSimilarity(queryEmbedding, memory.embedding);
+            const ageDays = Math.max(0, now - memory.timestamp) / DAY_MS;
+            const recency = options.recencyHalfLifeDays > 0 ? Math.pow(0.5, ageDays / options.recencyHalfLifeDays) : 1;
+            const recencyFactor = (1 - options.recencyWeight) + options.recencyWeight * recency;
+            return { memory, similarity, score: similarity * recencyFactor * importanceOf(memory, options.tagWeights) };
+        })
+        .filter(item => item.similarity >= options.minSimilarity)
+        .sort((a, b) => b.score - a.score);
+
+    // Greedy near-duplicate removal: keep the best-scoring copy of anything that says the same thing.
+    const selected: ScoredMemory[] = [];
+    for (const candidate of candidates) {
+        if (selected.length >= options.topK) break;
+        const isDuplicate = selected.some(s => cosineSimilarity(s.memory.embedding, candidate.memory.embedding) >= options.duplicateThreshold);
+        if (!isDuplicate) selected.push(candidate);
+    }
+    return selected;
+};
+
+export const memoryRetrievalService = {
+    getSettings(): MemoryRetrievalSettings {
+        return settings;
+    },
+
+    // Must be called after login, since the settings are stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<Partial<MemoryRetrievalSettings>>(MEMORY_RETRIEVAL_KEY);
+        settings = { ...DEFAULT_MEMORY_RETRIEVAL_SETTINGS, ...(saved || {}) };
+    },
+
+    async save(updated: MemoryRetrievalSettings): Promise<void> {
+        await dbService.saveSetting(MEMORY_RETRIEVAL_KEY, updated);
+        settings = updated;
+    },
+
+    async retrieve(query: string, personaId?: string): Promise<ScoredMemory[]> {
+        const allMemories = await dbService.getMemories();
+        if (allMemories.length === 0) return [];
+        const queryEmbedding = await GeminiService.getEmbedding(query);
+        return rankMemories(allMemories, queryEmbedding, personaId, settings);
+    },
+};
@@ -0,0 +1,60 @@
+import type { FeatureId } from '../types.ts';
+import { dbService } from './dbService.ts';
+import type { GenerationParams } from './providers/types.ts';
+
+const MODEL_REGISTRY_KEY = 'model_registry';
+
+export interface FeatureModelSettings extends GenerationParams {
+    model: string; // Empty = use the active provider's default model
+}
+
+// Features that make their own model calls; the Memory Manager only re-embeds through the provider,
+// and the usage dashboard makes none.
+export type ModelFeatureId = Exclude<FeatureId, 'memory' | 'usage'>;
+
+export type ModelRegistry = Record<ModelFeatureId, FeatureModelSettings>;
+
+// Features that always talk to Gemini directly (live audio, grounding, media analysis) need
+// a concrete model; the rest default to whatever the active provider is configured with.
+export const GEMINI_ONLY_FEATURES: ModelFeatureId[] = ['live', 'grounding', 'image-analysis', 'video-analysis', 'file-library'];
+
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+    'live': { model: 'gemini-2.5-flash-native-audio-preview-09-2025' },
+    'chat': { model: '' },
+    'reasoning': { model: '' },
+    'grounding': { model: 'gemini-3-flash-preview' },
+    'image-analysis': { model: 'gemini-3-flash-preview' },
+    'image-gen': { model: '' },
+    'video-analysis': { model: 'gemini-3-pro-preview' },
+    'audio-transcription': { model: '' },
+    'file-library': { model: 'gemini-3-flash-preview' },
+    'settings': { model: '' },
+};
+
+let registry: ModelRegistry = DEFAULT_MODEL_REGISTRY;
+
+export const modelSettingsService = {
+    getRegistry(): ModelRegistry {
+        return registry;
+    },
+
+    // Resolves the model and sampling parameters a GeminiService call should use for a feature.
+    resolve(featureId: ModelFeatureId): { model?: string; params: GenerationParams } {
+        const { model, ...params } = { ...DEFAULT_MODEL_REGISTRY[featureId], ...registry[featureId] };
+        return {
+            model: model || DEFAULT_MODEL_REGISTRY[featureId].model || undefined,
+            params,
+        };
+    },
+
+    // Must be called after login, since the registry is stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<Partial<ModelRegistry>>(MODEL_REGISTRY_KEY);
+        registry = { ...DEFAULT_MODEL_REGISTRY, ...(saved || {}) };
+    },
+
+    async save(updated: ModelRegistry): Promise<void> {
+        await dbService.saveSetting(MODEL_REGISTRY_KEY, updated);
+        registry = updated;
+    },
+};
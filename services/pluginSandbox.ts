@@ -0,0 +1,217 @@
+import type { InstalledPlugin, PluginPermission } from '../types.ts';
+import { parseError } from '../utils/errorUtils.ts';
+
+// Each plugin runs in its own hidden iframe with `sandbox="allow-scripts"` and no `allow-same-origin`.
+// The frame gets an opaque origin, so it can't reach the app's IndexedDB, storage, DOM or the keys held
+// by cryptoService, and its CSP blocks fetch, XHR and loading other resources. That is not a full network
+// block: a frame can still navigate itself (with data in the URL) or open a WebRTC connection, so anything a
+// plugin can read may leave the device. Navigation is caught below and stops the plugin; what it can read is
+// limited to what the host hands over through a MessagePort, according to the permissions in its manifest.
+
+const START_TIMEOUT_MS = 5000;
+const CALL_TIMEOUT_MS = 15000;
+
+export type PluginCallKind = 'command' | 'tool';
+
+export interface PluginConversationMessage {
+    role: 'user' | 'model' | 'system';
+    name: string;
+    text: string;
+}
+
+// The app side of a single command or tool call.
+export interface PluginHost {
+    getConversation: () => PluginConversationMessage[];
+    addMessage: (text: string) => void;
+}
+
+export interface PluginSandbox {
+    call: (kind: PluginCallKind, name: string, args: unknown, host: PluginHost) => Promise<unknown>;
+    destroy: () => void;
+}
+
+const REQUEST_PERMISSIONS: Record<string, PluginPermission> = {
+    getConversation: 'conversation:read',
+    addMessage: 'conversation:write',
+};
+
+// Runs inside the frame. Plugin code sees only the `plugin` object: it registers handlers with
+// plugin.command(name, fn) and plugin.tool(name, fn); handlers get (args, ctx), where ctx.getConversation()
+// and ctx.addMessage(text) are forwarded to the host.
+const BOOTSTRAP = `
+(() => {
+    const handlers = { command: new Map(), tool: new Map() };
+    const pending = new Map();
+    let port = null;
+    let nextRequestId = 0;
+
+    const request = (callId, method, params) => new Promise((resolve, reject) => {
+        const requestId = ++nextRequestId;
+        pending.set(requestId, { resolve, reject });
+        port.postMessage({ type: 'request', callId, requestId, method, params });
+    });
+
+    const plugin = Object.freeze({
+        command: (name, handler) => { handlers.command.set(String(name), handler); },
+        tool: (name, handler) => { handlers.tool.set(String(name), handler); },
+    });
+
+    const handleCall = async ({ callId, kind, name, args }) => {
+        const ctx = Object.freeze({
+            getConversation: () => request(callId, 'getConversation'),
+            addMessage: (text) => request(callId, 'addMessage', { text: String(text) }),
+        });
+        try {
+            const handler = handlers[kind] && handlers[kind].get(name);
+            if (!handler) throw new Error('No handler is registered for ' + kind + ' "' + name + '".');
+            const result = await handler(args, ctx);
+            port.postMessage({ type: 'result', callId, result: result === undefined ? null : JSON.parse(JSON.stringify(result)) });
+        } catch (error) {
+            port.postMessage({ type: 'error', callId, message: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    addEventListener('message', (event) => {
+        if (port || event.source !== parent || !event.data || event.data.type !== 'connect' || !event.ports[0]) return;
+        event.stopImmediatePropagation();
+        port = event.ports[0];
+        port.onmessage = ({ data }) => {
+            if (data.type === 'init') {
+                try {
+                    new Function('plugin', '"use strict";\\n' + data.code)(plugin);
+                    port.postMessage({ type: 'ready' });
+                } catch (error) {
+                    port.postMessage({ type: 'ready', error: error instanceof Error ? error.message : String(error) });
+                }
+            } else if (data.type === 'call') {
+                handleCall(data);
+            } else if (data.type === 'response' && pending.has(data.requestId)) {
+                const { resolve, reject } = pending.get(data.requestId);
+                pending.delete(data.requestId);
+                if (data.error) reject(new Error(data.error));
+                else resolve(data.result);
+            }
+        };
+    });
+})();
+`;
+
+const SANDBOX_HTML = `<!DOCTYPE html><html><head><meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'"></head><body><script>${BOOTSTRAP}</script></body></html>`;
+
+interface PendingCall {
+    host: PluginHost;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+// `onStopped` runs once the sandbox is torn down, whether by destroy(), a failed start or a hung call. It
+// gets a reason when the plugin was stopped for breaking out of its sandbox.
+export const createPluginSandbox = (plugin: InstalledPlugin, onStopped: (failure?: string) => void): PluginSandbox => {
+    const { manifest } = plugin;
+    const channel = new MessageChannel();
+    const port = channel.port1;
+    const calls = new Map<string, PendingCall>();
+    let onReady: ((error?: string) => void) | null = null;
+    let isStopped = false;
+
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', 'allow-scripts');
+    iframe.style.display = 'none';
+    iframe.srcdoc = SANDBOX_HTML;
+
+    const destroy = (failure?: string) => {
+        if (isStopped) return;
+        isStopped = true;
+        port.close();
+        iframe.remove();
+        for (const call of calls.values()) {
+            clearTimeout(call.timer);
+            call.reject(new Error(failure || `Plugin "${manifest.name}" was stopped.`));
+        }
+        calls.clear();
+        onStopped(failure);
+    };
+
+    const handleRequest = (data: any) => {
+        const respond = (result: unknown, error?: string) => port.postMessage({ type: 'response', requestId: data.requestId, result, error });
+        const call = calls.get(data.callId);
+        if (!call) return respond(null, "This call has already finished.");
+        const permission = REQUEST_PERMISSIONS[data.method];
+        if (!permission) return respond(null, `Unknown request "${data.method}".`);
+        if (!manifest.permissions.includes(permission)) return respond(null, `The plugin doesn't have the "${permission}" permission.`);
+        try {
+            if (data.method === 'getConversation') respond(call.host.getConversation());
+            else respond(call.host.addMessage(String(data.params?.text ?? '')) ?? null);
+        } catch (error) {
+            respond(null, parseError(error).message);
+        }
+    };
+
+    port.onmessage = ({ data }) => {
+        if (data?.type === 'ready') {
+            onReady?.(data.error);
+        } else if (data?.type === 'request') {
+            handleRequest(data);
+        } else if (data?.type === 'result' || data?.type === 'error') {
+            const call = calls.get(data.callId);
+            if (!call) return;
+            calls.delete(data.callId);
+            clearTimeout(call.timer);
+            if (data.type === 'result') call.resolve(data.result);
+            else call.reject(new Error(`${manifest.name}: ${data.message}`));
+        }
+    };
+
+    const ready = new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            reject(new Error(`Plugin "${manifest.name}" didn't start in time.`));
+            destroy();
+        }, START_TIMEOUT_MS);
+        onReady = (error) => {
+            clearTimeout(timer);
+            onReady = null;
+            if (error) {
+                reject(new Error(`Plugin "${manifest.name}" failed to start: ${error}`));
+                destroy();
+            } else {
+                resolve();
+            }
+        };
+        // The srcdoc loads once. Any later load means the plugin navigated its frame, which can carry data
+        // out in the URL.
+        let hasLoaded = false;
+        iframe.onload = () => {
+            if (hasLoaded) {
+                const failure = `Plugin "${manifest.name}" tried to navigate away from its sandbox and was stopped.`;
+                clearTimeout(timer);
+                onReady = null;
+                reject(new Error(failure));
+                destroy(failure);
+                return;
+            }
+            hasLoaded = true;
+            iframe.contentWindow?.postMessage({ type: 'connect' }, '*', [channel.port2]);
+            port.postMessage({ type: 'init', code: plugin.code });
+        };
+        document.body.appendChild(iframe);
+    });
+
+    return {
+        call: async (kind, name, args, host) => {
+            await ready;
+            const callId = crypto.randomUUID();
+            return new Promise((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    calls.delete(callId);
+                    reject(new Error(`Plugin "${manifest.name}" took too long to answer and was stopped.`));
+                    // A handler that never returns may be stuck in a loop; a fresh frame starts on the next call.
+                    destroy();
+                }, CALL_TIMEOUT_MS);
+                calls.set(callId, { host, resolve, reject, timer });
+                port.postMessage({ type: 'call', callId, kind, name, args });
+            });
+        },
+        destroy: () => destroy(),
+    };
+};
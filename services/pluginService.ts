@@ -0,0 +1,124 @@
+import type { FunctionDeclaration, Schema } from '@google/genai';
+import type { InstalledPlugin, PluginCommand, PluginTool } from '../types.ts';
+import { dbService } from './dbService.ts';
+import { createPluginSandbox, type PluginCallKind, type PluginHost, type PluginSandbox } from './pluginSandbox.ts';
+import { parsePluginPackage, findNameConflict } from '../utils/plugins.ts';
+
+const PLUGINS_SETTING_KEY = 'plugins';
+
+// Installed plugins (manifest and code) are stored encrypted like every other setting.
+let plugins: InstalledPlugin[] = [];
+// Sandboxes start on a plugin's first call and are reused until it changes or is stopped.
+const sandboxes = new Map<string, PluginSandbox>();
+
+const persist = async (updated: InstalledPlugin[]): Promise<void> => {
+    await dbService.saveSetting(PLUGINS_SETTING_KEY, updated);
+    plugins = updated;
+};
+
+const stopSandbox = (id: string) => {
+    sandboxes.get(id)?.destroy();
+};
+
+const getSandbox = (plugin: InstalledPlugin): PluginSandbox => {
+    let sandbox = sandboxes.get(plugin.id);
+    if (!sandbox) {
+        const created = createPluginSandbox(plugin, (failure) => {
+            if (sandboxes.get(plugin.id) === created) sandboxes.delete(plugin.id);
+            // A plugin that broke out of its sandbox stays off until the user turns it back on.
+            if (failure) persist(plugins.map(p => p.id === plugin.id ? { ...p, isEnabled: false, failure } : p)).catch(console.error);
+        });
+        sandboxes.set(plugin.id, created);
+        sandbox = created;
+    }
+    return sandbox;
+};
+
+// Plugin manifests use JSON Schema ("object"); Gemini schemas use upper-case type names ("OBJECT").
+const toGeminiSchema = (schema: any): Schema => {
+    const { type, properties, items, ...rest } = schema || {};
+    const result: Schema = { ...rest };
+    if (type) result.type = String(type).toUpperCase() as Schema['type'];
+    if (properties) {
+        result.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)]));
+    }
+    if (items) result.items = toGeminiSchema(items);
+    return result;
+};
+
+const toFunctionDeclaration = (tool: PluginTool): FunctionDeclaration => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters ? toGeminiSchema(tool.parameters) : toGeminiSchema({ type: 'object', properties: {} }),
+});
+
+const enabledPlugins = () => plugins.filter(p => p.isEnabled);
+
+const invoke = (plugin: InstalledPlugin, kind: PluginCallKind, name: string, args: unknown, host: PluginHost): Promise<unknown> => {
+    return getSandbox(plugin).call(kind, name, args, host);
+};
+
+export const pluginService = {
+    getPlugins(): InstalledPlugin[] {
+        return plugins;
+    },
+
+    // Must be called after login, since plugins are stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<InstalledPlugin[]>(PLUGINS_SETTING_KEY);
+        plugins.forEach(p => stopSandbox(p.id));
+        plugins = saved || [];
+    },
+
+    // Installs a plugin package, replacing an installed plugin with the same name. Returns the result so
+    // the caller can show what was granted.
+    async install(raw: unknown): Promise<InstalledPlugin> {
+        const { manifest, code } = parsePluginPackage(raw);
+        const conflict = findNameConflict(manifest, plugins);
+        if (conflict) throw new Error(conflict);
+        const existing = plugins.find(p => p.manifest.name === manifest.name);
+        const plugin: InstalledPlugin = { id: existing?.id || crypto.randomUUID(), manifest, code, isEnabled: true, installedAt: Date.now() };
+        if (existing) stopSandbox(existing.id);
+        await persist(existing ? plugins.map(p => p.id === existing.id ? plugin : p) : [...plugins, plugin]);
+        return plugin;
+    },
+
+    async setEnabled(id: string, isEnabled: boolean): Promise<void> {
+        if (!isEnabled) stopSandbox(id);
+        await persist(plugins.map(p => p.id === id ? { ...p, isEnabled, failure: undefined } : p));
+    },
+
+    async uninstall(id: string): Promise<void> {
+        stopSandbox(id);
+        await persist(plugins.filter(p => p.id !== id));
+    },
+
+    findCommand(name: string): { plugin: InstalledPlugin; command: PluginCommand } | undefined {
+        for (const plugin of enabledPlugins()) {
+            const command = plugin.manifest.commands.find(c => c.name === name);
+            if (command) return { plugin, command };
+        }
+        return undefined;
+    },
+
+    findTool(name: string): { plugin: InstalledPlugin; tool: PluginTool } | undefined {
+        for (const plugin of enabledPlugins()) {
+            const tool = plugin.manifest.tools.find(t => t.name === name);
+            if (tool) return { plugin, tool };
+        }
+        return undefined;
+    },
+
+    // Declarations for every enabled plugin tool, offered to the model alongside the built-in tools.
+    getToolDeclarations(): FunctionDeclaration[] {
+        return enabledPlugins().flatMap(p => p.manifest.tools.map(toFunctionDeclaration));
+    },
+
+    runCommand(plugin: InstalledPlugin, name: string, args: string, host: PluginHost): Promise<unknown> {
+        return invoke(plugin, 'command', name, args, host);
+    },
+
+    runTool(plugin: InstalledPlugin, name: string, args: Record<string, unknown>, host: PluginHost): Promise<unknown> {
+        return invoke(plugin, 'tool', name, args, host);
+    },
+};
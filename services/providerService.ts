@@ -0,0 +1,78 @@
+import { dbService } from './dbService.ts';
+import { createGeminiProvider } from './providers/geminiProvider.ts';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider.ts';
+import type { ModelProvider, ProviderConfig, ProviderId } from './providers/types.ts';
+
+const PROVIDER_SETTING_KEY = 'model_provider';
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderId, ProviderConfig> = {
+    'gemini': {
+        id: 'gemini',
+        baseUrl: '',
+        apiKey: '',
+        chatModel: 'gemini-3-flash-preview',
+        reasoningModel: 'gemini-3-pro-preview',
+        embeddingModel: 'text-embedding-004',
+        imageModel: 'gemini-2.5-flash-image',
+        transcriptionModel: 'gemini-3-flash-preview',
+    },
+    // Defaults target a local Ollama install; llama.cpp's server works with the same paths.
+    'openai-compatible': {
+        id: 'openai-compatible',
+        baseUrl: 'http://localhost:11434/v1',
+        apiKey: '',
+        chatModel: 'llama3.1',
+        reasoningModel: 'llama3.1',
+        embeddingModel: 'nomic-embed-text',
+        imageModel: '',
+        transcriptionModel: 'whisper-1',
+    },
+};
+
+// In-memory provider for the current session, rebuilt whenever the config changes.
+let activeConfig: ProviderConfig = DEFAULT_PROVIDER_CONFIGS.gemini;
+let activeProvider: ModelProvider | null = null;
+
+const buildProvider = (config: ProviderConfig): ModelProvider => {
+    switch (config.id) {
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(config);
+        case 'gemini':
+        default:
+            return createGeminiProvider(config);
+    }
+};
+
+export const providerService = {
+    getConfig(): ProviderConfig {
+        return activeConfig;
+    },
+
+    getProvider(): ModelProvider {
+        if (!activeProvider) {
+            activeProvider = buildProvider(activeConfig);
+        }
+        return activeProvider;
+    },
+
+    // Must be called after login, since the setting is stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<ProviderConfig>(PROVIDER_SETTING_KEY);
+        if (saved) {
+            activeConfig = { ...DEFAULT_PROVIDER_CONFIGS[saved.id], ...saved };
+            activeProvider = null;
+        }
+    },
+
+    // Forgets the provider's API key while the app is locked; load() brings it back after unlocking.
+    unload(): void {
+        activeConfig = { ...activeConfig, apiKey: '' };
+        activeProvider = null;
+    },
+
+    async save(config: ProviderConfig): Promise<void> {
+        await dbService.saveSetting(PROVIDER_SETTING_KEY, config);
+        activeConfig = config;
+        activeProvider = null;
+    },
+};
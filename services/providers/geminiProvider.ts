@@ -0,0 +1,129 @@
+import { GoogleGenAI, Chat, GenerateContentConfig, GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { ChatChunk, ChatSession, GenerationParams, ModelProvider, ProviderConfig, TokenUsage } from './types.ts';
+import { apiKeyService } from '../apiKeyService.ts';
+import { estimateTokens } from '../../utils/contextBudget.ts';
+
+// Always create a new instance so switching the active key profile takes effect immediately.
+export const getAi = (): GoogleGenAI => {
+    const apiKey = apiKeyService.getActiveKey();
+    if (!apiKey) {
+        throw new Error("Gemini API key is missing. Add one in Settings.");
+    }
+    return new GoogleGenAI({ apiKey });
+};
+
+// GenerationParams share Gemini's config field names; only the unset ones need dropping.
+export const toGeminiGenerationConfig = (params: GenerationParams = {}): GenerationParams => ({
+    ...(params.temperature !== undefined && { temperature: params.temperature }),
+    ...(params.topP !== undefined && { topP: params.topP }),
+    ...(params.maxOutputTokens !== undefined && { maxOutputTokens: params.maxOutputTokens }),
+    ...(params.stopSequences?.length && { stopSequences: params.stopSequences }),
+});
+
+// Gemini counts thinking tokens apart from the candidates, and bills them as output.
+export const toTokenUsage = (model: string, metadata?: GenerateContentResponseUsageMetadata): TokenUsage => ({
+    model,
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: metadata?.candidatesTokenCount ?? 0,
+    thinkingTokens: metadata?.thoughtsTokenCount ?? 0,
+});
+
+// Adapts the SDK's Chat so callers only ever see provider-neutral chunks. A per-message config replaces
+// the chat's config rather than extending it, so the abort signal is added to a copy of the chat's own.
+// A stream reports usage on its last chunk.
+const wrapChat = (chat: Chat, config: GenerateContentConfig, model: string, onUsage?: (usage: TokenUsage) => void): ChatSession => ({
+    async sendMessage({ message, signal }) {
+        const response = await chat.sendMessage({ message, ...(signal && { config: { ...config, abortSignal: signal } }) });
+        onUsage?.(toTokenUsage(model, response.usageMetadata));
+        return { text: response.text ?? '', functionCalls: response.functionCalls };
+    },
+
+    async sendMessageStream({ message, signal }) {
+        const stream = await chat.sendMessageStream({ message, ...(signal && { config: { ...config, abortSignal: signal } }) });
+        return (async function* (): AsyncGenerator<ChatChunk> {
+            let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+            for await (const chunk of stream) {
+                usageMetadata = chunk.usageMetadata ?? usageMetadata;
+                yield { text: chunk.text ?? '', functionCalls: chunk.functionCalls };
+            }
+            onUsage?.(toTokenUsage(model, usageMetadata));
+        })();
+    },
+});
+
+export const createGeminiProvider = (config: ProviderConfig): ModelProvider => ({
+    id: 'gemini',
+
+    createChat: ({ history, systemInstruction, tools, model = config.chatModel, params, thinkingBudget, onUsage }) => {
+        const chatConfig: GenerateContentConfig = {
+            ...toGeminiGenerationConfig(params),
+            ...(systemInstruction && { systemInstruction }),
+            ...(tools && { tools }),
+            ...(thinkingBudget && { thinkingConfig: { thinkingBudget } }),
+        };
+        return wrapChat(getAi().chats.create({
+            model,
+            ...(history && { history }),
+            config: chatConfig,
+        }), chatConfig, model, onUsage);
+    },
+
+    generateText: async ({ contents, systemInstruction, model = config.chatModel, params, thinkingBudget, signal, onUsage }) => {
+        const response = await getAi().models.generateContent({
+            model,
+            contents: typeof contents === 'string' ? contents : { parts: contents },
+            config: {
+                ...toGeminiGenerationConfig(params),
+                ...(systemInstruction && { systemInstruction }),
+                ...(thinkingBudget && { thinkingConfig: { thinkingBudget } }),
+                ...(signal && { abortSignal: signal }),
+            },
+        });
+        onUsage?.(toTokenUsage(model, response.usageMetadata));
+        return response.text ?? '';
+    },
+
+    // The Gemini API doesn't report usage for embeddings, so the input is estimated.
+    embed: async (text, { model = config.embeddingModel, signal, onUsage } = {}) => {
+        const response = await getAi().models.embedContent({
+            model,
+            contents: text,
+            ...(signal && { config: { abortSignal: signal } }),
+        });
+        onUsage?.({ model, inputTokens: estimateTokens(text), outputTokens: 0, thinkingTokens: 0 });
+        return response.embeddings?.[0]?.values || [];
+    },
+
+    generateImage: async (prompt, aspectRatio, { model = config.imageModel, params, signal, onUsage } = {}) => {
+        const response = await getAi().models.generateContent({
+            model,
+            contents: { parts: [{ text: prompt }] },
+            config: { ...toGeminiGenerationConfig(params), imageConfig: { aspectRatio }, ...(signal && { abortSignal: signal }) },
+        });
+        onUsage?.(toTokenUsage(model, response.usageMetadata));
+        const images: string[] = [];
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+            if (part.inlineData?.data) images.push(part.inlineData.data);
+        }
+        return images;
+    },
+
+    transcribe: async (audioBase64, mimeType, { model = config.transcriptionModel, params, signal, onUsage } = {}) => {
+        const response = await getAi().models.generateContent({
+            model,
+            contents: { parts: [{ inlineData: { data: audioBase64, mimeType } }, { text: 'Transcribe this audio:' }] },
+            config: { ...toGeminiGenerationConfig(params), ...(signal && { abortSignal: signal }) },
+        });
+        onUsage?.(toTokenUsage(model, response.usageMetadata));
+        return response.text ?? '';
+    },
+
+    countTokens: async (text, { model, signal } = {}) => {
+        const response = await getAi().models.countTokens({
+            model: model || config.chatModel,
+            contents: text,
+            ...(signal && { config: { abortSignal: signal } }),
+        });
+        return response.totalTokens ?? 0;
+    },
+});
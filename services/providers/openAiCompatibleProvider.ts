@@ -0,0 +1,303 @@
+import type { Content, FunctionCall, Part, Schema, Tool } from '@google/genai';
+import type { ChatChunk, ChatSession, GenerationParams, ModelProvider, ProviderConfig, TokenUsage } from './types.ts';
+import { base64ToBlob } from '../../utils/helpers.ts';
+import { ApiRequestError } from '../../utils/errorUtils.ts';
+
+// Speaks the OpenAI REST dialect (/chat/completions, /embeddings, ...) so the app can run
+// against local servers such as Ollama or llama.cpp. Gemini SDK types are used on the
+// outside and translated here, so features never need to know which provider is active.
+
+type OpenAiContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface OpenAiToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: OpenAiContent | null;
+    tool_calls?: OpenAiToolCall[];
+    tool_call_id?: string;
+}
+
+const ASPECT_RATIO_SIZES: Record<string, string> = {
+    '1:1': '1024x1024',
+    '16:9': '1792x1024',
+    '9:16': '1024x1792',
+    '4:3': '1024x768',
+    '3:4': '768x1024',
+};
+
+// Gemini schemas use upper-case type names ("OBJECT"); JSON Schema wants lower-case.
+const toJsonSchema = (schema: Schema | undefined): Record<string, unknown> => {
+    if (!schema) return { type: 'object', properties: {} };
+    const { type, properties, items, ...rest } = schema;
+    const result: Record<string, unknown> = { ...rest };
+    if (type) result.type = String(type).toLowerCase();
+    if (properties) {
+        result.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    }
+    if (items) result.items = toJsonSchema(items);
+    return result;
+};
+
+const toOpenAiTools = (tools?: Tool[]) => {
+    const declarations = (tools || []).flatMap(t => t.functionDeclarations || []);
+    if (declarations.length === 0) return undefined;
+    return declarations.map(fd => ({
+        type: 'function' as const,
+        function: {
+            name: fd.name,
+            // The app's declarations keep their description on the parameters schema.
+            description: fd.description || fd.parameters?.description || '',
+            parameters: toJsonSchema(fd.parameters),
+        },
+    }));
+};
+
+const toOpenAiContent = (parts: Part[]): OpenAiContent => {
+    const images = parts.filter(p => p.inlineData?.mimeType?.startsWith('image/'));
+    const text = parts.map(p => p.text || '').join('');
+    if (images.length === 0) return text;
+    return [
+        { type: 'text', text },
+        ...images.map(p => ({ type: 'image_url' as const, image_url: { url: `data:${p.inlineData!.mimeType};base64,${p.inlineData!.data}` } })),
+    ];
+};
+
+// Translates one Gemini Content into one or more OpenAI messages.
+// Function calls and responses become assistant `tool_calls` and `tool` messages respectively.
+const toOpenAiMessages = (content: Content): OpenAiMessage[] => {
+    const parts = content.parts || [];
+    const calls = parts.filter(p => p.functionCall).map(p => p.functionCall!);
+    const responses = parts.filter(p => p.functionResponse).map(p => p.functionResponse!);
+
+    if (responses.length > 0) {
+        return responses.map(r => ({
+            role: 'tool' as const,
+            tool_call_id: r.id || r.name || '',
+            content: JSON.stringify(r.response ?? {}),
+        }));
+    }
+
+    const role = content.role === 'model' ? 'assistant' : 'user';
+    const message: OpenAiMessage = { role, content: toOpenAiContent(parts) };
+    if (calls.length > 0) {
+        message.tool_calls = calls.map((c, i) => ({
+            id: c.id || `${c.name}-${i}`,
+            type: 'function',
+            function: { name: c.name || '', arguments: JSON.stringify(c.args ?? {}) },
+        }));
+    }
+    return [message];
+};
+
+const toSamplingFields = (params: GenerationParams = {}) => ({
+    ...(params.temperature !== undefined && { temperature: params.temperature }),
+    ...(params.topP !== undefined && { top_p: params.topP }),
+    ...(params.maxOutputTokens !== undefined && { max_tokens: params.maxOutputTokens }),
+    ...(params.stopSequences?.length && { stop: params.stopSequences }),
+});
+
+const toParts = (message: string | Part[]): Part[] => typeof message === 'string' ? [{ text: message }] : message;
+
+const parseToolCalls = (toolCalls: OpenAiToolCall[]): FunctionCall[] => toolCalls.map(tc => {
+    let args: Record<string, unknown> = {};
+    try {
+        args = tc.function.arguments ? JSON.parse(tc.function.arguments) : {};
+    } catch (e) {
+        console.warn(`Could not parse arguments for tool call ${tc.function.name}:`, e);
+    }
+    return { id: tc.id, name: tc.function.name, args };
+});
+
+// OpenAI counts reasoning tokens as part of the completion; they are split out to match Gemini.
+// Image and audio endpoints name the fields input/output_tokens instead.
+const toTokenUsage = (model: string, usage: any): TokenUsage => {
+    const thinkingTokens = usage?.completion_tokens_details?.reasoning_tokens ?? 0;
+    return {
+        model,
+        inputTokens: usage?.prompt_tokens ?? usage?.input_tokens ?? 0,
+        outputTokens: Math.max(0, (usage?.completion_tokens ?? usage?.output_tokens ?? 0) - thinkingTokens),
+        thinkingTokens,
+    };
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const retryAfterMs = (response: Response): number | undefined => {
+    const value = response.headers.get('retry-after');
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): ModelProvider => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    const headers = (json = true): Record<string, string> => ({
+        ...(json && { 'Content-Type': 'application/json' }),
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+    });
+
+    const request = async (path: string, init: RequestInit): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, init);
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new ApiRequestError(`Provider request to ${path} failed (${response.status}): ${body || response.statusText}`, response.status, retryAfterMs(response));
+        }
+        return response;
+    };
+
+    const postJson = async <T,>(path: string, body: object, signal?: AbortSignal): Promise<T> => {
+        const response = await request(path, { method: 'POST', headers: headers(), body: JSON.stringify(body), signal });
+        return response.json() as Promise<T>;
+    };
+
+    const createChat: ModelProvider['createChat'] = ({ history, systemInstruction, tools, model = config.chatModel, params, onUsage }) => {
+        const messages: OpenAiMessage[] = [
+            ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+            ...(history || []).flatMap(toOpenAiMessages),
+        ];
+        const openAiTools = toOpenAiTools(tools);
+        // The user's message joins the history only once the server accepts it, so a failed send can be retried.
+        // Streams only report usage when asked to, in a final chunk without choices.
+        const body = (stream: boolean, pending: OpenAiMessage[]) => ({
+            model,
+            messages: [...messages, ...pending],
+            stream,
+            ...(stream && { stream_options: { include_usage: true } }),
+            ...toSamplingFields(params),
+            ...(openAiTools && { tools: openAiTools }),
+        });
+
+        const session: ChatSession = {
+            async sendMessage({ message, signal }) {
+                const pending = toOpenAiMessages({ role: 'user', parts: toParts(message) });
+                const data = await postJson<any>('/chat/completions', body(false, pending), signal);
+                const reply = data.choices?.[0]?.message || {};
+                onUsage?.(toTokenUsage(model, data.usage));
+                messages.push(...pending, { role: 'assistant', content: reply.content ?? '', ...(reply.tool_calls && { tool_calls: reply.tool_calls }) });
+                return {
+                    text: reply.content ?? '',
+                    ...(reply.tool_calls?.length && { functionCalls: parseToolCalls(reply.tool_calls) }),
+                };
+            },
+
+            async sendMessageStream({ message, signal }) {
+                const pending = toOpenAiMessages({ role: 'user', parts: toParts(message) });
+                // Aborting the fetch also makes the pending reader.read() below reject.
+                const response = await request('/chat/completions', { method: 'POST', headers: headers(), body: JSON.stringify(body(true, pending)), signal });
+                if (!response.body) throw new Error('Provider returned an empty stream.');
+                const reader = response.body.getReader();
+
+                return (async function* (): AsyncGenerator<ChatChunk> {
+                    const decoder = new TextDecoder();
+                    let buffer = '';
+                    let text = '';
+                    let usage: unknown;
+                    const toolCalls: OpenAiToolCall[] = [];
+
+                    // Server-sent events: one `data: {...}` JSON delta per line, terminated by `data: [DONE]`.
+                    while (true) {
+                        const { done, value } = await reader.read();
+                        if (done) break;
+                        buffer += decoder.decode(value, { stream: true });
+                        const lines = buffer.split('\n');
+                        buffer = lines.pop() || '';
+                        for (const line of lines) {
+                            const trimmed = line.trim();
+                            if (!trimmed.startsWith('data:')) continue;
+                            const payload = trimmed.slice(5).trim();
+                            if (payload === '[DONE]') continue;
+                            let event: any;
+                            try {
+                                event = JSON.parse(payload);
+                            } catch {
+                                // Some servers interleave keep-alive or debug lines; skip anything that isn't JSON.
+                                continue;
+                            }
+                            // Errors after the response has started arrive as an event instead of an HTTP status.
+                            if (event?.error) {
+                                const status = Number(event.error.code ?? event.error.status);
+                                const detail = event.error.message || JSON.stringify(event.error);
+                                throw new ApiRequestError(`Provider stream from /chat/completions failed: ${detail}`, Number.isInteger(status) && status >= 400 ? status : 500);
+                            }
+                            usage = event.usage ?? usage;
+                            const delta = event.choices?.[0]?.delta;
+                            if (!delta) continue;
+                            for (const tc of delta.tool_calls || []) {
+                                const existing = toolCalls[tc.index] ||= { id: tc.id || `call-${tc.index}`, type: 'function', function: { name: '', arguments: '' } };
+                                if (tc.function?.name) existing.function.name += tc.function.name;
+                                if (tc.function?.arguments) existing.function.arguments += tc.function.arguments;
+                            }
+                            if (delta.content) {
+                                text += delta.content;
+                                yield { text: delta.content };
+                            }
+                        }
+                    }
+
+                    // Like sendMessage, the turn joins the history only once the whole reply has arrived, so a stream
+                    // that fails or is aborted midway leaves no user message without an answer.
+                    messages.push(...pending, { role: 'assistant', content: text, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) });
+                    onUsage?.(toTokenUsage(model, usage));
+                    if (toolCalls.length > 0) {
+                        yield { text: '', functionCalls: parseToolCalls(toolCalls) };
+                    }
+                })();
+            },
+        };
+        return session;
+    };
+
+    return {
+        id: 'openai-compatible',
+
+        createChat,
+
+        generateText: async ({ contents, systemInstruction, model = config.chatModel, params, signal, onUsage }) => {
+            const data = await postJson<any>('/chat/completions', {
+                model,
+                ...toSamplingFields(params),
+                messages: [
+                    ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+                    { role: 'user', content: toOpenAiContent(toParts(contents)) },
+                ],
+            }, signal);
+            onUsage?.(toTokenUsage(model, data.usage));
+            return data.choices?.[0]?.message?.content ?? '';
+        },
+
+        embed: async (text, { model = config.embeddingModel, signal, onUsage } = {}) => {
+            const data = await postJson<any>('/embeddings', { model, input: text }, signal);
+            onUsage?.(toTokenUsage(model, data.usage));
+            return data.data?.[0]?.embedding || [];
+        },
+
+        // Servers that don't report usage here get their calls logged with no tokens.
+        generateImage: async (prompt, aspectRatio, { model = config.imageModel, signal, onUsage } = {}) => {
+            const data = await postJson<any>('/images/generations', {
+                model,
+                prompt,
+                size: ASPECT_RATIO_SIZES[aspectRatio] || ASPECT_RATIO_SIZES['1:1'],
+                response_format: 'b64_json',
+            }, signal);
+            onUsage?.(toTokenUsage(model, data.usage));
+            return (data.data || []).map((img: { b64_json?: string }) => img.b64_json).filter(Boolean);
+        },
+
+        transcribe: async (audioBase64, mimeType, { model = config.transcriptionModel, signal, onUsage } = {}) => {
+            const form = new FormData();
+            form.append('file', base64ToBlob(audioBase64, mimeType), `audio.${mimeType.split('/')[1] || 'wav'}`);
+            form.append('model', model);
+            const response = await request('/audio/transcriptions', { method: 'POST', headers: headers(false), body: form, signal });
+            const data = await response.json();
+            onUsage?.(toTokenUsage(model, data.usage));
+            return data.text ?? '';
+        },
+    };
+};
@@ -0,0 +1,78 @@
+import type { Content, FunctionCall, Part, Tool } from '@google/genai';
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+// Persisted (encrypted) in the settings store under PROVIDER_SETTING_KEY.
+export interface ProviderConfig {
+    id: ProviderId;
+    baseUrl: string; // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1
+    apiKey: string; // Optional for local servers
+    chatModel: string;
+    reasoningModel: string;
+    embeddingModel: string;
+    imageModel: string;
+    transcriptionModel: string;
+}
+
+// Sampling controls shared by every provider. Unset fields fall back to the model's defaults.
+export interface GenerationParams {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+}
+
+// What one request used, as reported by the API. Thinking tokens are counted apart from the reply.
+export interface TokenUsage {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+}
+
+export interface ModelCallOptions {
+    model?: string;
+    params?: GenerationParams;
+    signal?: AbortSignal; // Aborting rejects the call with an AbortError
+    onUsage?: (usage: TokenUsage) => void; // Called once per request the API reports usage for; chats call it after every message
+}
+
+export interface ChatChunk {
+    text: string;
+    functionCalls?: FunctionCall[];
+}
+
+export interface ChatSendParams {
+    message: string | Part[];
+    signal?: AbortSignal; // Also ends a stream that is being read
+}
+
+// The subset of the SDK's `Chat` object the features rely on.
+export interface ChatSession {
+    sendMessage(params: ChatSendParams): Promise<ChatChunk>;
+    sendMessageStream(params: ChatSendParams): Promise<AsyncGenerator<ChatChunk>>;
+}
+
+export interface ChatOptions extends ModelCallOptions {
+    history?: Content[];
+    systemInstruction?: string;
+    tools?: Tool[];
+    thinkingBudget?: number;
+}
+
+export interface TextGenerationOptions extends ModelCallOptions {
+    contents: string | Part[];
+    systemInstruction?: string;
+    thinkingBudget?: number;
+}
+
+export interface ModelProvider {
+    readonly id: ProviderId;
+    createChat(options: ChatOptions): ChatSession;
+    generateText(options: TextGenerationOptions): Promise<string>;
+    embed(text: string, options?: ModelCallOptions): Promise<number[]>;
+    generateImage(prompt: string, aspectRatio: string, options?: ModelCallOptions): Promise<string[]>;
+    transcribe(audioBase64: string, mimeType: string, options?: ModelCallOptions): Promise<string>;
+    // Optional: not every API can count tokens. Callers fall back to an estimate.
+    countTokens?(text: string, options?: ModelCallOptions): Promise<number>;
+}
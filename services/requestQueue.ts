@@ -0,0 +1,100 @@
+import { getApiErrorInfo, isAbortError, isTransientError, parseError } from '../utils/errorUtils.ts';
+
+// Dispatched on window whenever the set of waiting requests changes; `detail` is a RequestQueueStatus.
+export const REQUEST_QUEUE_EVENT = 'requestQueueChanged';
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+// Longer hints (e.g. a daily quota) fail right away instead of leaving the user waiting.
+const MAX_RETRY_AFTER_MS = 120_000;
+
+export interface RequestQueueStatus {
+    waiting: number; // Requests held back, either before a retry or until the quota recovers
+    resumeAt: number | null; // When the last of them is sent again
+    attempt: number; // Highest attempt number among them that has already failed
+    code?: string; // parseError code of the failure that caused the wait, e.g. REQ_429
+}
+
+interface WaitingRequest {
+    until: number;
+    attempt: number;
+    code?: string;
+}
+
+// A 429 pauses every request, not just the one that hit it, until the quota has had time to recover.
+let pausedUntil = 0;
+const waiting = new Set<WaitingRequest>();
+
+const getStatus = (): RequestQueueStatus => {
+    const entries = [...waiting];
+    const latest = entries.reduce<WaitingRequest | null>((max, entry) => !max || entry.until > max.until ? entry : max, null);
+    return {
+        waiting: entries.length,
+        resumeAt: latest?.until ?? null,
+        attempt: entries.reduce((max, entry) => Math.max(max, entry.attempt), 0),
+        code: latest?.code,
+    };
+};
+
+const notify = () => {
+    window.dispatchEvent(new CustomEvent<RequestQueueStatus>(REQUEST_QUEUE_EVENT, { detail: getStatus() }));
+};
+
+const abortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+// Sleeps until `entry.until`, listed in the status meanwhile. Rejects as soon as `signal` aborts.
+const waitFor = (entry: WaitingRequest, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+    waiting.add(entry);
+    notify();
+    const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        waiting.delete(entry);
+        notify();
+    };
+    const onAbort = () => {
+        finish();
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        finish();
+        resolve();
+    }, Math.max(0, entry.until - Date.now()));
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with full jitter: a random wait up to BASE_DELAY_MS * 2^(attempt - 1).
+const backoff = (attempt: number): number =>
+    Math.round(Math.random() * Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** (attempt - 1)));
+
+export const requestQueue = {
+    getStatus,
+
+    // Sends `request`, and sends it again after transient failures (rate limits, server errors, dropped
+    // connections) for up to MAX_ATTEMPTS attempts. Waits follow the API's retry-after hint when it gives
+    // one and exponential backoff otherwise. Other failures, and the last one, are rethrown unchanged.
+    async run<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            if (pausedUntil > Date.now()) {
+                await waitFor({ until: pausedUntil, attempt: attempt - 1, code: 'REQ_429' }, signal);
+            }
+            try {
+                return await request();
+            } catch (error) {
+                if (signal?.aborted || isAbortError(error) || !isTransientError(error) || attempt >= MAX_ATTEMPTS) throw error;
+                const { status, retryAfterMs } = getApiErrorInfo(error);
+                if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) throw error;
+
+                const until = Date.now() + (retryAfterMs ?? backoff(attempt));
+                if (status === 429) pausedUntil = Math.max(pausedUntil, until);
+                console.warn(`Request failed (attempt ${attempt} of ${MAX_ATTEMPTS}), retrying:`, error);
+                await waitFor({ until, attempt, code: parseError(error).code }, signal);
+            }
+        }
+    },
+};
@@ -0,0 +1,49 @@
+import type { ToolAuditEntry, ToolPolicy } from '../types.ts';
+import { dbService } from './dbService.ts';
+
+const POLICIES_SETTING_KEY = 'toolPolicies';
+const AUDIT_LOG_SETTING_KEY = 'toolAuditLog';
+const MAX_AUDIT_ENTRIES = 200;
+
+// Only policies the user chose are stored; other tools use the default for their permission level.
+let policies: Record<string, ToolPolicy> = {};
+// Newest first.
+let auditLog: ToolAuditEntry[] = [];
+
+export const toolPolicyService = {
+    // Must be called after login, since both are stored encrypted.
+    async load(): Promise<void> {
+        const [savedPolicies, savedLog] = await Promise.all([
+            dbService.getSetting<Record<string, ToolPolicy>>(POLICIES_SETTING_KEY),
+            dbService.getSetting<ToolAuditEntry[]>(AUDIT_LOG_SETTING_KEY),
+        ]);
+        policies = savedPolicies || {};
+        auditLog = savedLog || [];
+    },
+
+    getPolicy(toolName: string): ToolPolicy | undefined {
+        return Object.hasOwn(policies, toolName) ? policies[toolName] : undefined;
+    },
+
+    // Passing undefined goes back to the default.
+    async setPolicy(toolName: string, policy: ToolPolicy | undefined): Promise<void> {
+        const { [toolName]: _, ...rest } = policies;
+        const updated = policy ? { ...rest, [toolName]: policy } : rest;
+        await dbService.saveSetting(POLICIES_SETTING_KEY, updated);
+        policies = updated;
+    },
+
+    getAuditLog(): ToolAuditEntry[] {
+        return auditLog;
+    },
+
+    async record(entry: Omit<ToolAuditEntry, 'id' | 'timestamp'>): Promise<void> {
+        auditLog = [{ ...entry, id: crypto.randomUUID(), timestamp: Date.now() }, ...auditLog].slice(0, MAX_AUDIT_ENTRIES);
+        await dbService.saveSetting(AUDIT_LOG_SETTING_KEY, auditLog);
+    },
+
+    async clearAuditLog(): Promise<void> {
+        await dbService.saveSetting(AUDIT_LOG_SETTING_KEY, []);
+        auditLog = [];
+    },
+};
@@ -0,0 +1,321 @@
+import { Type } from '@google/genai';
+import type { GroundingSource, Persona } from '../../types.ts';
+import { GeminiService } from '../geminiService.ts';
+import { memoryRetrievalService } from '../memoryRetrievalService.ts';
+import { dbService, StoredFile } from '../dbService.ts';
+import { encode as base64Encode, fileToBase64 } from '../../utils/helpers.ts';
+import { isTextDocument, decodeTextDocument } from '../../utils/textChunker.ts';
+import { renderImageResult, renderSearchResult, renderTextResult } from './renderers.tsx';
+import type { ToolDefinition, ToolName } from './types.ts';
+
+const youtubeVideoIdOf = (sources: GroundingSource[]): string | undefined => {
+    for (const source of sources) {
+        try {
+            const url = new URL(source.uri);
+            if (url.hostname.endsWith('youtube.com') && url.pathname === '/watch' && url.searchParams.get('v')) return url.searchParams.get('v')!;
+        } catch { /* Not a URL; skip it */ }
+    }
+    return undefined;
+};
+
+// Runs the analysis that suits the file's type, or returns null when the type isn't supported.
+const analyzeContent = async (type: string, name: string, base64: string, prompt: string, signal?: AbortSignal): Promise<string | null> => {
+    if (type.startsWith('image/')) return (await GeminiService.analyzeImage(prompt, base64, type, signal)).text || '';
+    if (type.startsWith('video/')) return (await GeminiService.analyzeVideo(prompt, base64, type, signal)).text || '';
+    if (type.startsWith('audio/')) return GeminiService.transcribeAudio(base64, type, signal);
+    if (isTextDocument({ name, type })) return (await GeminiService.analyzeDocument(decodeTextDocument(base64), prompt, signal)).text || '';
+    return null;
+};
+
+export const TOOL_DEFINITIONS: Record<ToolName, ToolDefinition> = {
+    searchWeb: {
+        declaration: {
+            name: 'searchWeb',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Search Google for recent and relevant information, including YouTube videos. Returns a summary and the source links.',
+                properties: {
+                    query: { type: Type.STRING, description: 'The search query.' },
+                    useMaps: { type: Type.BOOLEAN, description: 'Set to true to also search Google Maps. Uses the user\'s location when available.' },
+                },
+                required: ['query'],
+            },
+        },
+        permission: 'web',
+        execute: async (args, context) => {
+            const response = await GeminiService.groundedSearch(args.query, !!args.useMaps, context.location, context.signal);
+            const sources: GroundingSource[] = (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+                .map((chunk): GroundingSource => ({
+                    uri: chunk.web?.uri || chunk.maps?.uri || '',
+                    title: chunk.web?.title || chunk.maps?.title || chunk.web?.uri || chunk.maps?.uri || 'Unknown Source',
+                    type: chunk.web ? 'web' : 'maps',
+                }))
+                .filter(source => source.uri);
+            const summary = response.text || '';
+            return {
+                response: { status: 'success', summary, sources: sources.map(s => ({ title: s.title, url: s.uri })) },
+                text: summary,
+                sources,
+                youtubeVideoId: youtubeVideoIdOf(sources),
+            };
+        },
+        renderResult: renderSearchResult,
+    },
+
+    browseWebsite: {
+        declaration: {
+            name: 'browseWebsite',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Reads the content of a specific website URL and provides a summary. Use the full URL including "https://".',
+                properties: {
+                    url: { type: Type.STRING, description: 'The full URL of the website to browse.' },
+                },
+                required: ['url'],
+            },
+        },
+        permission: 'web',
+        execute: async (args, context) => {
+            const summary = await GeminiService.browseWebsite(args.url, context.signal);
+            return { response: { status: 'success', summary }, text: summary };
+        },
+        renderResult: renderTextResult,
+    },
+
+    generateImage: {
+        declaration: {
+            name: 'generateImage',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Generates an image based on a textual description.',
+                properties: {
+                    prompt: { type: Type.STRING, description: 'A detailed description of the image to generate.' },
+                    style: { type: Type.STRING, description: 'The artistic style, e.g., "photorealistic", "anime", "cartoon".' },
+                    negativePrompt: { type: Type.STRING, description: 'A description of things to avoid in the image.' },
+                    aspectRatio: { type: Type.STRING, description: 'The image shape. Defaults to "1:1".', enum: ['1:1', '16:9', '9:16', '4:3', '3:4'] },
+                },
+                required: ['prompt'],
+            },
+        },
+        permission: 'safe',
+        execute: async (args, context) => {
+            const fullPrompt = args.style ? `${args.prompt}, in the style of ${args.style}` : args.prompt;
+            const images = await GeminiService.generateImage(fullPrompt, args.aspectRatio || '1:1', args.negativePrompt, context.signal);
+            if (images.length === 0) return { response: { status: 'error', message: 'Image generation returned no image.' } };
+            return {
+                response: { status: 'success', message: 'The image is now shown to the user.' },
+                imageUrl: `data:image/jpeg;base64,${images[0]}`,
+            };
+        },
+        renderResult: renderImageResult,
+    },
+
+    listDocuments: {
+        declaration: {
+            name: 'listDocuments',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'List the files from the library that you can read here.',
+                properties: {},
+            },
+        },
+        permission: 'safe',
+        execute: async (_args, context) => ({
+            response: context.files.length > 0
+                ? { status: 'success', files: context.files.map(f => ({ name: f.name, type: f.type, size: f.size })) }
+                : { status: 'success', message: 'No library files are available here. In chat, the user can share files with the paperclip button.' },
+        }),
+    },
+
+    analyzeFile: {
+        declaration: {
+            name: 'analyzeFile',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Analyze a file: images, video, audio or text documents. Use fileName for a library file, or leave it out to analyze the file the user uploaded.',
+                properties: {
+                    fileName: { type: Type.STRING, description: 'The exact name of a library file from listDocuments.' },
+                    prompt: { type: Type.STRING, description: 'A detailed question or instruction for the analysis.' },
+                },
+                required: ['prompt'],
+            },
+        },
+        permission: 'safe',
+        execute: async (args, context) => {
+            let analysis: string | null;
+            let type: string;
+            if (args.fileName) {
+                const file = context.files.find(doc => doc.name === args.fileName);
+                if (!file) return { response: { status: 'error', message: `"${args.fileName}" is not available here.` } };
+                type = file.type;
+                analysis = await analyzeContent(file.type, file.name, file.data, args.prompt, context.signal);
+            } else if (context.uploadedFile) {
+                const file = context.uploadedFile;
+                type = file.type;
+                analysis = await analyzeContent(file.type, file.name, await fileToBase64(file), args.prompt, context.signal);
+            } else {
+                return { response: { status: 'error', message: 'No file was named or uploaded. Ask the user to upload a file or name one from the library.' } };
+            }
+            if (analysis === null) return { response: { status: 'error', message: `Files of type ${type || 'unknown'} can't be analyzed.` } };
+            return { response: { status: 'success', summary: analysis }, text: analysis };
+        },
+        renderResult: renderTextResult,
+    },
+
+    createDocument: {
+        declaration: {
+            name: 'createDocument',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Creates a new text document with the given content and saves it to the file library.',
+                properties: {
+                    fileName: { type: Type.STRING, description: 'The name of the file to create, e.g., "meeting-notes.txt".' },
+                    content: { type: Type.STRING, description: 'The text content to write into the file.' },
+                },
+                required: ['fileName', 'content'],
+            },
+        },
+        permission: 'write',
+        execute: async (args, context) => {
+            const newFile: StoredFile = {
+                name: args.fileName,
+                type: 'text/plain',
+                size: new Blob([args.content]).size,
+                lastModified: Date.now(),
+                isArchived: false,
+                data: base64Encode(new TextEncoder().encode(args.content)),
+            };
+            const failed = await dbService.addDocuments([newFile]);
+            context.onDocumentSaved?.(newFile);
+            return { response: { status: 'success', message: `Saved "${newFile.name}" to the library${failed.length > 0 ? ', but it could not be indexed for search' : ''}.` } };
+        },
+    },
+
+    createCharacter: {
+        declaration: {
+            name: 'createCharacter',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Creates a new character persona and saves it for future use in chats.',
+                properties: {
+                    role: { type: Type.STRING, description: "The character's name or primary role." },
+                    personalityTraits: { type: Type.STRING, description: "A comma-separated list of key personality traits." },
+                    physicalTraits: { type: Type.STRING, description: "A summary of the character's physical appearance." },
+                    lore: { type: Type.STRING, description: "The character's background, history, or lore." },
+                    characterDescription: { type: Type.STRING, description: "A short greeting or first message from the character." },
+                    scenario: { type: Type.STRING, description: "The context or scenario for the conversation." },
+                },
+                required: ['role', 'personalityTraits', 'characterDescription'],
+            },
+        },
+        permission: 'write',
+        execute: async (args) => {
+            const currentPersonas = await dbService.getPersonas();
+            if (currentPersonas.some(p => p.role === args.role)) return { response: { status: 'error', message: `A character named ${args.role} already exists.` } };
+            const newPersona: Persona = {
+                id: crypto.randomUUID(),
+                isActive: false, // Don't make it active immediately
+                role: args.role || 'New AI Character',
+                personalityTraits: args.personalityTraits || '',
+                physicalTraits: args.physicalTraits || '',
+                lore: args.lore || '',
+                characterDescription: args.characterDescription || '',
+                scenario: args.scenario || '',
+                systemPrompt: '',
+                avatarUrl: '',
+                voice: '',
+            };
+            await dbService.savePersonas([...currentPersonas, newPersona]);
+            window.dispatchEvent(new CustomEvent('personasUpdated'));
+            return { response: { status: 'success', message: `Character ${newPersona.role} created.` } };
+        },
+    },
+
+    saveMemory: {
+        declaration: {
+            name: 'saveMemory',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Saves a fact worth remembering across conversations, such as a user preference or an important event.',
+                properties: {
+                    content: { type: Type.STRING, description: 'The fact to remember, written as a self-contained sentence.' },
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional tags, e.g. "preference", "episodic", "semantic".' },
+                },
+                required: ['content'],
+            },
+        },
+        permission: 'write',
+        execute: async (args, context) => {
+            await dbService.addMemory({
+                id: crypto.randomUUID(),
+                content: args.content,
+                embedding: await GeminiService.getEmbedding(args.content, context.signal),
+                timestamp: Date.now(),
+                tags: Array.isArray(args.tags) && args.tags.length > 0 ? args.tags.map(String) : ['episodic'],
+                associatedPersonaId: context.personaId,
+            });
+            return { response: { status: 'success', message: 'Saved to long-term memory.' } };
+        },
+    },
+
+    recallMemory: {
+        declaration: {
+            name: 'recallMemory',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Searches long-term memory for facts related to a query.',
+                properties: {
+                    query: { type: Type.STRING, description: 'What to look for.' },
+                },
+                required: ['query'],
+            },
+        },
+        permission: 'safe',
+        execute: async (args, context) => {
+            const recalled = await memoryRetrievalService.retrieve(args.query, context.personaId);
+            return { response: { status: 'success', memories: recalled.map(item => ({ content: item.memory.content, savedAt: new Date(item.memory.timestamp).toISOString() })) } };
+        },
+    },
+
+    controlMediaPlayer: {
+        declaration: {
+            name: 'controlMediaPlayer',
+            parameters: {
+                type: Type.OBJECT,
+                description: 'Controls the audio or video player. Can play, pause, stop, seek to a timestamp, or set volume.',
+                properties: {
+                    action: {
+                        type: Type.STRING,
+                        description: 'The action to perform: "play", "pause", "stop", "seek", "setVolume".',
+                        enum: ['play', 'pause', 'stop', 'seek', 'setVolume'],
+                    },
+                    timestamp: { type: Type.NUMBER, description: 'The time in seconds to seek to. Required only for the "seek" action.' },
+                    volume: { type: Type.NUMBER, description: 'The volume level from 0.0 to 1.0. Required only for the "setVolume" action.' },
+                },
+                required: ['action'],
+            },
+        },
+        permission: 'safe',
+        execute: async (args, context) => {
+            const media = context.mediaElement;
+            if (!media) return { response: { status: 'error', message: 'No media is loaded.' } };
+            switch (args.action) {
+                case 'play': await media.play(); break;
+                case 'pause': media.pause(); break;
+                case 'stop':
+                    media.pause();
+                    media.currentTime = 0;
+                    break;
+                case 'seek':
+                    if (typeof args.timestamp === 'number') media.currentTime = args.timestamp;
+                    break;
+                case 'setVolume':
+                    if (typeof args.volume === 'number' && args.volume >= 0 && args.volume <= 1) media.volume = args.volume;
+                    break;
+                default:
+                    return { response: { status: 'error', message: `Unknown action "${args.action}".` } };
+            }
+            return { response: { status: 'success', action: args.action } };
+        },
+    },
+};
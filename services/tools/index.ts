@@ -0,0 +1,152 @@
+// The one place tools are defined. Each feature offers the model a subset of them by name, and every
+// feature runs calls through runToolCall so a tool behaves the same wherever it is used.
+import type { FunctionCall, FunctionDeclaration, Part } from '@google/genai';
+import type { ToolCallRecord, ToolDecision, ToolPolicy } from '../../types.ts';
+import { pluginService } from '../pluginService.ts';
+import { toolPolicyService } from '../toolPolicyService.ts';
+import { parseError, isAbortError } from '../../utils/errorUtils.ts';
+import { TOOL_DEFINITIONS } from './definitions.ts';
+import { renderGenericResult } from './renderers.tsx';
+import { TOOL_NAMES, type ToolContext, type ToolDefinition, type ToolName, type ToolPermission, type ToolResult } from './types.ts';
+
+export * from './types.ts';
+
+export const CHAT_TOOLS: ToolName[] = ['generateImage', 'searchWeb', 'browseWebsite', 'listDocuments', 'analyzeFile', 'createDocument', 'createCharacter', 'saveMemory', 'recallMemory'];
+export const LIVE_TOOLS: ToolName[] = ['searchWeb', 'browseWebsite', 'generateImage', 'listDocuments', 'analyzeFile', 'createDocument', 'createCharacter', 'controlMediaPlayer'];
+export const REASONING_TOOLS: ToolName[] = ['searchWeb', 'browseWebsite', 'listDocuments', 'analyzeFile'];
+
+export const TOOL_PERMISSION_LABELS: Record<ToolPermission, string> = {
+    safe: 'Uses only what this feature shares with it',
+    web: 'Fetches content from the internet',
+    write: 'Changes your saved files, characters or memories',
+};
+
+export const TOOL_POLICY_LABELS: Record<ToolPolicy, string> = {
+    allow: 'Always allow',
+    ask: 'Ask first',
+    deny: 'Deny',
+};
+
+// Used until the user picks a policy for a tool: anything that reaches the internet or changes saved data asks first.
+const DEFAULT_POLICIES: Record<ToolPermission, ToolPolicy> = { safe: 'allow', web: 'ask', write: 'ask' };
+
+// A tool's output as a feature keeps it for display.
+export interface ToolOutput {
+    name: string;
+    result: ToolResult;
+}
+
+const offered = (name: string | undefined, names: ToolName[]): ToolDefinition | undefined =>
+    name && (names as string[]).includes(name) ? TOOL_DEFINITIONS[name as ToolName] : undefined;
+
+export const getTool = (name: string): ToolDefinition | undefined =>
+    Object.hasOwn(TOOL_DEFINITIONS, name) ? TOOL_DEFINITIONS[name as ToolName] : undefined;
+
+// Declarations for the given tools, plus enabled plugin tools when the feature can host plugins.
+export const getToolDeclarations = (names: ToolName[], includePlugins = false): FunctionDeclaration[] => [
+    ...names.map(name => TOOL_DEFINITIONS[name].declaration),
+    ...(includePlugins ? pluginService.getToolDeclarations() : []),
+];
+
+// Plugin tools that may change the conversation count as writes; everything else a plugin does stays in its sandbox.
+export const getToolPermission = (name: string): ToolPermission | undefined => {
+    const tool = getTool(name);
+    if (tool) return tool.permission;
+    const pluginTool = pluginService.findTool(name);
+    if (!pluginTool) return undefined;
+    return pluginTool.plugin.manifest.permissions.includes('conversation:write') ? 'write' : 'safe';
+};
+
+// Every tool a policy can be set for: the built-in ones, then those of enabled plugins.
+export const listTools = (): { name: string; description: string; permission: ToolPermission }[] => [
+    ...TOOL_NAMES.map(name => ({
+        name,
+        description: TOOL_DEFINITIONS[name].declaration.parameters?.description || '',
+        permission: TOOL_DEFINITIONS[name].permission,
+    })),
+    ...pluginService.getToolDeclarations().map(declaration => ({
+        name: declaration.name!,
+        description: declaration.description || '',
+        permission: getToolPermission(declaration.name!)!,
+    })),
+];
+
+export const getDefaultPolicy = (name: string): ToolPolicy => DEFAULT_POLICIES[getToolPermission(name) || 'write'];
+
+export const getToolPolicy = (name: string): ToolPolicy => toolPolicyService.getPolicy(name) || getDefaultPolicy(name);
+
+const declined = (message: string): ToolResult => ({ response: { status: 'error', message } });
+
+// Runs one call from the model against the tools `names` offers, after checking the tool's policy, and
+// records it in the audit log. Failures are returned as an error response instead of thrown, so the
+// model can explain them or try something else; only cancellation through `context.signal` throws.
+export const runToolCall = async (call: FunctionCall, names: ToolName[], context: ToolContext): Promise<ToolResult> => {
+    const name = call.name || 'unknown';
+    const tool = offered(call.name, names);
+    // Tools from enabled plugins run in the plugin's sandbox.
+    const pluginTool = !tool && call.name && context.pluginHost ? pluginService.findTool(call.name) : undefined;
+    if (!tool && !pluginTool) return declined(`Unknown tool "${name}".`);
+
+    let args: Record<string, any> = call.args || {};
+    let decision: ToolDecision = 'allowed';
+    const audit = (result: ToolResult) => {
+        toolPolicyService.record({
+            toolName: name,
+            feature: context.feature,
+            args,
+            decision,
+            ...((decision === 'allowed' || decision === 'approved') && { status: result.response.status === 'error' ? 'error' : 'success' }),
+            ...(result.response.status === 'error' && { message: String(result.response.message) }),
+        }).catch(error => console.error("Failed to record tool call:", error));
+        return result;
+    };
+
+    const policy = getToolPolicy(name);
+    if (policy === 'deny') {
+        decision = 'denied';
+        return audit(declined(`The user has turned off the ${name} tool.`));
+    }
+    if (policy === 'ask') {
+        const approved = context.requestApproval ? await context.requestApproval(name, args) : null;
+        if (!approved) {
+            decision = 'rejected';
+            return audit(declined(`The user declined this ${name} call. Don't retry it unless they ask.`));
+        }
+        decision = 'approved';
+        args = approved;
+    }
+
+    let result: ToolResult;
+    try {
+        result = tool
+            ? await tool.execute(args, context)
+            : await runPluginTool(pluginTool!, args, context);
+    } catch (error) {
+        // A stopped request ends the whole turn rather than being reported to the model.
+        if (isAbortError(error) || context.signal?.aborted) throw error;
+        console.error(`Tool ${name} failed:`, error);
+        result = declined(parseError(error).message);
+    }
+    return audit(decision === 'approved' ? { ...result, args } : result);
+};
+
+const runPluginTool = async ({ plugin, tool }: NonNullable<ReturnType<typeof pluginService.findTool>>, args: Record<string, any>, context: ToolContext): Promise<ToolResult> => {
+    const result = await pluginService.runTool(plugin, tool.name, args, context.pluginHost!(plugin.manifest.name));
+    return { response: { status: 'success', result }, ...(typeof result === 'string' && result && { text: result }) };
+};
+
+export const toFunctionResponse = (call: FunctionCall, result: ToolResult): Part => ({
+    functionResponse: { id: call.id, name: call.name, response: result.response },
+});
+
+export const toToolCallRecord = (call: FunctionCall, result: ToolResult): ToolCallRecord => ({
+    name: call.name || 'unknown',
+    args: result.args || call.args || {},
+    status: result.response.status === 'error' ? 'error' : 'success',
+});
+
+export const hasVisibleResult = (result: ToolResult): boolean =>
+    !!(result.text || result.imageUrl || result.sources?.length || result.youtubeVideoId);
+
+// Shows a result with its tool's renderer, or a generic one for plugin tools and restored results.
+export const renderToolOutput = (output: ToolOutput) => (getTool(output.name)?.renderResult || renderGenericResult)(output.result);
@@ -0,0 +1,49 @@
+import React from 'react';
+import MarkdownRenderer from '../../components/MarkdownRenderer.tsx';
+import { GlobeIcon } from '../../components/Icons.tsx';
+import type { ToolResult } from './types.ts';
+
+export const renderTextResult = (result: ToolResult) => result.text ? <MarkdownRenderer content={result.text} /> : null;
+
+export const renderImageResult = (result: ToolResult) => result.imageUrl
+    ? <img src={result.imageUrl} alt="Generated by AI" className="max-w-full max-h-full object-contain rounded-lg mx-auto" />
+    : null;
+
+const renderSources = (result: ToolResult) => result.sources && result.sources.length > 0 && (
+    <div className="mt-4">
+        <h4 className="font-semibold text-slate-400">Sources:</h4>
+        <ul className="space-y-1 mt-1">
+            {result.sources.map((s, i) => <li key={i} className="flex items-start space-x-2"><GlobeIcon /><a href={s.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline text-sm truncate">{s.title}</a></li>)}
+        </ul>
+    </div>
+);
+
+export const renderSearchResult = (result: ToolResult) => (
+    <>
+        {result.youtubeVideoId && (
+            <div className="aspect-video mb-4">
+                <iframe
+                    width="100%"
+                    height="100%"
+                    src={`https://www.youtube.com/embed/${result.youtubeVideoId}?autoplay=1`}
+                    title="YouTube video player"
+                    frameBorder="0"
+                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                    allowFullScreen
+                    className="rounded-lg"
+                ></iframe>
+            </div>
+        )}
+        {renderTextResult(result)}
+        {renderSources(result)}
+    </>
+);
+
+// For results whose tool has no renderer of its own, such as plugin tools or results restored from a saved session.
+export const renderGenericResult = (result: ToolResult) => (
+    <>
+        {renderImageResult(result)}
+        {renderTextResult(result)}
+        {renderSources(result)}
+    </>
+);
@@ -0,0 +1,61 @@
+import type { ReactNode } from 'react';
+import type { FunctionDeclaration } from '@google/genai';
+import type { GroundingSource, ToolAuditEntry } from '../../types.ts';
+import type { StoredFile } from '../dbService.ts';
+import type { PluginHost } from '../pluginSandbox.ts';
+
+// Every built-in tool. Plugins may not reuse these names.
+export const TOOL_NAMES = [
+    'searchWeb',
+    'browseWebsite',
+    'generateImage',
+    'listDocuments',
+    'analyzeFile',
+    'createDocument',
+    'createCharacter',
+    'saveMemory',
+    'recallMemory',
+    'controlMediaPlayer',
+] as const;
+
+export type ToolName = typeof TOOL_NAMES[number];
+
+// What a tool may do on the user's behalf:
+// - safe: works only with files the feature shares, the media on screen, or output the user sees
+// - web: fetches pages or search results from the internet
+// - write: changes saved data (library files, characters, memories)
+export type ToolPermission = 'safe' | 'web' | 'write';
+
+// What a feature lends a tool while it runs. Tools never look past these.
+export interface ToolContext {
+    feature: ToolAuditEntry['feature'];
+    // Shows the call to the user for tools set to "ask". Resolves with the arguments to run with (possibly
+    // edited), or null if the user declined. Without it, such calls are declined.
+    requestApproval?: (toolName: string, args: Record<string, unknown>) => Promise<Record<string, unknown> | null>;
+    files: StoredFile[]; // Library files the tool may list and read
+    uploadedFile?: File | null; // A file the user attached outside the library, e.g. Live's media player
+    mediaElement?: HTMLMediaElement | null;
+    personaId?: string; // Owner of memories saved or recalled here
+    location?: { latitude: number; longitude: number };
+    onDocumentSaved?: (file: StoredFile) => void;
+    pluginHost?: (pluginName: string) => PluginHost; // Plugin tools run only where the feature can host them
+    signal?: AbortSignal; // Aborted when the user stops the request that made the call
+}
+
+export interface ToolResult {
+    response: Record<string, unknown>; // Sent back to the model as the function response
+    args?: Record<string, unknown>; // What the tool ran with, when the user edited the model's arguments
+    text?: string;
+    imageUrl?: string;
+    sources?: GroundingSource[];
+    youtubeVideoId?: string;
+}
+
+export interface ToolDefinition {
+    declaration: FunctionDeclaration;
+    permission: ToolPermission;
+    // Failures may throw; the registry reports them to the model as an error response.
+    execute: (args: Record<string, any>, context: ToolContext) => Promise<ToolResult>;
+    // Omitted for tools whose only output is what they tell the model.
+    renderResult?: (result: ToolResult) => ReactNode;
+}
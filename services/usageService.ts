@@ -0,0 +1,148 @@
+import type { UsageRecord } from '../types.ts';
+import { dbService } from './dbService.ts';
+import { BudgetExceededError } from '../utils/errorUtils.ts';
+import { toDayKey } from '../utils/helpers.ts';
+
+const USAGE_SETTINGS_KEY = 'usage_settings';
+
+// Dispatched on window whenever a request is recorded or the settings change.
+export const USAGE_EVENT = 'usageChanged';
+
+// USD per million tokens. `model` matches a model name exactly or as a prefix, so one row covers
+// every version of a model; the longest match wins.
+export interface ModelPrice {
+    model: string;
+    inputPerMillion: number;
+    outputPerMillion: number; // Thinking tokens are billed as output
+}
+
+export interface UsageBudget {
+    monthlyLimit: number; // USD; 0 means no budget
+    action: 'warn' | 'block';
+}
+
+export interface UsageSettings {
+    prices: ModelPrice[];
+    budget: UsageBudget;
+}
+
+// Paid-tier list prices for prompts under 200k tokens. Prices change, which is why they are editable.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    prices: [
+        { model: 'gemini-3-pro', inputPerMillion: 2, outputPerMillion: 12 },
+        { model: 'gemini-3-flash', inputPerMillion: 0.5, outputPerMillion: 3 },
+        { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+        { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+        { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 30 },
+        { model: 'gemini-2.5-flash-native-audio', inputPerMillion: 3, outputPerMillion: 12 },
+        { model: 'text-embedding', inputPerMillion: 0, outputPerMillion: 0 },
+    ],
+    budget: { monthlyLimit: 0, action: 'warn' },
+};
+
+export interface BudgetStatus {
+    limit: number;
+    spent: number;
+    exceeded: boolean;
+    action: UsageBudget['action'];
+}
+
+let settings: UsageSettings = DEFAULT_USAGE_SETTINGS;
+// This month's records, so the budget can be checked before every request without reading the store.
+let monthRecords: UsageRecord[] = [];
+let month = '';
+
+const monthOf = (timestamp: number) => toDayKey(timestamp).slice(0, 7);
+
+const notify = () => window.dispatchEvent(new CustomEvent(USAGE_EVENT));
+
+// Records from before the month rolled over stop counting towards the budget.
+const currentMonthRecords = (): UsageRecord[] => {
+    const current = monthOf(Date.now());
+    if (month !== current) {
+        month = current;
+        monthRecords = [];
+    }
+    return monthRecords;
+};
+
+export const findPrice = (model: string, prices: ModelPrice[] = settings.prices): ModelPrice | undefined =>
+    prices
+        .filter(price => price.model && model.startsWith(price.model))
+        .sort((a, b) => b.model.length - a.model.length)[0];
+
+// Models without a price (e.g. local ones) cost nothing.
+export const costOf = (record: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens' | 'thinkingTokens'>, prices?: ModelPrice[]): number => {
+    const price = findPrice(record.model, prices);
+    if (!price) return 0;
+    return (record.inputTokens * price.inputPerMillion + (record.outputTokens + record.thinkingTokens) * price.outputPerMillion) / 1_000_000;
+};
+
+export const usageService = {
+    getSettings(): UsageSettings {
+        return settings;
+    },
+
+    // Must be called after login, since the settings and the log are stored encrypted.
+    async load(): Promise<void> {
+        const now = Date.now();
+        const [saved, records] = await Promise.all([
+            dbService.getSetting<Partial<UsageSettings>>(USAGE_SETTINGS_KEY),
+            dbService.getUsageRecords(`${monthOf(now)}-01`),
+        ]);
+        settings = {
+            ...DEFAULT_USAGE_SETTINGS,
+            ...(saved || {}),
+            budget: { ...DEFAULT_USAGE_SETTINGS.budget, ...(saved?.budget || {}) },
+        };
+        month = monthOf(now);
+        monthRecords = records;
+        notify();
+    },
+
+    async save(updated: UsageSettings): Promise<void> {
+        await dbService.saveSetting(USAGE_SETTINGS_KEY, updated);
+        settings = updated;
+        notify();
+    },
+
+    // Records from `fromDay` (YYYY-MM-DD) onwards, oldest first.
+    getRecords(fromDay: string): Promise<UsageRecord[]> {
+        return dbService.getUsageRecords(fromDay);
+    },
+
+    // Null while no budget is set.
+    getBudgetStatus(): BudgetStatus | null {
+        const { monthlyLimit, action } = settings.budget;
+        if (monthlyLimit <= 0) return null;
+        const spent = currentMonthRecords().reduce((sum, record) => sum + costOf(record), 0);
+        return { limit: monthlyLimit, spent, exceeded: spent >= monthlyLimit, action };
+    },
+
+    // Called before every request; a budget set to warn only shows the banner.
+    checkBudget(): void {
+        const status = this.getBudgetStatus();
+        if (status?.exceeded && status.action === 'block') {
+            throw new BudgetExceededError(status.spent, status.limit);
+        }
+    },
+
+    // Never rejects: a request shouldn't fail because its usage couldn't be saved.
+    async record(entry: Omit<UsageRecord, 'id' | 'timestamp'>): Promise<void> {
+        const record: UsageRecord = { ...entry, id: crypto.randomUUID(), timestamp: Date.now() };
+        currentMonthRecords().push(record);
+        try {
+            await dbService.addUsageRecord(record);
+        } catch (error) {
+            console.error("Failed to save usage record:", error);
+        }
+        // After saving, so listeners that re-read the log see the new record.
+        notify();
+    },
+
+    async clear(): Promise<void> {
+        await dbService.clearUsageRecords();
+        monthRecords = [];
+        notify();
+    },
+};
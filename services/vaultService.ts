@@ -0,0 +1,67 @@
+import { cryptoService } from './cryptoService.ts';
+import { dbService } from './dbService.ts';
+import { parseError } from '../utils/errorUtils.ts';
+
+// Dispatched on window with the VaultMigrationStatus whenever re-encryption progresses or stops.
+export const VAULT_MIGRATION_EVENT = 'vaultMigrationChanged';
+
+export interface VaultMigrationStatus {
+    running: boolean;
+    done: number;
+    total: number;
+    failed: number; // Records that could not be re-encrypted in the last run
+    error?: string;
+}
+
+let status: VaultMigrationStatus = { running: false, done: 0, total: 0, failed: 0 };
+let migration: Promise<void> | null = null;
+
+const setStatus = (update: Partial<VaultMigrationStatus>) => {
+    status = { ...status, ...update };
+    window.dispatchEvent(new CustomEvent<VaultMigrationStatus>(VAULT_MIGRATION_EVENT, { detail: status }));
+};
+
+export const vaultService = {
+    getMigrationStatus(): VaultMigrationStatus {
+        return status;
+    },
+
+    // Changing only the password is instant. Replacing the keys as well re-encrypts every record.
+    async changePassword(currentPassword: string, newPassword: string, replaceKeys = false): Promise<void> {
+        // Quarantined records don't decrypt or verify, so they can't be moved to new keys and would be
+        // unreadable for good once the old keys are gone.
+        if (replaceKeys && (await dbService.getQuarantinedRecords()).length > 0) {
+            throw new Error("Quarantined records can't be moved to new keys. Export, restore or delete them under Data Integrity first.");
+        }
+        await cryptoService.changePassword(currentPassword, newPassword, replaceKeys);
+        if (replaceKeys) {
+            await this.resumeKeyReplacement();
+        }
+    },
+
+    // Re-encrypts whatever a key replacement left under the old keys, e.g. after a reload cut it short.
+    resumeKeyReplacement(): Promise<void> {
+        migration ||= (async () => {
+            setStatus({ running: true, done: 0, total: 0, failed: 0, error: undefined });
+            try {
+                const failed = await dbService.reencryptAll((done, total) => setStatus({ done, total }));
+                if (failed > 0) {
+                    setStatus({ failed });
+                    throw new Error(`${failed} ${failed === 1 ? 'record' : 'records'} could not be re-encrypted.`);
+                }
+                cryptoService.completeKeyReplacement();
+                setStatus({ running: false });
+            } catch (error) {
+                setStatus({ running: false, error: parseError(error).message });
+                throw error;
+            }
+        })().finally(() => { migration = null; });
+        return migration;
+    },
+
+    // Gives up on records that still can't be re-encrypted; their old keys are discarded.
+    abandonUnreadableRecords(): void {
+        cryptoService.completeKeyReplacement();
+        setStatus({ running: false, failed: 0, error: undefined });
+    },
+};
@@ -0,0 +1,36 @@
+import type { Lorebook } from '../types.ts';
+import { dbService } from './dbService.ts';
+
+const LOREBOOKS_SETTING_KEY = 'lorebooks';
+
+// Library lorebooks, shared by every chat. Lorebooks embedded in a character card live on the persona instead.
+let lorebooks: Lorebook[] = [];
+
+const persist = async (updated: Lorebook[]): Promise<void> => {
+    await dbService.saveSetting(LOREBOOKS_SETTING_KEY, updated);
+    lorebooks = updated;
+};
+
+export const worldInfoService = {
+    getLorebooks(): Lorebook[] {
+        return lorebooks;
+    },
+
+    // Must be called after login, since lorebooks are stored encrypted.
+    async load(): Promise<void> {
+        const saved = await dbService.getSetting<Lorebook[]>(LOREBOOKS_SETTING_KEY);
+        lorebooks = saved || [];
+    },
+
+    async addLorebook(book: Lorebook): Promise<void> {
+        await persist([...lorebooks, book]);
+    },
+
+    async updateLorebook(book: Lorebook): Promise<void> {
+        await persist(lorebooks.map(b => b.id === book.id ? book : b));
+    },
+
+    async deleteLorebook(id: string): Promise<void> {
+        await persist(lorebooks.filter(b => b.id !== id));
+    },
+};
@@ -9,6 +9,45 @@ export interface ChatMessage {
   sources?: GroundingSource[];
   imageUrl?: string;
   timestamp?: number;
+  parentId?: string | null; // Previous message on this branch; null for the first message of a conversation
+  activeChildId?: string; // The reply/continuation currently shown below this message
+  citations?: DocumentCitation[]; // Library chunks that were given to the model for this reply
+  speakerId?: string; // Persona that wrote a model message in a group chat
+  toolCalls?: ToolCallRecord[]; // Tools the model used while writing this reply, in call order
+  truncated?: boolean; // The user stopped this reply before it finished
+}
+
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  status: 'success' | 'error';
+}
+
+export type GroupTurnStrategy = 'round-robin' | 'mention' | 'narrator';
+
+export interface GroupChatSettings {
+  memberIds: string[]; // Participating personas, in speaking order
+  strategy: GroupTurnStrategy;
+  maxTurns: number; // Character replies allowed after each user message before the user gets the turn back
+}
+
+// Lightweight entry kept in the conversation index so the sidebar never has to decrypt every chat.
+export interface ConversationMeta {
+  id: string;
+  title: string;
+  personaId: string;
+  isArchived: boolean;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+export interface Conversation extends ConversationMeta {
+  messages: ChatMessage[]; // The active branch, oldest first
+  branches?: ChatMessage[]; // Alternate replies ("swipes") and edit forks that are not on the active branch
+  accessibleFiles: string[];
+  summary?: string; // Latest working summary produced by /summarize or auto-summarization
+  group?: GroupChatSettings; // Present when several personas take part
 }
 
 export interface Persona {
@@ -23,6 +62,96 @@ export interface Persona {
   avatarUrl: string; // Can be a web URL or a data URL
   scenario: string;
   voice?: string; // Voice URI for speech synthesis
+  characterBook?: Lorebook; // Embedded World Info from an imported character card
+}
+
+// One World Info entry. Field names follow the character card V2 `character_book` spec.
+export interface WorldInfoEntry {
+  id: string;
+  name: string;
+  keys: string[]; // Any match activates the entry; `/pattern/flags` is treated as a regex
+  secondaryKeys: string[];
+  selective: boolean; // When set, at least one secondary key must also match
+  content: string;
+  constant: boolean; // Always inserted, regardless of keys
+  enabled: boolean;
+  caseSensitive: boolean;
+  insertionOrder: number; // Lower is inserted first; higher wins when the token budget runs out
+  position: 'before_char' | 'after_char';
+  scanDepth?: number; // Overrides the book's scan depth for this entry
+}
+
+export interface Lorebook {
+  id: string;
+  name: string;
+  isEnabled: boolean; // Library lorebooks apply to every chat while enabled
+  scanDepth: number; // How many recent messages are scanned for keys
+  tokenBudget: number; // Approximate tokens this book may inject per turn
+  recursiveScanning: boolean; // Activated entries' content can trigger further entries
+  entries: WorldInfoEntry[];
+}
+
+// What a sandboxed plugin may ask the app for. Requests outside the granted set are refused.
+export type PluginPermission = 'conversation:read' | 'conversation:write';
+
+export interface PluginCommand {
+  name: string; // Typed in chat as /name
+  description: string;
+}
+
+export interface PluginTool {
+  name: string; // Function name offered to the model
+  description: string;
+  parameters?: Record<string, unknown>; // JSON Schema of the arguments object
+}
+
+export interface PluginManifest {
+  name: string;
+  version: string;
+  description: string;
+  permissions: PluginPermission[];
+  commands: PluginCommand[];
+  tools: PluginTool[];
+}
+
+export interface InstalledPlugin {
+  id: string;
+  manifest: PluginManifest;
+  code: string; // Runs only inside the plugin sandbox
+  isEnabled: boolean;
+  installedAt: number;
+  failure?: string; // Why the plugin was stopped and turned off, e.g. it navigated its sandbox frame
+}
+
+// Whether a tool runs when the model calls it, waits for the user's approval, or is refused.
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+
+export type ToolDecision = 'allowed' | 'approved' | 'rejected' | 'denied';
+
+// One tool call as recorded in the audit log, whatever became of it.
+export interface ToolAuditEntry {
+  id: string;
+  toolName: string;
+  feature: 'chat' | 'live' | 'reasoning';
+  args: Record<string, unknown>; // As run, i.e. after any edits the user made when approving
+  decision: ToolDecision;
+  status?: 'success' | 'error'; // Only set when the tool actually ran
+  message?: string; // Error text
+  timestamp: number;
+}
+
+// One model request as recorded in the usage log. Cost isn't stored: it is worked out from the
+// price table when shown, so editing a price re-prices past usage too.
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  feature: Exclude<FeatureId, 'memory' | 'usage'> | 'embedding'; // Embeddings serve memories and the File Library alike
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  latencyMs: number; // From sending the request to the end of the reply; 0 for Live turns
+  status: 'success' | 'error';
 }
 
 export interface Memory {
@@ -34,6 +163,23 @@ export interface Memory {
   associatedPersonaId?: string; // null if global
 }
 
+// A slice of a text document from the File Library, embedded for retrieval.
+export interface DocumentChunk {
+  id: string; // `${fileName}#${index}`
+  fileName: string;
+  index: number; // Zero-based position within the file
+  total: number; // Number of chunks the file was split into
+  content: string;
+  embedding: number[];
+}
+
+export interface DocumentCitation {
+  fileName: string;
+  index: number;
+  total: number;
+  score: number;
+}
+
 export interface GroundingSource {
     uri: string;
     title: string;
@@ -50,6 +196,8 @@ export type FeatureId =
   | 'file-library'
   | 'grounding'
   | 'reasoning'
+  | 'memory'
+  | 'usage'
   | 'settings';
 
 export interface Feature {
@@ -0,0 +1,206 @@
+import type { Lorebook, Persona } from '../types.ts';
+import { encode, decode } from './helpers.ts';
+
+// Character Card V2/V3 (https://github.com/malfoyslastname/character-card-spec-v2,
+// https://github.com/kwaroran/character-card-spec-v3). PNG cards carry the card as base64 JSON in a
+// tEXt chunk: `chara` for V2, `ccv3` for V3. We write both so older and newer frontends can read the file.
+
+export type CardVersion = 'v2' | 'v3';
+
+// Fields with no place in the spec survive a round trip through our own extension namespace.
+const EXTENSION_KEY = 'gemini_ai_studio';
+
+const toCharacterBook = (book: Lorebook, version: CardVersion) => ({
+    name: book.name,
+    scan_depth: book.scanDepth,
+    token_budget: book.tokenBudget,
+    recursive_scanning: book.recursiveScanning,
+    extensions: {},
+    entries: book.entries.map((entry, index) => ({
+        id: index,
+        name: entry.name,
+        comment: entry.name,
+        keys: entry.keys,
+        secondary_keys: entry.secondaryKeys,
+        selective: entry.selective,
+        content: entry.content,
+        constant: entry.constant,
+        enabled: entry.enabled,
+        case_sensitive: entry.caseSensitive,
+        insertion_order: entry.insertionOrder,
+        position: entry.position,
+        extensions: entry.scanDepth !== undefined ? { scan_depth: entry.scanDepth } : {},
+        ...(version === 'v3' && { use_regex: entry.keys.some(k => /^\/.+\/[gimsuy]*$/.test(k)) }),
+    })),
+});
+
+export const toCharacterCard = (persona: Persona, version: CardVersion) => {
+    const data = {
+        name: persona.role,
+        description: persona.lore,
+        personality: persona.personalityTraits,
+        scenario: persona.scenario,
+        first_mes: persona.characterDescription,
+        mes_example: '',
+        creator_notes: '',
+        system_prompt: persona.systemPrompt,
+        post_history_instructions: '',
+        alternate_greetings: [],
+        tags: [],
+        creator: '',
+        character_version: '',
+        extensions: { [EXTENSION_KEY]: { physicalTraits: persona.physicalTraits, voice: persona.voice || '' } },
+        ...(persona.characterBook && { character_book: toCharacterBook(persona.characterBook, version) }),
+        ...(version === 'v3' && { group_only_greetings: [] }),
+    };
+    return version === 'v3'
+        ? { spec: 'chara_card_v3', spec_version: '3.0', data }
+        : { spec: 'chara_card_v2', spec_version: '2.0', data };
+};
+
+// The card fields our import maps back onto a Persona, including our own extension values.
+export const getCardExtensions = (data: any): { physicalTraits?: string; voice?: string } => data?.extensions?.[EXTENSION_KEY] || {};
+
+const toBase64Json = (value: unknown): string => encode(new TextEncoder().encode(JSON.stringify(value)));
+
+const PNG_SIGNATURE = 0x89504E47;
+
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+interface PngChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.getUint32(0) !== PNG_SIGNATURE) throw new Error("Not a PNG image.");
+    const chunks: PngChunk[] = [];
+    let offset = 8;
+    while (offset < bytes.byteLength) {
+        const length = view.getUint32(offset);
+        const type = new TextDecoder().decode(bytes.subarray(offset + 4, offset + 8));
+        chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+        if (type === 'IEND') break;
+        offset += 12 + length;
+    }
+    return chunks;
+};
+
+const writePngChunks = (chunks: PngChunk[]): Uint8Array => {
+    const size = 8 + chunks.reduce((total, chunk) => total + 12 + chunk.data.byteLength, 0);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    bytes.set([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+    let offset = 8;
+    for (const chunk of chunks) {
+        const typeAndData = new Uint8Array(4 + chunk.data.byteLength);
+        typeAndData.set(new TextEncoder().encode(chunk.type));
+        typeAndData.set(chunk.data, 4);
+        view.setUint32(offset, chunk.data.byteLength);
+        bytes.set(typeAndData, offset + 4);
+        view.setUint32(offset + 8 + chunk.data.byteLength, crc32(typeAndData));
+        offset += 12 + chunk.data.byteLength;
+    }
+    return bytes;
+};
+
+const textChunk = (keyword: string, text: string): PngChunk => ({ type: 'tEXt', data: new TextEncoder().encode(`${keyword}\0${text}`) });
+
+const textChunkKeyword = (chunk: PngChunk): string | null => {
+    if (chunk.type !== 'tEXt') return null;
+    const separator = chunk.data.indexOf(0);
+    return separator > -1 ? new TextDecoder('latin1').decode(chunk.data.subarray(0, separator)) : null;
+};
+
+// Returns the card JSON embedded in a PNG, preferring V3 (`ccv3`) over V2 (`chara`).
+export const findJsonInPng = (arrayBuffer: ArrayBuffer): string | null => {
+    let chunks: PngChunk[];
+    try {
+        chunks = readPngChunks(new Uint8Array(arrayBuffer));
+    } catch {
+        return null;
+    }
+    for (const keyword of ['ccv3', 'chara']) {
+        const chunk = chunks.find(c => textChunkKeyword(c) === keyword);
+        if (chunk) {
+            const base64 = new TextDecoder('latin1').decode(chunk.data.subarray(keyword.length + 1));
+            return new TextDecoder().decode(decode(base64));
+        }
+    }
+    return null;
+};
+
+// Replaces any card data in the PNG with this persona, as both V2 and V3.
+export const embedCardInPng = (png: Uint8Array, persona: Persona): Uint8Array => {
+    const chunks = readPngChunks(png).filter(c => !['chara', 'ccv3'].includes(textChunkKeyword(c) || ''));
+    const cardChunks = [textChunk('chara', toBase64Json(toCharacterCard(persona, 'v2'))), textChunk('ccv3', toBase64Json(toCharacterCard(persona, 'v3')))];
+    return writePngChunks([...chunks.slice(0, -1), ...cardChunks, chunks[chunks.length - 1]]);
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> => new Promise((resolve, reject) => {
+    canvas.toBlob(async blob => {
+        if (!blob) return reject(new Error("Could not render the card image."));
+        resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/png');
+});
+
+// Cards are conventionally 2:3 portraits; used when a persona has no avatar or it can't be loaded.
+const renderPlaceholder = (persona: Persona): Promise<Uint8Array> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 400;
+    canvas.height = 600;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+    gradient.addColorStop(0, '#1e293b');
+    gradient.addColorStop(1, '#1e3a8a');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#e2e8f0';
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 180px sans-serif';
+    ctx.fillText(persona.role.charAt(0).toUpperCase(), canvas.width / 2, 340);
+    ctx.font = '28px sans-serif';
+    ctx.fillText(persona.role.slice(0, 24), canvas.width / 2, 440);
+    return canvasToPng(canvas);
+};
+
+// Re-encodes the avatar (any format, data or web URL) as PNG; remote images must allow CORS.
+const renderAvatar = (avatarUrl: string): Promise<Uint8Array> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        canvas.getContext('2d')!.drawImage(image, 0, 0);
+        canvasToPng(canvas).then(resolve, reject);
+    };
+    image.onerror = () => reject(new Error("Could not load the avatar image."));
+    image.src = avatarUrl;
+});
+
+export const createCardPng = async (persona: Persona): Promise<Blob> => {
+    let png: Uint8Array;
+    try {
+        png = persona.avatarUrl ? await renderAvatar(persona.avatarUrl) : await renderPlaceholder(persona);
+    } catch (error) {
+        console.warn("Falling back to a placeholder card image:", error);
+        png = await renderPlaceholder(persona);
+    }
+    return new Blob([embedCardInPng(png, persona)], { type: 'image/png' });
+};
@@ -0,0 +1,54 @@
+// Splits the chat's context window between what goes into each request. Sections are filled in
+// priority order: the system prompt always goes in, lore, memories and file passages get up to
+// their share each, and the conversation history gets the rest. History that outgrows what is
+// left is summarized rather than cut.
+
+// Rough count (≈4 characters per token); used for sizing and whenever the provider can't count.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Gemini bills an image part at a flat size, whatever its resolution.
+export const IMAGE_TOKENS = 258;
+
+export type ContextSection = 'system' | 'lore' | 'memories' | 'files' | 'history';
+
+// Sections trimmed to fit, in the order they claim budget.
+export const TRIMMED_SECTIONS = ['lore', 'memories', 'files'] as const;
+export type TrimmedSection = typeof TRIMMED_SECTIONS[number];
+
+export type ContextUsage = Record<ContextSection, number>;
+
+export const EMPTY_CONTEXT_USAGE: ContextUsage = { system: 0, lore: 0, memories: 0, files: 0, history: 0 };
+
+export interface ContextBudgetSettings {
+    totalTokens: number; // Context the chat may fill per request
+    shares: Record<TrimmedSection, number>; // Most of `totalTokens` each section may take, 0-1
+    summarizeAt: number; // Share of the history budget at which the history is summarized, 0-1
+}
+
+export const DEFAULT_CONTEXT_BUDGET_SETTINGS: ContextBudgetSettings = {
+    totalTokens: 32000,
+    shares: { lore: 0.1, memories: 0.1, files: 0.25 },
+    summarizeAt: 0.9,
+};
+
+// Keeps items in priority order while they fit. An item too big for what is left is skipped, so
+// smaller ones after it can still use the space.
+export const fitToBudget = <T,>(items: T[], costOf: (item: T) => number, budget: number): { kept: T[]; used: number } => {
+    const kept: T[] = [];
+    let used = 0;
+    for (const item of items) {
+        const cost = costOf(item);
+        if (used + cost > budget) continue;
+        kept.push(item);
+        used += cost;
+    }
+    return { kept, used };
+};
+
+// What a trimmed section may use: its share, but never more than the higher-priority sections left over.
+export const sectionBudget = (settings: ContextBudgetSettings, section: TrimmedSection, remaining: number): number =>
+    Math.max(0, Math.min(Math.floor(settings.totalTokens * settings.shares[section]), remaining));
+
+// What is left for the history after everything else in the last request.
+export const historyBudget = (settings: ContextBudgetSettings, usage: ContextUsage): number =>
+    Math.max(0, settings.totalTokens - usage.system - usage.lore - usage.memories - usage.files);
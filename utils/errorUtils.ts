@@ -1,24 +1,148 @@
+import type { FeatureId } from '../types.ts';
+
 export interface FormattedError {
     timestamp: string;
     code?: string;
     message: string;
     details: string;
+    action?: ErrorAction;
+}
+
+// A shortcut rendered by ErrorDisplay that takes the user to the screen where the problem can be fixed.
+export interface ErrorAction {
+    label: string;
+    featureId: FeatureId;
+}
+
+const API_KEY_SETTINGS_ACTION: ErrorAction = { label: 'Manage API Keys', featureId: 'settings' };
+
+// Dispatched on window; App switches to the requested feature.
+export const NAVIGATE_EVENT = 'navigateToFeature';
+
+export const navigateToFeature = (featureId: FeatureId) => {
+    window.dispatchEvent(new CustomEvent<FeatureId>(NAVIGATE_EVENT, { detail: featureId }));
+};
+
+// Thrown by providers that call HTTP APIs directly, so failures carry the response status like the
+// Gemini SDK's ApiError does.
+export class ApiRequestError extends Error {
+    constructor(message: string, public status: number, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'ApiRequestError';
+    }
+}
+
+// Thrown before a request is sent once spending this month has reached a budget set to block.
+export class BudgetExceededError extends Error {
+    constructor(public spent: number, public limit: number) {
+        super(`The monthly budget of $${limit.toFixed(2)} has been reached ($${spent.toFixed(2)} spent).`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+// What an API failure says about itself: the HTTP status, the API's own status name and reason
+// (e.g. RESOURCE_EXHAUSTED, API_KEY_INVALID), its message, and how long it asked us to wait.
+export interface ApiErrorInfo {
+    status?: number;
+    apiStatus?: string;
+    reason?: string;
+    message?: string;
+    retryAfterMs?: number;
 }
 
+// Reads "23s" / "1.5s" durations used by google.rpc.RetryInfo.
+const parseDuration = (value: unknown): number | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const seconds = parseFloat(value);
+    return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+};
+
+// The SDK's ApiError and ApiRequestError both carry `status`; their message holds the JSON error body.
+export const getApiErrorInfo = (error: unknown): ApiErrorInfo => {
+    if (!(error instanceof Error)) return {};
+    const { status, retryAfterMs } = error as Error & { status?: unknown; retryAfterMs?: number };
+    const info: ApiErrorInfo = { status: typeof status === 'number' ? status : undefined, retryAfterMs };
+    if (info.status === undefined) return info;
+
+    const jsonStart = error.message.indexOf('{');
+    if (jsonStart < 0) return info;
+    try {
+        const body = JSON.parse(error.message.slice(jsonStart));
+        const details = body.error ?? body;
+        info.apiStatus = typeof details.status === 'string' ? details.status : undefined;
+        info.message = typeof details.message === 'string' ? details.message : undefined;
+        for (const detail of Array.isArray(details.details) ? details.details : []) {
+            const type = String(detail?.['@type'] || '');
+            if (type.endsWith('RetryInfo')) info.retryAfterMs ??= parseDuration(detail.retryDelay);
+            if (type.endsWith('ErrorInfo') && typeof detail.reason === 'string') info.reason = detail.reason;
+        }
+    } catch { /* Not a JSON body; the status alone has to do */ }
+    return info;
+};
+
+// True for the rejection of a request cancelled through an AbortSignal, which callers treat as a
+// deliberate stop rather than a failure.
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && (error.name === 'AbortError' || /\baborted\b/i.test(error.message));
+
+// Failures worth sending again: rate limits, overloaded or failing servers, timeouts and dropped connections.
+export const isTransientError = (error: unknown): boolean => {
+    if (isAbortError(error)) return false;
+    const { status } = getApiErrorInfo(error);
+    if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+    return error instanceof TypeError && /failed to fetch|network/i.test(error.message);
+};
+
+// Codes and messages for API failures, keyed by HTTP status.
+const describeApiError = ({ status, apiStatus, reason, message }: ApiErrorInfo): Pick<FormattedError, 'code' | 'message' | 'action'> | null => {
+    if (reason === 'API_KEY_INVALID' || status === 401) {
+        return { code: 'AUTH_001', message: 'Invalid API Key. Please verify your key in the settings.', action: API_KEY_SETTINGS_ACTION };
+    }
+    switch (status) {
+        case 400:
+            return apiStatus === 'INVALID_ARGUMENT'
+                ? { code: 'INPUT_001', message: 'The provided input is invalid or in an unsupported format. Please check it and try again.' }
+                : { code: 'REQ_400', message: message || 'The request was malformed. Please check your input and try again.' };
+        case 403:
+            return { code: 'AUTH_003', message: 'This API key is not allowed to use the requested model or service.', action: API_KEY_SETTINGS_ACTION };
+        case 404:
+            return { code: 'REQ_404', message: 'The requested model was not found. Check the model names in Settings.', action: { label: 'Model Settings', featureId: 'settings' } };
+        case 408:
+        case 504:
+            return { code: 'SRV_504', message: 'The request timed out. Please try again.' };
+        case 429:
+            return { code: 'REQ_429', message: 'You have exceeded your API quota. Please check your usage and billing or try again later.' };
+        case 503:
+            return { code: 'SRV_503', message: 'The model is overloaded right now. Please try again in a little while.' };
+    }
+    if (status !== undefined && status >= 500) {
+        return { code: 'SRV_500', message: 'A server-side error occurred. The service may be temporarily unavailable. Please try again later.' };
+    }
+    return null;
+};
+
 export const parseError = (error: unknown): FormattedError => {
     const timestamp = new Date().toISOString();
     let code: string | undefined = undefined;
     let message = 'An unexpected error occurred.';
     let details = '';
+    let action: ErrorAction | undefined = undefined;
 
     if (error instanceof Error) {
         details = error.stack || error.toString();
         const errorMessage = error.message.toLowerCase();
+        const apiError = describeApiError(getApiErrorInfo(error));
 
-        // Gemini/API specific errors
-        if (errorMessage.includes('api key not valid')) {
-            code = 'AUTH_001';
-            message = 'Invalid API Key. Please verify your key in the settings.';
+        if (error instanceof BudgetExceededError) {
+            code = 'BUDGET_001';
+            message = `${error.message} Raise the budget or switch it to warn only to keep sending requests.`;
+            action = { label: 'View Usage', featureId: 'usage' };
+        } else if (apiError) {
+            ({ code, message, action } = apiError);
+        } else if (errorMessage.includes('api key is missing')) {
+            code = 'AUTH_002';
+            message = 'No Gemini API key is configured. Add one in the settings.';
+            action = API_KEY_SETTINGS_ACTION;
         } else if (errorMessage.includes('permission denied')) {
             code = 'PERM_001';
             message = 'Permission denied. Please ensure you have granted necessary permissions (e.g., for microphone) and try again.';
@@ -28,18 +152,9 @@ export const parseError = (error: unknown): FormattedError => {
         } else if (errorMessage.includes('voice api_name') && errorMessage.includes('is not available')) {
             code = 'CONFIG_001';
             message = 'The selected voice is not available for the live conversation model. Please choose another voice in Settings.';
-        } else if (errorMessage.includes('invalid_argument') || errorMessage.includes('unsupported image format')) {
+        } else if (errorMessage.includes('unsupported image format')) {
             code = 'INPUT_001';
             message = 'The provided file is invalid or in an unsupported format. Please check the file and try again.';
-        } else if (errorMessage.includes('400')) {
-            code = 'REQ_400';
-            message = 'The request was malformed. Please check your input and try again.';
-        } else if (errorMessage.includes('429')) {
-            code = 'REQ_429';
-            message = 'You have exceeded your API quota. Please check your usage and billing or try again later.';
-        } else if (errorMessage.includes('500')) {
-            code = 'SRV_500';
-            message = 'A server-side error occurred. The service may be temporarily unavailable. Please try again later.';
         }
         // Network errors
         else if (errorMessage.includes('network') || errorMessage.includes('failed to fetch')) {
@@ -57,5 +172,5 @@ export const parseError = (error: unknown): FormattedError => {
         details = JSON.stringify(error, null, 2);
     }
     
-    return { timestamp, code, message, details };
+    return { timestamp, code, message, details, action };
 };
@@ -0,0 +1,74 @@
+import type { Content } from '@google/genai';
+import type { ChatMessage, GroupChatSettings, Persona } from '../types.ts';
+
+// Group chats share one message tree; each character sees it from its own point of view.
+// Its own lines are model turns, and everyone else's are user turns tagged with the speaker's name.
+
+export const MAX_GROUP_TURNS = 10;
+const NARRATOR_TRANSCRIPT_LENGTH = 20;
+
+export const createGroupSettings = (memberIds: string[]): GroupChatSettings => ({ memberIds, strategy: 'round-robin', maxTurns: 3 });
+
+export const speakerName = (message: ChatMessage, members: Persona[]): string => {
+    if (message.role === 'user') return 'User';
+    return members.find(p => p.id === message.speakerId)?.role || 'Assistant';
+};
+
+// Splits the shared history into what `speaker` has seen and the turn it should answer. When the
+// speaker itself spoke last, it is asked to continue instead.
+export const toGroupTurn = (messages: ChatMessage[], speaker: Persona, members: Persona[]): { history: Content[]; prompt: string } => {
+    const history: Content[] = [];
+    for (const message of messages) {
+        if (message.role === 'system') continue;
+        const isOwn = message.role === 'model' && message.speakerId === speaker.id;
+        const role = isOwn ? 'model' : 'user';
+        const text = isOwn ? message.parts[0].text : `[${speakerName(message, members)}]: ${message.parts[0].text}`;
+        const previous = history[history.length - 1];
+        // Consecutive lines from others are merged so roles keep alternating.
+        if (previous?.role === role) previous.parts!.push({ text });
+        else history.push({ role, parts: [{ text }] });
+    }
+    const last = history[history.length - 1];
+    if (last?.role === 'user') {
+        history.pop();
+        return { history, prompt: last.parts!.map(p => p.text).join('\n\n') };
+    }
+    return { history, prompt: `[SYSTEM]: Continue the conversation as ${speaker.role}.` };
+};
+
+export const groupSystemNote = (speaker: Persona, members: Persona[]): string => {
+    const others = members.filter(p => p.id !== speaker.id).map(p => p.role);
+    return `\n\n[GROUP CHAT]: You are ${speaker.role}, talking with the user${others.length > 0 ? ` and ${others.join(', ')}` : ''}. Messages from others start with the speaker's name in brackets. Reply only as ${speaker.role}, without a name prefix, and never write lines for anyone else.`;
+};
+
+export const formatTranscript = (messages: ChatMessage[], members: Persona[]): string => messages
+    .filter(m => m.role !== 'system')
+    .slice(-NARRATOR_TRANSCRIPT_LENGTH)
+    .map(m => `${speakerName(m, members)}: ${m.parts[0].text}`)
+    .join('\n');
+
+const isMentioned = (text: string, persona: Persona): boolean => {
+    const firstName = persona.role.trim().split(/\s+/)[0];
+    if (!firstName) return false;
+    const escaped = firstName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])@?${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+// Next speaker for the rule-based strategies (the narrator falls back to this when its answer is unusable).
+// `isFirstReply` is true right after the user spoke: someone always answers then. Later turns return
+// null to hand the conversation back to the user.
+export const pickNextSpeaker = (settings: GroupChatSettings, members: Persona[], messages: ChatMessage[], isFirstReply: boolean): Persona | null => {
+    if (members.length === 0) return null;
+    const spoken = messages.filter(m => m.role !== 'system');
+    const last = spoken[spoken.length - 1];
+    const lastSpeakerIndex = members.findIndex(p => p.id === [...spoken].reverse().find(m => m.role === 'model')?.speakerId);
+    const nextInOrder = members[(lastSpeakerIndex + 1) % members.length];
+
+    if (settings.strategy === 'mention') {
+        const mentioned = last ? members.find(p => p.id !== last.speakerId && isMentioned(last.parts[0].text, p)) : undefined;
+        return mentioned || (isFirstReply ? nextInOrder : null);
+    }
+    // A lone character doesn't talk to itself.
+    if (members.length === 1 && !isFirstReply) return null;
+    return nextInOrder;
+};
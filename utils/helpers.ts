@@ -65,6 +65,12 @@ export const base64ToBlob = (base64: string, mimeType: string): globalThis.Blob
     return new window.Blob([byteArray], { type: mimeType });
 };
 
+// Local calendar day as YYYY-MM-DD, which sorts in date order.
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
 export const formatBytes = (bytes: number, decimals = 2) => {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
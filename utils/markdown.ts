@@ -0,0 +1,255 @@
+// A small Markdown parser for model output. It builds a tree that MarkdownRenderer turns into React
+// elements, so no model-provided HTML ever reaches the DOM: raw tags are shown as text and links are
+// limited to http(s) and mailto URLs.
+//
+// Supported: ATX headings, paragraphs with hard line breaks, bullet and numbered lists (nested by
+// indentation), blockquotes, fenced code blocks (an unterminated fence runs to the end, which keeps
+// streaming replies readable), GFM tables, horizontal rules, **strong**, *emphasis*, ~~strikethrough~~,
+// `inline code`, [links](https://…), <https://…> and bare URLs.
+
+export type InlineNode =
+    | { type: 'text'; text: string }
+    | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: InlineNode[] }
+    | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+    | { type: 'paragraph'; children: InlineNode[] }
+    | { type: 'heading'; level: number; children: InlineNode[] }
+    | { type: 'code'; language: string; code: string }
+    | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+    | { type: 'blockquote'; children: BlockNode[] }
+    | { type: 'table'; align: TableAlignment[]; header: InlineNode[][]; rows: InlineNode[][][] }
+    | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Returns the normalized URL when it is safe to link to, or null (e.g. for `javascript:` URLs).
+export const safeHref = (url: string): string | null => {
+    try {
+        const parsed = new URL(url);
+        return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Inline ---
+
+type InlineRule = { pattern: RegExp; toNode: (match: RegExpExecArray) => InlineNode; afterWordOnly?: boolean };
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+const linkOrText = (href: string, children: InlineNode[], fallback: string): InlineNode => {
+    const safe = safeHref(href);
+    return safe ? { type: 'link', href: safe, children } : { type: 'text', text: fallback };
+};
+
+// Tried in order at each position; all patterns are sticky so they only match right there.
+const INLINE_RULES: InlineRule[] = [
+    {
+        pattern: /(`+)([\s\S]*?[^`])\1(?!`)/y,
+        // One leading and trailing space is stripped so `` ` `` can show a backtick.
+        toNode: m => ({ type: 'code', text: /^ .* $/s.test(m[2]) ? m[2].slice(1, -1) : m[2] }),
+    },
+    { pattern: /\\([!-/:-@[-`{-~])/y, toNode: m => ({ type: 'text', text: m[1] }) },
+    {
+        pattern: /\[((?:[^[\]\n]|\[[^[\]\n]*\])+)\]\(\s*<?([^\s<>()]*(?:\([^\s()]*\)[^\s<>()]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/y,
+        toNode: m => linkOrText(m[2], parseInline(m[1]), m[0]),
+    },
+    { pattern: /<((?:https?:\/\/|mailto:)[^\s<>]+)>/y, toNode: m => linkOrText(m[1], [{ type: 'text', text: m[1] }], m[0]) },
+    {
+        pattern: /https?:\/\/[^\s<>]*[^\s<>.,:;"'!?*_~)\]]/y,
+        toNode: m => linkOrText(m[0], [{ type: 'text', text: m[0] }], m[0]),
+        afterWordOnly: true,
+    },
+    { pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*/y, toNode: m => ({ type: 'strong', children: parseInline(m[1]) }) },
+    { pattern: /__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}_])/uy, toNode: m => ({ type: 'strong', children: parseInline(m[1]) }), afterWordOnly: true },
+    { pattern: /~~(?=\S)([\s\S]*?\S)~~/y, toNode: m => ({ type: 'del', children: parseInline(m[1]) }) },
+    { pattern: /\*(?=[^\s*])([\s\S]*?[^\s*])\*(?!\*)/y, toNode: m => ({ type: 'em', children: parseInline(m[1]) }) },
+    { pattern: /_(?=\S)([\s\S]*?\S)_(?![\p{L}\p{N}_])/uy, toNode: m => ({ type: 'em', children: parseInline(m[1]) }), afterWordOnly: true },
+    { pattern: / *\n/y, toNode: () => ({ type: 'break' }) },
+];
+
+const INLINE_TRIGGERS = new Set(['`', '\\', '[', '<', 'h', '*', '_', '~', ' ', '\n']);
+
+export const parseInline = (text: string): InlineNode[] => {
+    const nodes: InlineNode[] = [];
+    let buffer = '';
+    let pos = 0;
+    const flush = () => {
+        if (buffer) nodes.push({ type: 'text', text: buffer });
+        buffer = '';
+    };
+    while (pos < text.length) {
+        let matched = false;
+        if (INLINE_TRIGGERS.has(text[pos])) {
+            for (const rule of INLINE_RULES) {
+                if (rule.afterWordOnly && isWordChar(text[pos - 1])) continue;
+                rule.pattern.lastIndex = pos;
+                const match = rule.pattern.exec(text);
+                if (!match) continue;
+                flush();
+                nodes.push(rule.toNode(match));
+                pos += match[0].length;
+                matched = true;
+                break;
+            }
+        }
+        if (!matched) buffer += text[pos++];
+    }
+    flush();
+    return nodes;
+};
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] => {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number): boolean =>
+    lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+// Lines that end a paragraph without a blank line in between.
+const startsBlock = (lines: string[], i: number): boolean => {
+    const line = lines[i];
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+};
+
+const indentOf = (line: string): number => line.match(/^ */)![0].length;
+
+const parseList = (lines: string[], start: number): { node: BlockNode; next: number } => {
+    const first = LIST_ITEM.exec(lines[start])!;
+    const baseIndent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    const items: BlockNode[][] = [];
+    let i = start;
+    while (i < lines.length) {
+        const match = LIST_ITEM.exec(lines[i]);
+        if (!match || match[1].length !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+        const contentIndent = baseIndent + match[2].length + 1;
+        const itemLines = [match[3] || ''];
+        i++;
+        while (i < lines.length) {
+            const line = lines[i];
+            if (!line.trim()) {
+                // A blank line continues the item only if indented content follows.
+                const nextLine = lines[i + 1];
+                if (nextLine === undefined || indentOf(nextLine) < contentIndent || !nextLine.trim()) break;
+                itemLines.push('');
+                i++;
+                continue;
+            }
+            if (indentOf(line) >= contentIndent) {
+                itemLines.push(line.slice(contentIndent));
+            } else if (indentOf(line) > baseIndent && LIST_ITEM.test(line)) {
+                // Sub-lists indented less than the item's text still belong to it.
+                itemLines.push(line.slice(baseIndent + 1));
+            } else if (!startsBlock(lines, i)) {
+                itemLines.push(line.trim()); // Lazy continuation of the item's paragraph
+            } else {
+                break;
+            }
+            i++;
+        }
+        items.push(parseBlocks(itemLines));
+        // Items separated by a blank line still form one list.
+        if (!lines[i]?.trim() && i + 1 < lines.length) {
+            const nextItem = LIST_ITEM.exec(lines[i + 1]);
+            if (nextItem && nextItem[1].length === baseIndent && /\d/.test(nextItem[2]) === ordered) i++;
+        }
+    }
+    return { node: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+export const parseBlocks = (lines: string[]): BlockNode[] => {
+    const blocks: BlockNode[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) { i++; continue; }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`);
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !closing.test(lines[i])) code.push(lines[i++]);
+            i++;
+            blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: code.join('\n') });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && lines[i].trim() && (BLOCKQUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+                quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const { node, next } = parseList(lines, i);
+            blocks.push(node);
+            i = next;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line);
+            const align = splitTableRow(lines[i + 1]).map((cell): TableAlignment => {
+                if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+                if (cell.endsWith(':')) return 'right';
+                if (cell.startsWith(':')) return 'left';
+                return null;
+            });
+            const rows: InlineNode[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+                const cells = splitTableRow(lines[i]);
+                rows.push(header.map((_, col) => parseInline(cells[col] || '')));
+                i++;
+            }
+            blocks.push({ type: 'table', align: header.map((_, col) => align[col] || null), header: header.map(cell => parseInline(cell)), rows });
+            continue;
+        }
+
+        const paragraph = [line.trim()];
+        i++;
+        while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    return blocks;
+};
+
+export const parseMarkdown = (source: string): BlockNode[] => parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
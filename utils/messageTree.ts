@@ -0,0 +1,130 @@
+import type { ChatMessage } from '../types.ts';
+
+// Chat history is a tree: every message points at its parent, and each parent remembers which
+// child is currently shown. The "active path" walks those choices from the selected root down,
+// and is what gets rendered and sent to the model. All helpers return a new tree.
+
+export interface MessageTree {
+    nodes: Record<string, ChatMessage>;
+    rootIds: string[]; // First messages of each top-level branch, oldest first
+    activeRootId: string | null;
+}
+
+export const createEmptyTree = (): MessageTree => ({ nodes: {}, rootIds: [], activeRootId: null });
+
+// Rebuilds a tree from its stored form. Conversations saved before branching existed have no
+// parent links, so their messages are chained in order.
+export const buildTree = (path: ChatMessage[], branches: ChatMessage[] = []): MessageTree => {
+    const isLinear = path.every(m => m.parentId === undefined);
+    const nodes: Record<string, ChatMessage> = {};
+    let previousId: string | null = null;
+    let firstId: string | null = null;
+    for (const message of path) {
+        const id = message.id || crypto.randomUUID();
+        firstId = firstId || id;
+        nodes[id] = isLinear ? { ...message, id, parentId: previousId } : { ...message, id };
+        if (isLinear && previousId) nodes[previousId] = { ...nodes[previousId], activeChildId: id };
+        previousId = id;
+    }
+    for (const message of branches) {
+        if (message.id) nodes[message.id] = message;
+    }
+    const rootIds = Object.values(nodes).filter(m => !m.parentId).map(m => m.id!);
+    return { nodes, rootIds, activeRootId: firstId || rootIds[0] || null };
+};
+
+export const getActivePath = (tree: MessageTree): ChatMessage[] => {
+    const path: ChatMessage[] = [];
+    let current = tree.activeRootId ? tree.nodes[tree.activeRootId] : undefined;
+    while (current) {
+        path.push(current);
+        current = current.activeChildId ? tree.nodes[current.activeChildId] : undefined;
+    }
+    return path;
+};
+
+// Splits the tree back into its stored form: the active path plus every other node.
+export const splitTree = (tree: MessageTree): { messages: ChatMessage[]; branches: ChatMessage[] } => {
+    const messages = getActivePath(tree);
+    const activeIds = new Set(messages.map(m => m.id));
+    return { messages, branches: Object.values(tree.nodes).filter(m => !activeIds.has(m.id)) };
+};
+
+// Ancestors of a message (inclusive), oldest first.
+export const getPathTo = (tree: MessageTree, id: string): ChatMessage[] => {
+    const path: ChatMessage[] = [];
+    let current: ChatMessage | undefined = tree.nodes[id];
+    while (current) {
+        path.unshift(current);
+        current = current.parentId ? tree.nodes[current.parentId] : undefined;
+    }
+    return path;
+};
+
+// Alternatives for a message, oldest first (storage order isn't stable across reloads).
+export const getSiblings = (tree: MessageTree, id: string): ChatMessage[] => {
+    const parentId = tree.nodes[id]?.parentId;
+    const siblings = parentId
+        ? Object.values(tree.nodes).filter(m => m.parentId === parentId)
+        : tree.rootIds.map(rootId => tree.nodes[rootId]);
+    return siblings.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+};
+
+// Adds a message under `parentId` (null for a new root) and makes it the active branch.
+export const addChild = (tree: MessageTree, parentId: string | null, message: ChatMessage): MessageTree => {
+    const id = message.id || crypto.randomUUID();
+    const nodes = { ...tree.nodes, [id]: { ...message, id, parentId } };
+    if (parentId && nodes[parentId]) {
+        nodes[parentId] = { ...nodes[parentId], activeChildId: id };
+        return { ...tree, nodes };
+    }
+    return { nodes, rootIds: [...tree.rootIds, id], activeRootId: id };
+};
+
+// Appends messages to the end of the active path.
+export const appendMessages = (tree: MessageTree, ...messages: ChatMessage[]): MessageTree => {
+    return messages.reduce((current, message) => {
+        const path = getActivePath(current);
+        return addChild(current, path[path.length - 1]?.id || null, message);
+    }, tree);
+};
+
+export const updateMessage = (tree: MessageTree, id: string, update: (message: ChatMessage) => ChatMessage): MessageTree => {
+    if (!tree.nodes[id]) return tree;
+    return { ...tree, nodes: { ...tree.nodes, [id]: update(tree.nodes[id]) } };
+};
+
+// Makes `id` the shown message among its siblings; its own previously chosen descendants come back with it.
+export const selectBranch = (tree: MessageTree, id: string): MessageTree => {
+    const message = tree.nodes[id];
+    if (!message) return tree;
+    if (!message.parentId) return { ...tree, activeRootId: id };
+    return updateMessage(tree, message.parentId, parent => ({ ...parent, activeChildId: id }));
+};
+
+// Replaces everything above `keepFromId` with `prefix` (e.g. a summary), keeping the kept message's
+// whole subtree, including any alternate replies below it.
+export const rebaseTree = (tree: MessageTree, prefix: ChatMessage[], keepFromId: string): MessageTree => {
+    const keep = new Set<string>([keepFromId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const m of Object.values(tree.nodes)) {
+            if (m.parentId && keep.has(m.parentId) && !keep.has(m.id!)) {
+                keep.add(m.id!);
+                grew = true;
+            }
+        }
+    }
+    let rebased = appendMessages(createEmptyTree(), ...prefix);
+    const prefixLeaf = getActivePath(rebased).pop();
+    for (const id of keep) {
+        rebased.nodes[id] = id === keepFromId ? { ...tree.nodes[id], parentId: prefixLeaf?.id || null } : tree.nodes[id];
+    }
+    if (prefixLeaf) {
+        rebased = updateMessage(rebased, prefixLeaf.id!, m => ({ ...m, activeChildId: keepFromId }));
+    } else {
+        rebased = { ...rebased, rootIds: [keepFromId], activeRootId: keepFromId };
+    }
+    return rebased;
+};
@@ -0,0 +1,79 @@
+import type { InstalledPlugin, PluginCommand, PluginManifest, PluginPermission, PluginTool } from '../types.ts';
+import { TOOL_NAMES } from '../services/tools/types.ts';
+
+// A plugin package is one JSON file: the manifest fields plus the plugin's source as `code`.
+//
+// {
+//   "name": "Dice", "version": "1.0.0", "description": "Rolls dice.",
+//   "permissions": ["conversation:write"],
+//   "commands": [{ "name": "roll", "description": "Roll dice, e.g. /roll 2d6" }],
+//   "tools": [{ "name": "roll_dice", "description": "Rolls dice.", "parameters": { "type": "object", "properties": { "sides": { "type": "number" } } } }],
+//   "code": "plugin.command('roll', async (args, ctx) => { ... }); plugin.tool('roll_dice', async (args) => ...);"
+// }
+
+export const PLUGIN_PERMISSION_LABELS: Record<PluginPermission, string> = {
+    'conversation:read': 'Read the messages of the open conversation (and possibly send them off this device)',
+    'conversation:write': 'Add notices to the open conversation',
+};
+
+// Chat commands handled by the app itself; plugins can't take these over.
+const RESERVED_COMMANDS = ['help', 'save', 'memory', 'lore', 'summarize', 'image', 'imagine', 'narrate', 'narrator', 'character', 'char', 'ai2ai', 'end', 'plugin', 'plugins'];
+const RESERVED_TOOLS: readonly string[] = TOOL_NAMES;
+
+const COMMAND_NAME = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const TOOL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+
+const toCommand = (raw: any): PluginCommand => {
+    const name = String(raw?.name || '').replace(/^\//, '').toLowerCase();
+    if (!COMMAND_NAME.test(name)) throw new Error(`Invalid command name "${raw?.name}". Use lower-case letters, digits, "-" or "_".`);
+    if (RESERVED_COMMANDS.includes(name)) throw new Error(`The command /${name} is built in and can't be replaced by a plugin.`);
+    return { name, description: String(raw.description || '') };
+};
+
+const toTool = (raw: any): PluginTool => {
+    const name = String(raw?.name || '');
+    if (!TOOL_NAME.test(name)) throw new Error(`Invalid tool name "${name}". Use letters, digits and "_".`);
+    if (RESERVED_TOOLS.includes(name)) throw new Error(`The tool ${name} is built in and can't be replaced by a plugin.`);
+    if (!raw.description) throw new Error(`Tool "${name}" needs a description so the model knows when to call it.`);
+    return { name, description: String(raw.description), ...(raw.parameters && typeof raw.parameters === 'object' && { parameters: raw.parameters }) };
+};
+
+// Validates a plugin package. Throws with a user-facing message when it is malformed.
+export const parsePluginPackage = (raw: any): { manifest: PluginManifest; code: string } => {
+    if (!raw || typeof raw !== 'object') throw new Error("A plugin must be a JSON object.");
+    const name = String(raw.name || '').trim();
+    if (!name) throw new Error("The plugin manifest is missing a name.");
+    if (typeof raw.code !== 'string' || !raw.code.trim()) throw new Error("The plugin package has no code.");
+
+    const permissions: PluginPermission[] = Array.isArray(raw.permissions) ? raw.permissions : [];
+    const unknown = permissions.filter(p => !(p in PLUGIN_PERMISSION_LABELS));
+    if (unknown.length > 0) throw new Error(`Unknown permission(s): ${unknown.join(', ')}.`);
+
+    const commands = (Array.isArray(raw.commands) ? raw.commands : []).map(toCommand);
+    const tools = (Array.isArray(raw.tools) ? raw.tools : []).map(toTool);
+    if (commands.length === 0 && tools.length === 0) throw new Error("The plugin declares no commands or tools.");
+
+    return {
+        manifest: {
+            name,
+            version: String(raw.version || '1.0.0'),
+            description: String(raw.description || ''),
+            permissions: [...new Set(permissions)],
+            commands,
+            tools,
+        },
+        code: raw.code,
+    };
+};
+
+// Another installed plugin already owning a command or tool name would make calls ambiguous.
+export const findNameConflict = (manifest: PluginManifest, installed: InstalledPlugin[]): string | null => {
+    for (const other of installed) {
+        if (other.manifest.name === manifest.name) continue; // Same plugin: the install replaces it
+        const command = manifest.commands.find(c => other.manifest.commands.some(o => o.name === c.name));
+        if (command) return `The command /${command.name} is already provided by "${other.manifest.name}".`;
+        const tool = manifest.tools.find(t => other.manifest.tools.some(o => o.name === t.name));
+        if (tool) return `The tool ${tool.name} is already provided by "${other.manifest.name}".`;
+    }
+    return null;
+};
@@ -0,0 +1,88 @@
+// Lightweight, regex-based highlighting for code blocks in model output. It only colours comments,
+// strings, numbers and keywords, which is enough to make code readable without a full grammar.
+
+export type TokenKind = 'comment' | 'string' | 'number' | 'keyword' | 'literal';
+
+export interface CodeToken {
+    text: string;
+    kind?: TokenKind;
+}
+
+interface LanguageSpec {
+    comment: RegExp;
+    string: RegExp;
+    keywords: string[];
+    literals: string[];
+    caseInsensitive?: boolean;
+}
+
+const C_COMMENT = /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/;
+const HASH_COMMENT = /#.*/;
+const QUOTED = /"(?:\\[\s\S]|[^"\\\n])*"?|'(?:\\[\s\S]|[^'\\\n])*'?/;
+const QUOTED_OR_TEMPLATE = /"(?:\\[\s\S]|[^"\\\n])*"?|'(?:\\[\s\S]|[^'\\\n])*'?|`(?:\\[\s\S]|[^`\\])*`?/;
+const NUMBER = /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)\b/;
+
+const JS_KEYWORDS = ['abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'declare', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'get', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'keyof', 'let', 'new', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'set', 'static', 'super', 'switch', 'this', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'with', 'yield'];
+const C_FAMILY_KEYWORDS = ['auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do', 'double', 'else', 'enum', 'extends', 'extern', 'final', 'float', 'for', 'fn', 'func', 'go', 'if', 'impl', 'implements', 'import', 'int', 'interface', 'let', 'long', 'match', 'mod', 'mut', 'namespace', 'new', 'package', 'private', 'protected', 'pub', 'public', 'return', 'short', 'static', 'string', 'struct', 'super', 'switch', 'template', 'this', 'throw', 'throws', 'trait', 'try', 'typedef', 'unsigned', 'use', 'using', 'var', 'virtual', 'void', 'where', 'while'];
+const PYTHON_KEYWORDS = ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'];
+const SHELL_KEYWORDS = ['case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'until', 'while'];
+const SQL_KEYWORDS = ['add', 'all', 'alter', 'and', 'as', 'asc', 'by', 'case', 'create', 'delete', 'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'from', 'group', 'having', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'left', 'like', 'limit', 'not', 'on', 'or', 'order', 'outer', 'primary', 'key', 'right', 'select', 'set', 'table', 'then', 'union', 'update', 'values', 'when', 'where', 'with'];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+    js: { comment: C_COMMENT, string: QUOTED_OR_TEMPLATE, keywords: JS_KEYWORDS, literals: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'] },
+    c: { comment: C_COMMENT, string: QUOTED, keywords: C_FAMILY_KEYWORDS, literals: ['true', 'false', 'null', 'nullptr', 'nil', 'NULL', 'None', 'Some', 'Ok', 'Err', 'self'] },
+    python: { comment: HASH_COMMENT, string: /"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|[rbfuRBFU]{0,2}"(?:\\[\s\S]|[^"\\\n])*"?|[rbfuRBFU]{0,2}'(?:\\[\s\S]|[^'\\\n])*'?/, keywords: PYTHON_KEYWORDS, literals: ['True', 'False', 'None', 'self'] },
+    shell: { comment: HASH_COMMENT, string: QUOTED, keywords: SHELL_KEYWORDS, literals: [] },
+    sql: { comment: /--.*|\/\*[\s\S]*?(?:\*\/|$)/, string: QUOTED, keywords: SQL_KEYWORDS, literals: ['true', 'false', 'null'], caseInsensitive: true },
+    json: { comment: /(?!)/, string: QUOTED, keywords: [], literals: ['true', 'false', 'null'] },
+    css: { comment: /\/\*[\s\S]*?(?:\*\/|$)/, string: QUOTED, keywords: ['important', 'media', 'import', 'keyframes', 'supports', 'font-face'], literals: [] },
+    yaml: { comment: HASH_COMMENT, string: QUOTED, keywords: [], literals: ['true', 'false', 'null', 'yes', 'no', 'on', 'off'] },
+};
+
+const ALIASES: Record<string, string> = {
+    js: 'js', javascript: 'js', jsx: 'js', mjs: 'js', cjs: 'js', ts: 'js', typescript: 'js', tsx: 'js',
+    c: 'c', h: 'c', cpp: 'c', 'c++': 'c', cc: 'c', hpp: 'c', cs: 'c', csharp: 'c', java: 'c', kotlin: 'c', kt: 'c',
+    go: 'c', golang: 'c', rust: 'c', rs: 'c', swift: 'c', dart: 'c', php: 'c', scala: 'c',
+    py: 'python', python: 'python', python3: 'python',
+    sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell', console: 'shell', powershell: 'shell', ps1: 'shell',
+    sql: 'sql', mysql: 'sql', postgres: 'sql', postgresql: 'sql', sqlite: 'sql',
+    json: 'json', jsonc: 'json',
+    css: 'css', scss: 'css', less: 'css',
+    yaml: 'yaml', yml: 'yaml', toml: 'yaml', ini: 'yaml',
+};
+
+const tokenizers = new Map<string, RegExp>();
+
+// One global regex per language; the group that matched decides the token kind.
+const getTokenizer = (name: string, spec: LanguageSpec): RegExp => {
+    let tokenizer = tokenizers.get(name);
+    if (!tokenizer) {
+        const words = (list: string[]) => list.length > 0 ? `\\b(?:${list.join('|')})\\b` : '(?!)';
+        tokenizer = new RegExp(
+            `(${spec.comment.source})|(${spec.string.source})|(${NUMBER.source})|(${words(spec.keywords)})|(${words(spec.literals)})`,
+            spec.caseInsensitive ? 'gi' : 'g',
+        );
+        tokenizers.set(name, tokenizer);
+    }
+    return tokenizer;
+};
+
+const KINDS: TokenKind[] = ['comment', 'string', 'number', 'keyword', 'literal'];
+
+// Splits code into tokens; unknown languages come back as a single plain token.
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+    const name = Object.hasOwn(ALIASES, language) ? ALIASES[language] : undefined;
+    if (!name) return [{ text: code }];
+    const tokenizer = getTokenizer(name, LANGUAGES[name]);
+    const tokens: CodeToken[] = [];
+    let last = 0;
+    for (const match of code.matchAll(tokenizer)) {
+        if (!match[0]) continue;
+        if (match.index! > last) tokens.push({ text: code.slice(last, match.index) });
+        const group = match.slice(1).findIndex(g => g !== undefined);
+        tokens.push({ text: match[0], kind: KINDS[group] });
+        last = match.index! + match[0].length;
+    }
+    if (last < code.length) tokens.push({ text: code.slice(last) });
+    return tokens;
+};
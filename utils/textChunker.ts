@@ -0,0 +1,37 @@
+import { decode } from './helpers.ts';
+
+const CHUNK_SIZE = 1500; // Characters; roughly 350 tokens, small enough that several fit in one turn
+const CHUNK_OVERLAP = 200; // Carried into the next chunk so a sentence split at a boundary is still found
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|json|csv|html?|xml|ya?ml)$/i;
+
+// Only text documents are chunked for retrieval; images and media are still attached whole.
+export const isTextDocument = (file: { name: string; type: string }): boolean =>
+    file.type.startsWith('text/') || TEXT_EXTENSIONS.test(file.name);
+
+// Library files are stored as base64; decode as UTF-8 so non-ASCII text survives.
+export const decodeTextDocument = (base64: string): string => new TextDecoder().decode(decode(base64));
+
+// Splits text into overlapping chunks, preferring paragraph, then sentence, then word boundaries.
+export const chunkText = (text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] => {
+    const normalized = text.replace(/\r\n/g, '\n').trim();
+    if (!normalized) return [];
+    if (normalized.length <= size) return [normalized];
+
+    const chunks: string[] = [];
+    let start = 0;
+    while (start < normalized.length) {
+        let end = Math.min(start + size, normalized.length);
+        if (end < normalized.length) {
+            const window = normalized.slice(start, end);
+            const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf(' ')]
+                .find(index => index > size / 2);
+            if (breakAt !== undefined) end = start + breakAt + 1;
+        }
+        const chunk = normalized.slice(start, end).trim();
+        if (chunk) chunks.push(chunk);
+        if (end >= normalized.length) break;
+        start = Math.max(end - overlap, start + 1);
+    }
+    return chunks;
+};
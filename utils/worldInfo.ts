@@ -0,0 +1,107 @@
+import type { Lorebook, WorldInfoEntry } from '../types.ts';
+import { estimateTokens } from './contextBudget.ts';
+
+// World Info: lorebook entries are only injected when their keys appear in the recent chat,
+// so large settings cost tokens only for what the conversation is actually about.
+
+const DEFAULT_SCAN_DEPTH = 4;
+const DEFAULT_TOKEN_BUDGET = 1024;
+
+const toKeyList = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(k => String(k).trim()).filter(Boolean);
+    if (typeof value === 'string') return value.split(',').map(k => k.trim()).filter(Boolean);
+    return [];
+};
+
+const toEntry = (raw: any, index: number): WorldInfoEntry => {
+    const keys = toKeyList(raw.keys ?? raw.key);
+    const secondaryKeys = toKeyList(raw.secondary_keys ?? raw.keysecondary);
+    const scanDepth = raw.scanDepth ?? raw.extensions?.scan_depth;
+    return {
+        id: crypto.randomUUID(),
+        name: raw.name || raw.comment || keys[0] || `Entry ${index + 1}`,
+        keys,
+        secondaryKeys,
+        selective: !!raw.selective && secondaryKeys.length > 0,
+        content: raw.content || '',
+        constant: !!raw.constant,
+        enabled: raw.enabled ?? !raw.disable,
+        caseSensitive: !!(raw.case_sensitive ?? raw.caseSensitive),
+        insertionOrder: Number(raw.insertion_order ?? raw.order ?? 100),
+        // SillyTavern world files use 0/1, character cards use the string form.
+        position: raw.position === 'after_char' || raw.position === 1 ? 'after_char' : 'before_char',
+        ...(typeof scanDepth === 'number' && { scanDepth }),
+    };
+};
+
+// Accepts a card's `character_book` (entries array) or a SillyTavern world file (entries keyed by uid).
+// Returns null when the JSON isn't a lorebook.
+export const parseLorebook = (raw: any, fallbackName: string): Lorebook | null => {
+    if (!raw || typeof raw !== 'object' || !raw.entries || typeof raw.entries !== 'object') return null;
+    const rawEntries: any[] = Array.isArray(raw.entries) ? raw.entries : Object.values(raw.entries);
+    return {
+        id: crypto.randomUUID(),
+        name: raw.name || fallbackName,
+        isEnabled: true,
+        scanDepth: Number(raw.scan_depth ?? raw.scanDepth ?? DEFAULT_SCAN_DEPTH),
+        tokenBudget: Number(raw.token_budget ?? raw.tokenBudget ?? DEFAULT_TOKEN_BUDGET),
+        recursiveScanning: !!(raw.recursive_scanning ?? raw.recursiveScanning),
+        entries: rawEntries.filter(e => e && typeof e === 'object').map(toEntry),
+    };
+};
+
+const matchesKey = (key: string, text: string, caseSensitive: boolean): boolean => {
+    const regex = key.match(/^\/(.+)\/([gimsuy]*)$/);
+    if (regex) {
+        try {
+            return new RegExp(regex[1], regex[2]).test(text);
+        } catch {
+            return false; // Invalid patterns never match rather than breaking the turn
+        }
+    }
+    return caseSensitive ? text.includes(key) : text.toLowerCase().includes(key.toLowerCase());
+};
+
+const isTriggered = (entry: WorldInfoEntry, text: string): boolean => {
+    if (!entry.keys.some(k => matchesKey(k, text, entry.caseSensitive))) return false;
+    return !entry.selective || entry.secondaryKeys.some(k => matchesKey(k, text, entry.caseSensitive));
+};
+
+const scanBook = (book: Lorebook, recentMessages: string[]): WorldInfoEntry[] => {
+    const candidates = book.entries.filter(e => e.enabled && e.content.trim());
+    const windowFor = (entry: WorldInfoEntry) => recentMessages.slice(-(entry.scanDepth ?? book.scanDepth)).join('\n');
+
+    const activated = candidates.filter(e => e.constant || isTriggered(e, windowFor(e)));
+    if (book.recursiveScanning) {
+        let added = activated;
+        while (added.length > 0) {
+            const recursionText = added.map(e => e.content).join('\n');
+            added = candidates.filter(e => !activated.includes(e) && isTriggered(e, recursionText));
+            activated.push(...added);
+        }
+    }
+
+    // Constants first, then the highest insertion order, until the budget is spent.
+    const byPriority = [...activated].sort((a, b) => Number(b.constant) - Number(a.constant) || b.insertionOrder - a.insertionOrder);
+    const kept: WorldInfoEntry[] = [];
+    let used = 0;
+    for (const entry of byPriority) {
+        const cost = estimateTokens(entry.content);
+        if (used + cost > book.tokenBudget) continue;
+        kept.push(entry);
+        used += cost;
+    }
+    return kept;
+};
+
+// Scans the recent messages (oldest first, the new user message last) against every enabled book.
+export const scanWorldInfo = (books: Lorebook[], recentMessages: string[]): { before: WorldInfoEntry[]; after: WorldInfoEntry[] } => {
+    const entries = books
+        .filter(book => book.isEnabled)
+        .flatMap(book => scanBook(book, recentMessages))
+        .sort((a, b) => a.insertionOrder - b.insertionOrder);
+    return {
+        before: entries.filter(e => e.position === 'before_char'),
+        after: entries.filter(e => e.position === 'after_char'),
+    };
+};